@@ -0,0 +1,128 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { pipeline } from "stream/promises";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import type { Logger } from "@lage-run/logger";
+
+export interface HttpCacheServerOptions {
+  /**
+   * Directory where the cache artifacts are stored
+   */
+  cacheDir: string;
+
+  /**
+   * Bearer token that clients must present in the `Authorization` header; when unset, no authentication is required
+   */
+  token?: string;
+
+  logger: Logger;
+}
+
+const HASH_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Creates a directory-backed server implementing the protocol used by the `HttpCacheProvider`:
+ * - `GET /<hash>` streams the stored tar archive, or responds with 404
+ * - `HEAD /<hash>` responds with 200 if the artifact exists, or 404
+ * - `PUT /<hash>` stores the tar archive sent as the request body
+ *
+ * Artifacts are written to a temporary file first and renamed into place, so concurrent readers never see a partial archive.
+ */
+export function createHttpCacheServer(options: HttpCacheServerOptions): Server {
+  const { cacheDir, token, logger } = options;
+
+  const getArtifactPath = (hash: string) => path.join(cacheDir, hash.substring(0, 4), hash);
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+    if (token && !isAuthorized(req.headers.authorization, `Bearer ${token}`)) {
+      return respond(res, 401);
+    }
+
+    const hash = decodePath(new URL(req.url ?? "/", "http://localhost").pathname.substring(1));
+
+    if (hash === undefined || !HASH_PATTERN.test(hash)) {
+      return respond(res, 400);
+    }
+
+    const artifactPath = getArtifactPath(hash);
+
+    switch (req.method) {
+      case "GET":
+      case "HEAD": {
+        const stat = await fs.promises.stat(artifactPath).catch(() => undefined);
+
+        if (!stat) {
+          return respond(res, 404);
+        }
+
+        res.writeHead(200, { "Content-Type": "application/x-tar", "Content-Length": stat.size });
+
+        if (req.method === "HEAD") {
+          return res.end();
+        }
+
+        return pipeline(fs.createReadStream(artifactPath), res);
+      }
+
+      case "PUT": {
+        const tempPath = `${artifactPath}.${process.pid}.${Date.now()}.tmp`;
+
+        await fs.promises.mkdir(path.dirname(artifactPath), { recursive: true });
+
+        try {
+          await pipeline(req, fs.createWriteStream(tempPath));
+          await fs.promises.rename(tempPath, artifactPath);
+        } catch (e) {
+          await fs.promises.rm(tempPath, { force: true });
+          throw e;
+        }
+
+        logger.verbose(`Stored cache artifact ${hash}`);
+        return respond(res, 201);
+      }
+
+      default:
+        res.setHeader("Allow", "GET, HEAD, PUT");
+        return respond(res, 405);
+    }
+  }
+
+  return http.createServer((req, res) => {
+    handleRequest(req, res).catch((e) => {
+      logger.error(`Failed to handle ${req.method} ${req.url}: ${e instanceof Error ? e.message : String(e)}`);
+
+      if (!res.headersSent) {
+        respond(res, 500);
+      } else {
+        res.destroy();
+      }
+    });
+  });
+}
+
+function respond(res: ServerResponse, statusCode: number) {
+  res.writeHead(statusCode);
+  res.end();
+}
+
+/**
+ * Compares the `Authorization` header with the expected one in constant time, so that the token cannot be guessed from response times
+ */
+function isAuthorized(authorization: string | undefined, expected: string) {
+  const actualBuffer = Buffer.from(authorization ?? "");
+  const expectedBuffer = Buffer.from(expected);
+  return actualBuffer.length === expectedBuffer.length && crypto.timingSafeEqual(actualBuffer, expectedBuffer);
+}
+
+/**
+ * Decodes the path of a request, or returns `undefined` when it has malformed escape sequences
+ */
+function decodePath(pathname: string) {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    return undefined;
+  }
+}
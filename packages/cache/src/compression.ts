@@ -0,0 +1,172 @@
+import { PassThrough, Transform } from "stream";
+import * as zlib from "zlib";
+import type { Readable, TransformCallback } from "stream";
+import type { CacheCompression } from "@lage-run/config";
+
+/**
+ * Compressed artifacts start with this header, followed by the name of the compression and a newline (e.g. `\x89lage gzip\n`).
+ * Artifacts without it are plain tar archives, as written before compression was supported.
+ */
+const HEADER_MAGIC = Buffer.from("\x89lage ", "latin1");
+
+const MAX_HEADER_LENGTH = 32;
+
+// zstd is only in the zlib of recent versions of Node
+const zstd = zlib as typeof zlib & {
+  createZstdCompress?: () => Transform;
+  createZstdDecompress?: () => Transform;
+};
+
+function isCompressionSupported(compression: CacheCompression) {
+  return compression !== "zstd" || typeof zstd.createZstdCompress === "function";
+}
+
+function createCompressor(compression: CacheCompression): Transform {
+  switch (compression) {
+    case "gzip":
+      return zlib.createGzip();
+    case "brotli":
+      return zlib.createBrotliCompress({ params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 6 } });
+    case "zstd":
+      return zstd.createZstdCompress!();
+    default:
+      return new PassThrough();
+  }
+}
+
+function createDecompressor(compression: string): Transform {
+  switch (compression) {
+    case "gzip":
+      return zlib.createGunzip();
+    case "brotli":
+      return zlib.createBrotliDecompress();
+    case "zstd":
+      if (zstd.createZstdDecompress) {
+        return zstd.createZstdDecompress();
+      }
+      throw new Error("the artifact is compressed with zstd, which this version of Node does not support");
+    default:
+      throw new Error(`the artifact is compressed with an unknown compression: ${compression}`);
+  }
+}
+
+/** the number of bytes on each side of a compression or decompression, for the logs */
+export interface CompressionStats {
+  compression: string;
+  compressedBytes: number;
+  uncompressedBytes: number;
+}
+
+export function formatCompressionStats(stats: CompressionStats) {
+  const ratio = stats.compressedBytes > 0 ? (stats.uncompressedBytes / stats.compressedBytes).toFixed(2) : "-";
+  return `${stats.compression}, ${stats.uncompressedBytes} bytes as ${stats.compressedBytes} bytes (ratio ${ratio})`;
+}
+
+export function countBytes(onChunk: (length: number) => void) {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      onChunk(chunk.length);
+      callback(null, chunk);
+    },
+  });
+}
+
+/**
+ * Compresses a tar stream into an artifact. Without compression, the artifact is the tar stream itself, so that older versions of lage
+ * can read it. zstd falls back to gzip on versions of Node without it.
+ */
+export function compressArtifact(tarStream: Readable, preferredCompression: CacheCompression = "none") {
+  const compression = isCompressionSupported(preferredCompression) ? preferredCompression : "gzip";
+  const stats: CompressionStats = { compression, compressedBytes: 0, uncompressedBytes: 0 };
+
+  if (compression === "none") {
+    return { stream: tarStream, stats };
+  }
+
+  const output = countBytes((length) => (stats.compressedBytes += length));
+  output.write(Buffer.concat([HEADER_MAGIC, Buffer.from(`${compression}\n`, "latin1")]));
+
+  const compressor = createCompressor(compression);
+  const input = countBytes((length) => (stats.uncompressedBytes += length));
+
+  for (const stream of [tarStream, input, compressor]) {
+    stream.on("error", (error) => output.destroy(error));
+  }
+
+  tarStream.pipe(input).pipe(compressor).pipe(output);
+
+  return { stream: output as Readable, stats };
+}
+
+/**
+ * Turns an artifact back into a tar stream, reading the compression from its header
+ */
+export class ArtifactDecompressStream extends Transform {
+  readonly stats: CompressionStats = { compression: "none", compressedBytes: 0, uncompressedBytes: 0 };
+
+  private pending: Buffer[] = [];
+  private decompressor: Transform | undefined;
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+    this.stats.compressedBytes += chunk.length;
+
+    if (this.decompressor) {
+      this.decompressor.write(chunk, callback);
+      return;
+    }
+
+    this.pending.push(chunk);
+
+    if (Buffer.concat(this.pending).length < MAX_HEADER_LENGTH) {
+      callback();
+      return;
+    }
+
+    this.start(callback);
+  }
+
+  _flush(callback: TransformCallback) {
+    const end = () => {
+      this.decompressor!.once("end", () => callback());
+      this.decompressor!.end();
+    };
+
+    if (this.decompressor) {
+      end();
+    } else {
+      this.start((error) => (error ? callback(error) : end()));
+    }
+  }
+
+  /** picks the decompressor from the header, and passes it what has been read so far */
+  private start(callback: (error?: Error | null) => void) {
+    let data = Buffer.concat(this.pending);
+    this.pending = [];
+
+    try {
+      if (data.subarray(0, HEADER_MAGIC.length).equals(HEADER_MAGIC)) {
+        const end = data.indexOf("\n", HEADER_MAGIC.length);
+
+        if (end === -1) {
+          throw new Error("the header of the artifact is invalid");
+        }
+
+        this.stats.compression = data.subarray(HEADER_MAGIC.length, end).toString("latin1");
+        this.decompressor = createDecompressor(this.stats.compression);
+        data = data.subarray(end + 1);
+      } else {
+        this.decompressor = new PassThrough();
+      }
+    } catch (error) {
+      callback(error as Error);
+      return;
+    }
+
+    this.decompressor.on("data", (chunk: Buffer) => {
+      this.stats.uncompressedBytes += chunk.length;
+      this.push(chunk);
+    });
+    this.decompressor.on("error", (error) => this.destroy(error));
+    this.decompressor.write(data, callback);
+  }
+}
@@ -0,0 +1,21 @@
+import { chunkPromise } from "./chunkPromise.js";
+
+/**
+ * Checks many hashes with a bounded number of concurrent `exists()` lookups, for storages that have no batched lookup of their own
+ */
+export async function existsMany(
+  exists: (hash: string) => Promise<boolean | undefined>,
+  hashes: string[],
+  concurrency = 10
+): Promise<Map<string, boolean | undefined>> {
+  const results = new Map<string, boolean | undefined>();
+
+  await chunkPromise(
+    hashes.map((hash) => async () => {
+      results.set(hash, await exists(hash));
+    }),
+    concurrency
+  );
+
+  return results;
+}
@@ -0,0 +1,37 @@
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import { getCacheDirectory } from "./getCacheDirectory.js";
+
+const lstat = promisify(fs.lstat);
+const readdir = promisify(fs.readdir);
+
+async function getSize(entryPath: string): Promise<number> {
+  const stat = await lstat(entryPath);
+
+  if (!stat.isDirectory()) {
+    return stat.size;
+  }
+
+  let total = 0;
+
+  // one file at a time, the entries themselves are sized concurrently by the callers
+  for (const entry of await readdir(entryPath)) {
+    total += await getSize(path.join(entryPath, entry));
+  }
+
+  return total;
+}
+
+/**
+ * Gets the size (in bytes) of the entry of a hash in the local cache, or `undefined` if the local cache has no such entry
+ */
+export async function getCacheEntrySize(root: string, hash: string): Promise<number | undefined> {
+  const entryPath = path.join(getCacheDirectory(root, hash), hash);
+
+  if (!fs.existsSync(entryPath)) {
+    return undefined;
+  }
+
+  return getSize(entryPath);
+}
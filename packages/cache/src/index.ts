@@ -1,6 +1,16 @@
 export { BackfillCacheProvider } from "./providers/BackfillCacheProvider.js";
+export type { BackfillCacheProviderOptions, CacheEvictionResult } from "./providers/BackfillCacheProvider.js";
 export { RemoteFallbackCacheProvider } from "./providers/RemoteFallbackCacheProvider.js";
+export { HttpCacheProvider } from "./providers/HttpCacheProvider.js";
+export type { HttpCacheProviderOptions } from "./providers/HttpCacheProvider.js";
+export { createHttpCacheServer } from "./HttpCacheServer.js";
+export type { HttpCacheServerOptions } from "./HttpCacheServer.js";
 export type { CacheOptions } from "@lage-run/config";
-export type { CacheProvider } from "./types/CacheProvider.js";
+export type { CacheProvider, CacheTier, CacheTransferStats } from "./types/CacheProvider.js";
 
 export { getCacheDirectory, getLogsCacheDirectory, getCacheDirectoryRoot } from "./getCacheDirectory.js";
+export { getCacheEntrySize } from "./getCacheEntrySize.js";
+export { listLocalCacheEntries, getLogsCacheSize } from "./localCacheEntries.js";
+export type { CacheEntryMetadata, LocalCacheEntry } from "./localCacheEntries.js";
+export { createIntegrityManifest, verifyIntegrity } from "./integrity.js";
+export type { IntegrityManifest } from "./integrity.js";
@@ -0,0 +1,143 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+
+const readdir = promisify(fs.readdir);
+const readFile = promisify(fs.readFile);
+
+export const INTEGRITY_MANIFEST_FILE = "lage-integrity.json";
+
+/**
+ * Digests of the outputs of a cache entry, put in the remote cache next to the entry
+ */
+export interface IntegrityManifest {
+  version: 1;
+  hash: string;
+  /** sha256 of each output file, keyed by its path relative to the package, with "/" separators */
+  files: Record<string, string>;
+  /** sha256 of the hash and the file digests */
+  digest: string;
+  /** HMAC-SHA256 of the hash and the digest, with the configured integrity key */
+  signature?: string;
+}
+
+/** the key under which the manifest of an entry is stored */
+export function getIntegrityManifestHash(hash: string) {
+  return `${hash}-integrity`;
+}
+
+async function digestFiles(cwd: string, files: string[]) {
+  const digests: Record<string, string> = {};
+
+  for (const file of [...files].sort()) {
+    digests[file] = crypto
+      .createHash("sha256")
+      .update(await readFile(path.join(cwd, file)))
+      .digest("hex");
+  }
+
+  return digests;
+}
+
+function getDigest(hash: string, files: Record<string, string>) {
+  const digest = crypto.createHash("sha256").update(hash);
+
+  for (const file of Object.keys(files).sort()) {
+    digest.update(`\n${file}:${files[file]}`);
+  }
+
+  return digest.digest("hex");
+}
+
+function sign(hash: string, digest: string, key: string) {
+  return crypto.createHmac("sha256", key).update(`${hash}\n${digest}`).digest("hex");
+}
+
+/**
+ * Lists the files under a directory, relative to it and with "/" separators
+ */
+export async function listFiles(directory: string, prefix = ""): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const entry of await readdir(path.join(directory, prefix), { withFileTypes: true })) {
+    const file = prefix ? `${prefix}/${entry.name}` : entry.name;
+    files.push(...(entry.isDirectory() ? await listFiles(directory, file) : [file]));
+  }
+
+  return files;
+}
+
+export async function createIntegrityManifest(hash: string, cwd: string, files: string[], key?: string): Promise<IntegrityManifest> {
+  const digests = await digestFiles(cwd, files);
+  const digest = getDigest(hash, digests);
+
+  return {
+    version: 1,
+    hash,
+    files: digests,
+    digest,
+    ...(key && { signature: sign(hash, digest, key) }),
+  };
+}
+
+/**
+ * Checks the restored files of an entry against its manifest. The restored files must be exactly the files of the manifest, with the same
+ * digests - unless `partial` is set, for incremental caching, which leaves the unchanged files out of the entry. With a key, the manifest
+ * must also be signed with it.
+ *
+ * @returns why the entry failed the check, or `undefined` if it passed
+ */
+export async function verifyIntegrity(
+  manifest: IntegrityManifest,
+  hash: string,
+  cwd: string,
+  files: string[],
+  options: { key?: string; partial?: boolean } = {}
+): Promise<string | undefined> {
+  const { key, partial } = options;
+
+  if (manifest.version !== 1 || manifest.hash !== hash || typeof manifest.files !== "object") {
+    return "the integrity manifest does not belong to the entry";
+  }
+
+  if (manifest.digest !== getDigest(hash, manifest.files)) {
+    return "the integrity manifest does not match its digest";
+  }
+
+  if (key) {
+    const expected = Buffer.from(sign(hash, manifest.digest, key), "hex");
+    const actual = Buffer.from(manifest.signature ?? "", "hex");
+
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      return manifest.signature ? "the signature does not match" : "the entry is not signed";
+    }
+  }
+
+  if (files.length === 0 && Object.keys(manifest.files).length > 0) {
+    return "the entry has none of the files of its integrity manifest";
+  }
+
+  const digests = await digestFiles(cwd, files);
+
+  for (const [file, digest] of Object.entries(digests)) {
+    if (manifest.files[file] === undefined) {
+      return `${file} is not in the integrity manifest`;
+    }
+
+    if (manifest.files[file] !== digest) {
+      return `the digest of ${file} does not match`;
+    }
+  }
+
+  if (!partial) {
+    const restored = new Set(files);
+    const missing = Object.keys(manifest.files).find((file) => !restored.has(file));
+
+    if (missing !== undefined) {
+      return `${missing} is missing from the entry`;
+    }
+  }
+
+  return undefined;
+}
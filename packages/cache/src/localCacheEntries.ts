@@ -0,0 +1,136 @@
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import type { Target } from "@lage-run/target-graph";
+import { chunkPromise } from "./chunkPromise.js";
+import { getCacheDirectory, getCacheDirectoryRoot } from "./getCacheDirectory.js";
+import { getCacheEntrySize } from "./getCacheEntrySize.js";
+
+const readdir = promisify(fs.readdir);
+const readFile = promisify(fs.readFile);
+const stat = promisify(fs.stat);
+const writeFile = promisify(fs.writeFile);
+
+const METADATA_EXTENSION = ".json";
+
+/**
+ * What is known about the target that produced a cache entry, written next to the entry when it is put in the local cache
+ */
+export interface CacheEntryMetadata {
+  hash: string;
+  /** id of the target, e.g. "my-package#build" */
+  target: string;
+  packageName?: string;
+  task: string;
+  /** when the entry was put in the cache, in milliseconds since the epoch */
+  createdAt: number;
+}
+
+export interface LocalCacheEntry {
+  hash: string;
+  entryPath: string;
+  /** in bytes */
+  size: number;
+  /** when the entry was last put in or fetched from the cache, in milliseconds since the epoch */
+  lastUsed: number;
+  /** missing for the entries put in the cache by older versions of lage */
+  metadata?: CacheEntryMetadata;
+}
+
+export function getCacheEntryMetadataPath(root: string, hash: string) {
+  return path.join(getCacheDirectory(root, hash), `${hash}${METADATA_EXTENSION}`);
+}
+
+export async function writeCacheEntryMetadata(root: string, hash: string, target: Target) {
+  const metadata: CacheEntryMetadata = {
+    hash,
+    target: target.id,
+    ...(target.packageName && { packageName: target.packageName }),
+    task: target.task,
+    createdAt: Date.now(),
+  };
+
+  await writeFile(getCacheEntryMetadataPath(root, hash), JSON.stringify(metadata), "utf-8");
+}
+
+async function readCacheEntryMetadata(root: string, hash: string): Promise<CacheEntryMetadata | undefined> {
+  try {
+    return JSON.parse(await readFile(getCacheEntryMetadataPath(root, hash), "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Lists the entries of the local cache (`node_modules/.cache/lage/cache/<hash prefix>/<hash>`), with their size and metadata
+ */
+export async function listLocalCacheEntries(root: string, concurrency = 10): Promise<LocalCacheEntry[]> {
+  const cacheDirectory = path.join(getCacheDirectoryRoot(root), "cache");
+  const hashes: { hash: string; entryPath: string }[] = [];
+
+  if (!fs.existsSync(cacheDirectory)) {
+    return [];
+  }
+
+  for (const prefix of await readdir(cacheDirectory)) {
+    const prefixDirectory = path.join(cacheDirectory, prefix);
+
+    if (!(await stat(prefixDirectory)).isDirectory()) {
+      continue;
+    }
+
+    for (const hash of await readdir(prefixDirectory)) {
+      if (!hash.endsWith(METADATA_EXTENSION)) {
+        hashes.push({ hash, entryPath: path.join(prefixDirectory, hash) });
+      }
+    }
+  }
+
+  const entries: LocalCacheEntry[] = [];
+
+  await chunkPromise(
+    hashes.map(({ hash, entryPath }) => async () => {
+      const entryStat = await stat(entryPath);
+      const metadata = await readCacheEntryMetadata(root, hash);
+
+      entries.push({
+        hash,
+        entryPath,
+        size: (await getCacheEntrySize(root, hash)) ?? 0,
+        lastUsed: entryStat.mtime.getTime(),
+        ...(metadata && { metadata }),
+      });
+    }),
+    concurrency
+  );
+
+  return entries;
+}
+
+/**
+ * Gets the number and total size (in bytes) of the target output logs kept in `node_modules/.cache/lage/logs`
+ */
+export async function getLogsCacheSize(root: string): Promise<{ files: number; size: number }> {
+  const logsDirectory = path.join(getCacheDirectoryRoot(root), "logs");
+  let files = 0;
+  let size = 0;
+
+  if (!fs.existsSync(logsDirectory)) {
+    return { files, size };
+  }
+
+  for (const prefix of await readdir(logsDirectory)) {
+    const prefixDirectory = path.join(logsDirectory, prefix);
+
+    if (!(await stat(prefixDirectory)).isDirectory()) {
+      continue;
+    }
+
+    for (const file of await readdir(prefixDirectory)) {
+      files++;
+      size += (await stat(path.join(prefixDirectory, file))).size;
+    }
+  }
+
+  return { files, size };
+}
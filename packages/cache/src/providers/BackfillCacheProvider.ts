@@ -2,19 +2,30 @@ import { createBackfillCacheConfig, createBackfillLogger } from "../backfillWrap
 import { getCacheStorageProvider } from "backfill-cache";
 import { promisify } from "util";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
-import type { CacheProvider } from "../types/CacheProvider.js";
-import type { CacheOptions, CloudflareR2CacheStorageConfig } from "@lage-run/config";
+import { glob } from "glob-hasher";
+import type { CacheProvider, CacheTransferStats } from "../types/CacheProvider.js";
+import type { CacheOptions, CloudflareR2CacheStorageConfig, HttpCacheStorageConfig } from "@lage-run/config";
 import type { Logger as BackfillLogger } from "backfill-logger";
 import type { Target } from "@lage-run/target-graph";
 import type { Logger } from "@lage-run/logger";
-import { getCacheDirectory, getCacheDirectoryRoot } from "../getCacheDirectory.js";
+import { getCacheDirectory, getCacheDirectoryRoot, getLogsCacheDirectory } from "../getCacheDirectory.js";
+import { getCacheEntryMetadataPath, listLocalCacheEntries, writeCacheEntryMetadata } from "../localCacheEntries.js";
+import type { LocalCacheEntry } from "../localCacheEntries.js";
+import { INTEGRITY_MANIFEST_FILE, createIntegrityManifest, getIntegrityManifestHash, listFiles, verifyIntegrity } from "../integrity.js";
+import type { IntegrityManifest } from "../integrity.js";
 import { chunkPromise } from "../chunkPromise.js";
+import { existsMany } from "../existsMany.js";
 import { CloudflareR2CacheStorageWrapper } from "./CloudflareR2CacheStorageWrapper.js";
+import { HttpCacheStorageWrapper } from "./HttpCacheStorageWrapper.js";
 
 const rm = promisify(fs.rm);
 const readdir = promisify(fs.readdir);
 const stat = promisify(fs.stat);
+const utimes = promisify(fs.utimes);
+const mkdtemp = promisify(fs.mkdtemp);
+const rename = promisify(fs.rename);
 
 const MS_IN_A_DAY = 1000 * 60 * 60 * 24;
 
@@ -24,36 +35,74 @@ export interface BackfillCacheProviderOptions {
   cacheOptions: Partial<CacheOptions>;
 }
 
+export interface CacheEvictionResult {
+  evictedEntries: number;
+  /** in bytes */
+  evictedSize: number;
+  /** size of the local cache after the eviction, in bytes */
+  remainingSize: number;
+}
+
 export class BackfillCacheProvider implements CacheProvider {
   /**
    * logger for backfill
    */
   private backfillLogger: BackfillLogger;
 
-  private getTargetCacheStorageProvider(cwd: string, hash: string) {
+  /**
+   * @param storageCwd where the storage restores the entry to and puts it from, defaults to the package
+   */
+  private getTargetCacheStorageProvider(cwd: string, hash: string, storageCwd = cwd) {
     const { cacheOptions } = this.options;
     const { cacheStorageConfig, incrementalCaching } = createBackfillCacheConfig(cwd, cacheOptions, this.backfillLogger);
 
     // Handle Cloudflare R2 directly since it's not part of backfill
     if (cacheStorageConfig?.provider === "cloudflare-r2") {
       const r2Config = cacheStorageConfig as CloudflareR2CacheStorageConfig;
-      return new CloudflareR2CacheStorageWrapper(
-        r2Config,
-        cwd,
+      return new CloudflareR2CacheStorageWrapper(r2Config, storageCwd, this.options.logger, this.backfillLogger, cacheOptions.compression);
+    }
+
+    // Handle the generic HTTP cache directly since it's not part of backfill
+    if (cacheStorageConfig?.provider === "http") {
+      return new HttpCacheStorageWrapper(
+        cacheStorageConfig as HttpCacheStorageConfig,
+        storageCwd,
         this.options.logger,
-        this.backfillLogger
+        cacheOptions.compression
       );
     }
 
     const cachePath = this.getCachePath(cwd, hash);
-    return getCacheStorageProvider(cacheStorageConfig ?? { provider: "local" }, cachePath, this.backfillLogger, cwd, incrementalCaching);
+    return getCacheStorageProvider(
+      cacheStorageConfig ?? { provider: "local" },
+      cachePath,
+      this.backfillLogger,
+      storageCwd,
+      incrementalCaching
+    );
   }
 
   constructor(private options: BackfillCacheProviderOptions) {
     this.backfillLogger = createBackfillLogger();
   }
 
-  async fetch(hash: string, target: Target): Promise<boolean> {
+  /**
+   * Whether the entries of the remote cache storage carry an integrity manifest, and the key that signs them
+   */
+  private getIntegrityOptions(): { key?: string } | undefined {
+    const { root, cacheOptions } = this.options;
+
+    if (!cacheOptions.integrity && !cacheOptions.integrityKey) {
+      return undefined;
+    }
+
+    const { cacheStorageConfig } = createBackfillCacheConfig(root, cacheOptions, this.backfillLogger);
+    const provider = String(cacheStorageConfig?.provider ?? "local");
+
+    return provider === "local" || provider === "local-skip" ? undefined : { key: cacheOptions.integrityKey };
+  }
+
+  async fetch(hash: string, target: Target, stats?: CacheTransferStats): Promise<boolean> {
     const { logger } = this.options;
 
     if (!hash) {
@@ -61,9 +110,17 @@ export class BackfillCacheProvider implements CacheProvider {
     }
 
     const cacheStorage = this.getTargetCacheStorageProvider(target.cwd, hash);
+    const integrity = this.getIntegrityOptions();
 
     try {
-      return await cacheStorage.fetch(hash);
+      const hit = integrity ? await this.fetchVerified(hash, target, integrity.key, target.cwd, stats) : await cacheStorage.fetch(hash);
+
+      if (hit) {
+        addTransferredBytes(stats, cacheStorage);
+        await this.touch(hash);
+      }
+
+      return hit;
     } catch (error) {
       let message;
 
@@ -78,7 +135,7 @@ export class BackfillCacheProvider implements CacheProvider {
     }
   }
 
-  async put(hash: string, target: Target): Promise<void> {
+  async put(hash: string, target: Target, stats?: CacheTransferStats): Promise<void> {
     const { logger } = this.options;
 
     if (!hash) {
@@ -90,6 +147,17 @@ export class BackfillCacheProvider implements CacheProvider {
     try {
       const outputs = target.outputs ?? this.options.cacheOptions.outputGlob ?? ["**/*"];
       await cacheStorage.put(hash, outputs);
+      addTransferredBytes(stats, cacheStorage);
+
+      const integrity = this.getIntegrityOptions();
+      if (integrity) {
+        await this.putIntegrityManifest(hash, target, outputs, integrity.key, stats);
+      }
+
+      // the metadata traces the entry back to its target, for `lage cache ls` and `lage cache stats`
+      if (fs.existsSync(path.join(getCacheDirectory(this.options.root, hash), hash))) {
+        await writeCacheEntryMetadata(this.options.root, hash, target);
+      }
     } catch (error) {
       let message;
 
@@ -103,6 +171,172 @@ export class BackfillCacheProvider implements CacheProvider {
     }
   }
 
+  /**
+   * Restores an entry into a temporary directory first, and only copies it into the package (or `destination`) once it matches its
+   * integrity manifest. Entries without a manifest, or that do not match it, are cache misses.
+   */
+  private async fetchVerified(
+    hash: string,
+    target: Target,
+    key: string | undefined,
+    destination = target.cwd,
+    stats?: CacheTransferStats
+  ): Promise<boolean> {
+    const { logger } = this.options;
+    const tempDirectory = await mkdtemp(path.join(os.tmpdir(), "lage-cache-"));
+
+    try {
+      const manifestDirectory = path.join(tempDirectory, "manifest");
+      const outputDirectory = path.join(tempDirectory, "outputs");
+      fs.mkdirSync(manifestDirectory);
+      fs.mkdirSync(outputDirectory);
+
+      const cacheStorage = this.getTargetCacheStorageProvider(target.cwd, hash, outputDirectory);
+      if (!(await cacheStorage.fetch(hash))) {
+        return false;
+      }
+
+      const manifestHash = getIntegrityManifestHash(hash);
+      const manifestStorage = this.getTargetCacheStorageProvider(target.cwd, manifestHash, manifestDirectory);
+      const hasManifest = await manifestStorage.fetch(manifestHash);
+      const manifestPath = path.join(manifestDirectory, INTEGRITY_MANIFEST_FILE);
+
+      if (!hasManifest || !fs.existsSync(manifestPath)) {
+        logger.warn(`Cache entry ${hash} has no integrity manifest, treating it as a cache miss`, { target });
+        return false;
+      }
+
+      const manifest: IntegrityManifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+      const failure = await verifyIntegrity(manifest, hash, outputDirectory, await listFiles(outputDirectory), {
+        key,
+        partial: !!this.options.cacheOptions.incrementalCaching,
+      });
+
+      if (failure) {
+        logger.warn(`Cache entry ${hash} failed its integrity check (${failure}), treating it as a cache miss`, { target });
+        return false;
+      }
+
+      await fs.promises.cp(outputDirectory, destination, { recursive: true });
+
+      addTransferredBytes(stats, cacheStorage);
+      addTransferredBytes(stats, manifestStorage);
+      return true;
+    } finally {
+      await rm(tempDirectory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Restores an entry of the cache storage straight into the local cache of `root`, laid out as the local storage lays out its
+   * entries, without touching the package. A later `fetch()` of the local cache is then a hit.
+   */
+  async prefetch(hash: string, target: Target): Promise<boolean> {
+    const { root, logger } = this.options;
+
+    if (!hash) {
+      return false;
+    }
+
+    const entryPath = path.join(getCacheDirectory(root, hash), hash);
+
+    if (fs.existsSync(entryPath)) {
+      return true;
+    }
+
+    // the entry is restored next to where it goes and then renamed, so that a partial download never looks like an entry
+    fs.mkdirSync(path.dirname(entryPath), { recursive: true });
+    const tempDirectory = await mkdtemp(`${entryPath}-prefetch-`);
+
+    try {
+      const integrity = this.getIntegrityOptions();
+      const hit = integrity
+        ? await this.fetchVerified(hash, target, integrity.key, tempDirectory)
+        : await this.getTargetCacheStorageProvider(target.cwd, hash, tempDirectory).fetch(hash);
+
+      if (!hit) {
+        return false;
+      }
+
+      try {
+        await rename(tempDirectory, entryPath);
+      } catch (error) {
+        // the target may have put the entry in the meantime
+        if (!fs.existsSync(entryPath)) {
+          throw error;
+        }
+      }
+
+      await writeCacheEntryMetadata(root, hash, target);
+      return true;
+    } catch (error) {
+      logger.silly(`Cache prefetch failed: ${error instanceof Error ? error.message : String(error)}`, { target });
+      return false;
+    } finally {
+      await rm(tempDirectory, { recursive: true, force: true });
+    }
+  }
+
+  private async putIntegrityManifest(hash: string, target: Target, outputs: string[], key: string | undefined, stats?: CacheTransferStats) {
+    const storage = this.getTargetCacheStorageProvider(target.cwd, hash);
+    const isBackfillStorage = !(storage instanceof CloudflareR2CacheStorageWrapper || storage instanceof HttpCacheStorageWrapper);
+
+    // the manifest lists the files the storage puts in the entry: the storages of backfill glob without dotfiles
+    const files = (glob(outputs, { cwd: target.cwd, gitignore: false }) ?? [])
+      .map((file) => path.relative(target.cwd, file).split(path.sep).join("/"))
+      .filter((file) => !isBackfillStorage || !hasUnmatchedDotSegment(file, outputs));
+    const manifest = await createIntegrityManifest(hash, target.cwd, files, key);
+
+    const tempDirectory = await mkdtemp(path.join(os.tmpdir(), "lage-cache-"));
+
+    try {
+      fs.writeFileSync(path.join(tempDirectory, INTEGRITY_MANIFEST_FILE), JSON.stringify(manifest));
+
+      const manifestHash = getIntegrityManifestHash(hash);
+      const manifestStorage = this.getTargetCacheStorageProvider(target.cwd, manifestHash, tempDirectory);
+      await manifestStorage.put(manifestHash, [INTEGRITY_MANIFEST_FILE]);
+      addTransferredBytes(stats, manifestStorage);
+    } finally {
+      await rm(tempDirectory, { recursive: true, force: true });
+    }
+  }
+
+  async exists(hash: string): Promise<boolean | undefined> {
+    const { root, cacheOptions, logger } = this.options;
+
+    if (!hash) {
+      return false;
+    }
+
+    const cacheStorage = this.getTargetCacheStorageProvider(root, hash);
+
+    // the storages implemented in lage (e.g. cloudflare-r2, http) can check for an entry without downloading it
+    if (cacheStorage instanceof CloudflareR2CacheStorageWrapper || cacheStorage instanceof HttpCacheStorageWrapper) {
+      // with integrity on, an entry without its manifest is a cache miss when it is fetched
+      if (this.getIntegrityOptions()) {
+        const manifestHash = getIntegrityManifestHash(hash);
+        const [hasEntry, hasManifest] = await Promise.all([cacheStorage.exists(hash), cacheStorage.exists(manifestHash)]);
+        return hasEntry === false || hasManifest === false ? false : hasEntry && hasManifest;
+      }
+
+      return cacheStorage.exists(hash);
+    }
+
+    const { cacheStorageConfig } = createBackfillCacheConfig(root, cacheOptions, this.backfillLogger);
+
+    if (cacheStorageConfig.provider === "local") {
+      return fs.existsSync(path.join(getCacheDirectory(root, hash), hash));
+    }
+
+    // the other backfill storages (e.g. azure-blob, npm) can only tell by downloading the entry
+    logger.silly(`Cache storage "${String(cacheStorageConfig.provider)}" does not support checking for an entry: ${hash}`);
+    return undefined;
+  }
+
+  async existsMany(hashes: string[]): Promise<Map<string, boolean | undefined>> {
+    return existsMany((hash) => this.exists(hash), hashes);
+  }
+
   async clear(concurrency = 10): Promise<void> {
     return this.purge(0, concurrency);
   }
@@ -139,6 +373,62 @@ export class BackfillCacheProvider implements CacheProvider {
     );
   }
 
+  /**
+   * Evicts the least recently used entries of the local cache (along with their logs) until the cache is no larger than `maxSize` bytes.
+   * An entry is used when it is put in the cache, and whenever it is fetched from it.
+   */
+  async evict(maxSize: number, concurrency = 10): Promise<CacheEvictionResult> {
+    // a size that is not a positive number would evict the whole cache
+    if (!Number.isFinite(maxSize) || maxSize <= 0) {
+      throw new Error(`Invalid maximum size of the local cache: ${maxSize}`);
+    }
+
+    const entries = await listLocalCacheEntries(this.options.root, concurrency);
+
+    let remainingSize = entries.reduce((total, entry) => total + entry.size, 0);
+    const evicted: LocalCacheEntry[] = [];
+
+    for (const entry of entries.sort((a, b) => a.lastUsed - b.lastUsed)) {
+      if (remainingSize <= maxSize) {
+        break;
+      }
+
+      evicted.push(entry);
+      remainingSize -= entry.size;
+    }
+
+    await chunkPromise(
+      evicted.map(({ hash, entryPath }) => async () => {
+        await rm(entryPath, { recursive: true, force: true });
+        await rm(getCacheEntryMetadataPath(this.options.root, hash), { force: true });
+        await rm(path.join(getLogsCacheDirectory(this.options.root, hash), `${hash}.log`), { force: true });
+      }),
+      concurrency
+    );
+
+    this.options.logger.verbose(`Evicted ${evicted.length} entries from the local cache`);
+
+    return {
+      evictedEntries: evicted.length,
+      evictedSize: evicted.reduce((total, entry) => total + entry.size, 0),
+      remainingSize,
+    };
+  }
+
+  /**
+   * Marks the local cache entry of a hash as used, so that it is evicted after the entries that were not used since
+   */
+  private async touch(hash: string) {
+    const entryPath = path.join(getCacheDirectory(this.options.root, hash), hash);
+
+    try {
+      const now = new Date();
+      await utimes(entryPath, now, now);
+    } catch {
+      // the entry only exists when the local cache served the hit
+    }
+  }
+
   getCachePath(packagePath: string, hash: string) {
     return path.relative(packagePath, getCacheDirectory(this.options.root, hash));
   }
@@ -151,3 +441,24 @@ async function removeCache(cachePath: string, entryStat: fs.Stats) {
     return rm(cachePath);
   }
 }
+
+/**
+ * Whether a file is under a dotfile or dot directory that the globs do not name explicitly, which globs without `dot` do not match
+ */
+function hasUnmatchedDotSegment(file: string, globs: string[]) {
+  const globSegments = new Set(globs.flatMap((pattern) => pattern.split("/")));
+  return file.split("/").some((segment) => segment.startsWith(".") && !globSegments.has(segment));
+}
+
+/**
+ * Adds the bytes that a storage transferred to the stats - only the storages implemented in lage report them
+ */
+function addTransferredBytes(stats: CacheTransferStats | undefined, cacheStorage: unknown) {
+  if (
+    stats &&
+    (cacheStorage instanceof CloudflareR2CacheStorageWrapper || cacheStorage instanceof HttpCacheStorageWrapper) &&
+    cacheStorage.stats.bytes !== undefined
+  ) {
+    stats.bytes = (stats.bytes ?? 0) + cacheStorage.stats.bytes;
+  }
+}
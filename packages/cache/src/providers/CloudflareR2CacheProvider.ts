@@ -4,7 +4,10 @@ import { promisify } from "util";
 import * as tar from "tar-fs";
 import * as fs from "fs";
 import * as path from "path";
-import type { CacheProvider } from "../types/CacheProvider.js";
+import type { CacheProvider, CacheTransferStats } from "../types/CacheProvider.js";
+import { existsMany } from "../existsMany.js";
+import { ArtifactDecompressStream, compressArtifact, formatCompressionStats } from "../compression.js";
+import type { CacheCompression } from "@lage-run/config";
 import type { Logger } from "@lage-run/logger";
 import type { Target } from "@lage-run/target-graph";
 
@@ -40,6 +43,11 @@ export interface CloudflareR2CacheProviderOptions {
    * Maximum file size to download/upload (in bytes)
    */
   maxSize?: number;
+
+  /**
+   * Compression of the uploaded artifacts, defaults to `"none"` - downloaded artifacts are read whatever their compression
+   */
+  compression?: CacheCompression;
   
   /**
    * Root directory for cache operations
@@ -63,6 +71,14 @@ class TimeoutStream extends Transform {
     this.timeout = setTimeout(() => {
       this.destroy(new Error(message));
     }, timeoutMs);
+
+    // the timer must not keep the process alive on its own
+    this.timeout.unref();
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void) {
+    clearTimeout(this.timeout);
+    callback(error);
   }
 
   _transform(chunk: any, _encoding: string, callback: Function) {
@@ -98,7 +114,7 @@ export class CloudflareR2CacheProvider implements CacheProvider {
     });
   }
 
-  async fetch(hash: string, target: Target): Promise<boolean> {
+  async fetch(hash: string, target: Target, stats?: CacheTransferStats): Promise<boolean> {
     const { logger, bucket, maxSize } = this.options;
     
     if (!hash) {
@@ -140,13 +156,23 @@ export class CloudflareR2CacheProvider implements CacheProvider {
         `R2 fetch request for ${hash} timed out`
       );
 
+      const decompressStream = new ArtifactDecompressStream();
+
       await pipelineAsync(
         response.Body as NodeJS.ReadableStream,
         timeoutStream,
+        decompressStream,
         extractStream
       );
 
+      if (stats) {
+        stats.bytes = decompressStream.stats.compressedBytes;
+      }
+
       logger.silly(`Successfully fetched cache from R2: ${hash}`, { target });
+      if (decompressStream.stats.compression !== "none") {
+        logger.verbose(`Fetched ${hash} from R2: ${formatCompressionStats(decompressStream.stats)}`, { target });
+      }
       return true;
 
     } catch (error: any) {
@@ -161,7 +187,7 @@ export class CloudflareR2CacheProvider implements CacheProvider {
     }
   }
 
-  async put(hash: string, target: Target): Promise<void> {
+  async put(hash: string, target: Target, stats?: CacheTransferStats): Promise<void> {
     const { logger, bucket, maxSize } = this.options;
     
     if (!hash) {
@@ -196,17 +222,27 @@ export class CloudflareR2CacheProvider implements CacheProvider {
           : outputGlob 
       });
 
+      const artifact = compressArtifact(tarStream, this.options.compression);
+
       // Upload to R2
       const putCommand = new PutObjectCommand({
         Bucket: bucket,
         Key: hash,
-        Body: tarStream,
-        ContentType: 'application/x-tar',
+        Body: artifact.stream,
+        ContentType: artifact.stats.compression === "none" ? 'application/x-tar' : 'application/octet-stream',
       });
 
       await this.s3Client.send(putCommand);
+
+      // an uncompressed artifact is the tar stream itself, which the SDK reads without telling how much it read
+      if (stats && artifact.stats.compression !== "none") {
+        stats.bytes = artifact.stats.compressedBytes;
+      }
       
       logger.silly(`Successfully uploaded cache to R2: ${hash}`, { target });
+      if (artifact.stats.compression !== "none") {
+        logger.verbose(`Uploaded ${hash} to R2: ${formatCompressionStats(artifact.stats)}`, { target });
+      }
 
     } catch (error: any) {
       let message = error.message || String(error);
@@ -215,6 +251,31 @@ export class CloudflareR2CacheProvider implements CacheProvider {
     }
   }
 
+  async exists(hash: string): Promise<boolean | undefined> {
+    const { logger, bucket } = this.options;
+
+    if (!hash) {
+      return false;
+    }
+
+    try {
+      await this.s3Client.send(new HeadObjectCommand({ Bucket: bucket, Key: hash }));
+      return true;
+    } catch (error: any) {
+      if (error.name === "NotFound" || error.name === "NoSuchKey" || error.$metadata?.httpStatusCode === 404) {
+        return false;
+      }
+
+      logger.silly(`R2 cache exists check failed: ${error.message || String(error)}`);
+      return undefined;
+    }
+  }
+
+  async existsMany(hashes: string[]): Promise<Map<string, boolean | undefined>> {
+    // S3 has no batched HEAD, so the lookups are made concurrently instead
+    return existsMany((hash) => this.exists(hash), hashes);
+  }
+
   async clear(): Promise<void> {
     // R2 doesn't have a built-in "clear all" operation
     // This would require listing and deleting objects, which is expensive
@@ -1,8 +1,9 @@
 import { CloudflareR2CacheProvider } from "./CloudflareR2CacheProvider.js";
-import type { CloudflareR2CacheStorageConfig } from "@lage-run/config";
+import type { CacheCompression, CloudflareR2CacheStorageConfig } from "@lage-run/config";
 import type { Logger } from "@lage-run/logger";
 import type { Target } from "@lage-run/target-graph";
 import type { Logger as BackfillLogger } from "backfill-logger";
+import type { CacheTransferStats } from "../types/CacheProvider.js";
 
 /**
  * Wrapper that adapts the CloudflareR2CacheProvider to the backfill cache storage interface
@@ -11,14 +12,19 @@ export class CloudflareR2CacheStorageWrapper {
   private r2Provider: CloudflareR2CacheProvider;
   private target: Target;
 
+  /** the bytes of the last fetch or put, which the storages of backfill do not report */
+  readonly stats: CacheTransferStats = {};
+
   constructor(
     config: CloudflareR2CacheStorageConfig,
     cwd: string,
     logger: Logger,
-    backfillLogger: BackfillLogger
+    backfillLogger: BackfillLogger,
+    compression?: CacheCompression
   ) {
     this.r2Provider = new CloudflareR2CacheProvider({
       ...config.options,
+      compression,
       root: cwd,
       logger,
     });
@@ -37,7 +43,11 @@ export class CloudflareR2CacheStorageWrapper {
   }
 
   async fetch(hash: string): Promise<boolean> {
-    return this.r2Provider.fetch(hash, this.target);
+    return this.r2Provider.fetch(hash, this.target, this.stats);
+  }
+
+  async exists(hash: string): Promise<boolean | undefined> {
+    return this.r2Provider.exists(hash);
   }
 
   async put(hash: string, outputGlob: string[]): Promise<void> {
@@ -45,6 +55,6 @@ export class CloudflareR2CacheStorageWrapper {
       ...this.target,
       outputs: outputGlob,
     };
-    return this.r2Provider.put(hash, targetWithOutputs);
+    return this.r2Provider.put(hash, targetWithOutputs, this.stats);
   }
 }
\ No newline at end of file
@@ -0,0 +1,247 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as os from "os";
+import * as path from "path";
+import { pipeline } from "stream/promises";
+import * as tar from "tar-fs";
+import { glob } from "glob-hasher";
+import type { IncomingMessage } from "http";
+import type { Readable } from "stream";
+import type { CacheProvider, CacheTransferStats } from "../types/CacheProvider.js";
+import { existsMany } from "../existsMany.js";
+import { ArtifactDecompressStream, compressArtifact, countBytes, formatCompressionStats } from "../compression.js";
+import type { CacheCompression } from "@lage-run/config";
+import type { Logger } from "@lage-run/logger";
+import type { Target } from "@lage-run/target-graph";
+
+const DEFAULT_TIMEOUT = 10 * 60 * 1000;
+
+export interface HttpCacheProviderOptions {
+  /**
+   * Base URL of the cache server - artifacts live at `<url>/<hash>`
+   */
+  url: string;
+
+  /**
+   * Bearer token sent in the `Authorization` header
+   */
+  token?: string;
+
+  /**
+   * Maximum artifact size to download (in bytes)
+   */
+  maxSize?: number;
+
+  /**
+   * Request timeout (in milliseconds)
+   */
+  timeout?: number;
+
+  /**
+   * Compression of the uploaded artifacts, defaults to `"none"` - downloaded artifacts are read whatever their compression
+   */
+  compression?: CacheCompression;
+
+  /**
+   * Root directory for cache operations
+   */
+  root: string;
+
+  /**
+   * Logger instance
+   */
+  logger: Logger;
+}
+
+/**
+ * HTTP Cache Provider
+ *
+ * Provides remote caching against any server that implements a minimal protocol (e.g. `lage cache serve`):
+ * - `GET /<hash>` returns the tar archive of the target outputs (compressed or not, see `compressArtifact`), or 404
+ * - `HEAD /<hash>` returns 200 if the artifact exists, or 404
+ * - `PUT /<hash>` stores the tar archive sent as the request body
+ */
+export class HttpCacheProvider implements CacheProvider {
+  constructor(private options: HttpCacheProviderOptions) {}
+
+  async fetch(hash: string, target: Target, stats?: CacheTransferStats): Promise<boolean> {
+    const { logger, maxSize } = this.options;
+
+    if (!hash) {
+      return false;
+    }
+
+    try {
+      const response = await this.request("GET", hash);
+
+      if (response.statusCode === 404) {
+        response.resume();
+        logger.silly(`Cache miss in HTTP cache: ${hash}`, { target });
+        return false;
+      }
+
+      if (response.statusCode !== 200) {
+        response.resume();
+        throw new Error(`GET ${hash} responded with status ${response.statusCode}`);
+      }
+
+      const contentLength = Number(response.headers["content-length"]);
+      if (maxSize && contentLength > maxSize) {
+        response.destroy();
+        logger.silly(`HTTP cache artifact too large to download: ${hash}, size: ${contentLength} bytes`, { target });
+        return false;
+      }
+
+      // the artifact is extracted aside and only copied into the package once complete, so that a dropped connection or a corrupt
+      // artifact does not leave part of the outputs behind
+      const decompressStream = new ArtifactDecompressStream();
+      const tempDirectory = await fs.promises.mkdtemp(path.join(os.tmpdir(), "lage-http-cache-"));
+
+      try {
+        const extractStream = tar.extract(tempDirectory);
+        // a truncated archive fails the entry being extracted before tar-fs listens to its errors - the error fails the pipeline anyway
+        extractStream.on("entry", (_header, entryStream) => entryStream.on("error", () => {}));
+        await pipeline(response, decompressStream, extractStream);
+        await fs.promises.cp(tempDirectory, target.cwd, { recursive: true });
+      } finally {
+        await fs.promises.rm(tempDirectory, { recursive: true, force: true });
+      }
+
+      if (stats) {
+        stats.bytes = decompressStream.stats.compressedBytes;
+      }
+
+      logger.silly(`Successfully fetched cache from HTTP cache: ${hash}`, { target });
+      if (decompressStream.stats.compression !== "none") {
+        logger.verbose(`Fetched ${hash} from HTTP cache: ${formatCompressionStats(decompressStream.stats)}`, { target });
+      }
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.silly(`HTTP cache fetch failed: ${message}`, { target });
+      return false;
+    }
+  }
+
+  async put(hash: string, target: Target, stats?: CacheTransferStats): Promise<void> {
+    const { logger } = this.options;
+
+    if (!hash) {
+      return;
+    }
+
+    try {
+      const files = (glob(target.outputs ?? ["**/*"], { cwd: target.cwd, gitignore: false }) ?? []).map((file) =>
+        path.relative(target.cwd, file)
+      );
+
+      if (files.length === 0) {
+        logger.silly(`No outputs to upload to HTTP cache: ${hash}`, { target });
+        return;
+      }
+
+      // Artifacts are immutable, so skip the upload if another machine already stored it
+      const head = await this.request("HEAD", hash);
+      head.resume();
+
+      if (head.statusCode === 200) {
+        logger.silly(`HTTP cache already has ${hash}, skipping upload`, { target });
+        return;
+      }
+
+      const artifact = compressArtifact(tar.pack(target.cwd, { entries: files }), this.options.compression);
+
+      let uploadedBytes = 0;
+      const body = countBytes((length) => (uploadedBytes += length));
+      artifact.stream.on("error", (error) => body.destroy(error));
+
+      const response = await this.request("PUT", hash, artifact.stream.pipe(body));
+      response.resume();
+
+      if (response.statusCode !== 200 && response.statusCode !== 201) {
+        throw new Error(`PUT ${hash} responded with status ${response.statusCode}`);
+      }
+
+      if (stats) {
+        stats.bytes = uploadedBytes;
+      }
+
+      logger.silly(`Successfully uploaded cache to HTTP cache: ${hash}`, { target });
+      if (artifact.stats.compression !== "none") {
+        logger.verbose(`Uploaded ${hash} to HTTP cache: ${formatCompressionStats(artifact.stats)}`, { target });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.silly(`HTTP cache put failed: ${message}`, { target });
+      // Don't throw - caching failures shouldn't break the build
+    }
+  }
+
+  async exists(hash: string): Promise<boolean | undefined> {
+    if (!hash) {
+      return false;
+    }
+
+    try {
+      const response = await this.request("HEAD", hash);
+      response.resume();
+
+      if (response.statusCode === 200 || response.statusCode === 404) {
+        return response.statusCode === 200;
+      }
+
+      throw new Error(`HEAD ${hash} responded with status ${response.statusCode}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.options.logger.silly(`HTTP cache exists check failed: ${message}`);
+      return undefined;
+    }
+  }
+
+  async existsMany(hashes: string[]): Promise<Map<string, boolean | undefined>> {
+    return existsMany((hash) => this.exists(hash), hashes);
+  }
+
+  async clear(): Promise<void> {
+    // The protocol has no way to delete artifacts, the server owns its storage
+    this.options.logger.silly("HTTP cache clear requested - no action taken (clear the storage of the cache server instead)");
+  }
+
+  async purge(sinceDays: number): Promise<void> {
+    this.options.logger.silly(
+      `HTTP cache purge requested for ${sinceDays} days - no action taken (prune the storage of the cache server instead)`
+    );
+  }
+
+  private request(method: "GET" | "HEAD" | "PUT", hash: string, body?: Readable): Promise<IncomingMessage> {
+    const { token, timeout = DEFAULT_TIMEOUT } = this.options;
+    const url = new URL(encodeURIComponent(hash), this.options.url.endsWith("/") ? this.options.url : `${this.options.url}/`);
+    const client = url.protocol === "https:" ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const request = client.request(
+        url,
+        {
+          method,
+          timeout,
+          headers: {
+            ...(token && { Authorization: `Bearer ${token}` }),
+            ...(body && { "Content-Type": "application/x-tar" }),
+          },
+        },
+        resolve
+      );
+
+      request.on("timeout", () => request.destroy(new Error(`${method} ${hash} timed out after ${timeout}ms`)));
+      request.on("error", reject);
+
+      if (body) {
+        body.on("error", (error) => request.destroy(error));
+        body.pipe(request);
+      } else {
+        request.end();
+      }
+    });
+  }
+}
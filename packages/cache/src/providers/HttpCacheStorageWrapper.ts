@@ -0,0 +1,49 @@
+import { HttpCacheProvider } from "./HttpCacheProvider.js";
+import type { CacheCompression, HttpCacheStorageConfig } from "@lage-run/config";
+import type { Logger } from "@lage-run/logger";
+import type { Target } from "@lage-run/target-graph";
+import type { CacheTransferStats } from "../types/CacheProvider.js";
+
+/**
+ * Wrapper that adapts the HttpCacheProvider to the backfill cache storage interface
+ */
+export class HttpCacheStorageWrapper {
+  private httpProvider: HttpCacheProvider;
+  private target: Target;
+
+  /** the bytes of the last fetch or put, which the storages of backfill do not report */
+  readonly stats: CacheTransferStats = {};
+
+  constructor(config: HttpCacheStorageConfig, cwd: string, logger: Logger, compression?: CacheCompression) {
+    this.httpProvider = new HttpCacheProvider({
+      ...config.options,
+      compression,
+      root: cwd,
+      logger,
+    });
+
+    // Create a minimal target for the HTTP provider
+    this.target = {
+      id: "backfill-target",
+      cwd,
+      depSpecs: [],
+      dependents: [],
+      dependencies: [],
+      task: "cache",
+      label: "cache",
+      outputs: ["**/*"],
+    };
+  }
+
+  async fetch(hash: string): Promise<boolean> {
+    return this.httpProvider.fetch(hash, this.target, this.stats);
+  }
+
+  async exists(hash: string): Promise<boolean | undefined> {
+    return this.httpProvider.exists(hash);
+  }
+
+  async put(hash: string, outputGlob: string[]): Promise<void> {
+    return this.httpProvider.put(hash, { ...this.target, outputs: outputGlob }, this.stats);
+  }
+}
@@ -1,5 +1,6 @@
 import { LRUCache } from "lru-cache";
-import type { CacheProvider } from "../types/CacheProvider.js";
+import { getCacheEntrySize } from "../getCacheEntrySize.js";
+import type { CacheProvider, CacheTier, CacheTransferStats } from "../types/CacheProvider.js";
 import type { Logger } from "@lage-run/logger";
 import type { Target } from "@lage-run/target-graph";
 
@@ -31,7 +32,7 @@ export class RemoteFallbackCacheProvider implements CacheProvider {
 
   constructor(private options: RemoteFallbackCacheProviderOptions) {}
 
-  async fetch(hash: string, target: Target) {
+  async fetch(hash: string, target: Target, stats?: CacheTransferStats) {
     const { logger, remoteCacheProvider, localCacheProvider } = this.options;
 
     if (localCacheProvider) {
@@ -42,7 +43,8 @@ export class RemoteFallbackCacheProvider implements CacheProvider {
 
     const localHit = RemoteFallbackCacheProvider.localHits.get(hash);
     if (!localHit && remoteCacheProvider) {
-      const remoteHit = await remoteCacheProvider.fetch(hash, target);
+      const remoteStats: CacheTransferStats = {};
+      const remoteHit = await remoteCacheProvider.fetch(hash, target, remoteStats);
       RemoteFallbackCacheProvider.remoteHits.set(hash, remoteHit);
       logger.silly(`remote fallback fetch: ${hash} ${remoteHit}`);
 
@@ -52,13 +54,21 @@ export class RemoteFallbackCacheProvider implements CacheProvider {
         await localCacheProvider.put(hash, target);
       }
 
+      if (remoteHit) {
+        await this.fillStats(stats, hash, "remote", remoteStats.bytes);
+      }
+
       return remoteHit;
     }
 
+    if (localHit) {
+      await this.fillStats(stats, hash, "local");
+    }
+
     return localHit || false;
   }
 
-  async put(hash: string, target: Target) {
+  async put(hash: string, target: Target, stats?: CacheTransferStats) {
     const { logger, remoteCacheProvider, localCacheProvider, writeRemoteCache } = this.options;
     const putPromises: Promise<void>[] = [];
 
@@ -72,14 +82,86 @@ export class RemoteFallbackCacheProvider implements CacheProvider {
 
     // Write to remote if there is a no hit in the remote cache, and remote cache storage provider, and that the "writeRemoteCache" config flag is set to true
     const shouldWriteRemoteCache = !this.isRemoteHit(hash) && !!remoteCacheProvider && writeRemoteCache;
+    const remoteStats: CacheTransferStats = {};
 
     if (shouldWriteRemoteCache) {
       logger.silly(`remote fallback put: ${hash}`);
-      const remotePut = remoteCacheProvider.put(hash, target);
+      const remotePut = remoteCacheProvider.put(hash, target, remoteStats);
       putPromises.push(remotePut);
     }
 
     await Promise.all(putPromises);
+
+    if (shouldWriteLocalCache || shouldWriteRemoteCache) {
+      await this.fillStats(stats, hash, shouldWriteRemoteCache ? "remote" : "local", remoteStats.bytes);
+    }
+  }
+
+  /**
+   * Downloads an entry of the remote cache into the local cache, unless the local cache already has it
+   */
+  async prefetch(hash: string, target: Target): Promise<boolean> {
+    const { logger, remoteCacheProvider, localCacheProvider } = this.options;
+
+    if (!localCacheProvider || !remoteCacheProvider?.prefetch) {
+      return false;
+    }
+
+    if (await localCacheProvider.exists?.(hash)) {
+      return true;
+    }
+
+    const remoteHit = await remoteCacheProvider.prefetch(hash, target);
+    RemoteFallbackCacheProvider.remoteHits.set(hash, remoteHit);
+    logger.silly(`remote cache prefetch: ${hash} ${remoteHit}`);
+
+    return remoteHit;
+  }
+
+  /**
+   * The bytes are the ones the remote cache reports it transferred. Local hits, and remote storages that do not report them (the
+   * storages of backfill), fall back to the size of the entry in the local cache.
+   */
+  private async fillStats(stats: CacheTransferStats | undefined, hash: string, tier: CacheTier, transferredBytes?: number) {
+    if (stats) {
+      stats.tier = tier;
+      stats.bytes = transferredBytes ?? (await getCacheEntrySize(this.options.root, hash));
+    }
+  }
+
+  async exists(hash: string): Promise<boolean | undefined> {
+    return (await this.existsMany([hash])).get(hash);
+  }
+
+  /**
+   * Checks the local cache first, and only looks up the hashes that are not local in the remote cache. A hash is reported as
+   * `undefined` only if none of the caches have it and one of them could not tell.
+   */
+  async existsMany(hashes: string[]): Promise<Map<string, boolean | undefined>> {
+    const { localCacheProvider, remoteCacheProvider } = this.options;
+
+    const results = new Map<string, boolean | undefined>(hashes.map((hash) => [hash, false]));
+
+    for (const provider of [localCacheProvider, remoteCacheProvider]) {
+      const pending = hashes.filter((hash) => results.get(hash) !== true);
+
+      if (!provider || pending.length === 0) {
+        continue;
+      }
+
+      const found = provider.existsMany
+        ? await provider.existsMany(pending)
+        : new Map(await Promise.all(pending.map(async (hash) => [hash, await provider.exists?.(hash)] as const)));
+
+      for (const hash of pending) {
+        const exists = found.get(hash);
+        if (exists !== false) {
+          results.set(hash, exists);
+        }
+      }
+    }
+
+    return results;
   }
 
   private isRemoteHit(hash: string): boolean {
@@ -1,9 +1,39 @@
 import type { Target } from "@lage-run/target-graph";
 
+export type CacheTier = "local" | "remote";
+
+/**
+ * Details of a cache fetch or put, filled in by the cache provider when the caller passes it in
+ */
+export interface CacheTransferStats {
+  /** the tier that served the hit (fetch), or the farthest tier that was written to (put) */
+  tier?: CacheTier;
+  /** bytes that went over the wire for the remote cache (compressed, if it is), or the size of the entry for the local cache */
+  bytes?: number;
+}
+
 export interface CacheProvider {
-  fetch(hash: string, target: Target): Promise<boolean>;
-  put(hash: string, target: Target): Promise<void>;
+  fetch(hash: string, target: Target, stats?: CacheTransferStats): Promise<boolean>;
+  put(hash: string, target: Target, stats?: CacheTransferStats): Promise<void>;
   clear(): Promise<void>;
   purge(sinceDays: number): Promise<void>;
+
+  /**
+   * Checks whether the cache has an entry for the hash without restoring it. Resolves to `undefined` when the storage has no
+   * way of telling short of downloading the entry.
+   */
+  exists?(hash: string): Promise<boolean | undefined>;
+
+  /**
+   * Batched version of `exists()`, for checking the cache status of a whole target graph at once
+   */
+  existsMany?(hashes: string[]): Promise<Map<string, boolean | undefined>>;
+
+  /**
+   * Downloads the entry of a hash into the local cache without restoring it into the package, so that a later `fetch()` is a local
+   * hit. Resolves to whether the local cache has the entry afterwards.
+   */
+  prefetch?(hash: string, target: Target): Promise<boolean>;
+
   isReadOnly?: boolean;
 }
@@ -3,9 +3,12 @@ import { Target } from "@lage-run/target-graph";
 import { BackfillCacheProvider, BackfillCacheProviderOptions } from "../src/providers/BackfillCacheProvider";
 import { Monorepo } from "@lage-run/monorepo-fixture";
 import { _testResetEnvHash } from "../src/salt";
+import fs from "fs";
 import path from "path";
 import createLogger from "@lage-run/logger";
 import { getCacheDirectory, getLogsCacheDirectory } from "../src/getCacheDirectory";
+import { createHttpCacheServer } from "../src/HttpCacheServer";
+import type { AddressInfo } from "net";
 
 describe("BackfillCacheProvider", () => {
   it("should fetch a cache of the outputs as specified in the outputs folder in target", async () => {
@@ -103,4 +106,165 @@ describe("BackfillCacheProvider", () => {
 
     await monorepo.cleanup();
   });
+
+  it("should check whether the local cache has an entry without restoring it", async () => {
+    const logger = createLogger();
+    const monorepo = new Monorepo("exists-cache");
+
+    await monorepo.init();
+    await monorepo.addPackage("a");
+
+    const provider = new BackfillCacheProvider({
+      logger,
+      root: monorepo.root,
+      cacheOptions: {
+        outputGlob: ["output.txt"],
+      },
+    });
+
+    const hash = "some-hash";
+
+    await monorepo.writeFiles({
+      [path.join(getCacheDirectory(monorepo.root, hash), hash, "output.txt")]: "output",
+    });
+
+    expect(await provider.exists(hash)).toBe(true);
+    expect(await provider.exists("other-hash")).toBe(false);
+    expect(await provider.existsMany([hash, "other-hash"])).toEqual(
+      new Map([
+        [hash, true],
+        ["other-hash", false],
+      ])
+    );
+
+    expect(fs.existsSync(path.join(monorepo.root, "packages/a/output.txt"))).toBeFalsy();
+
+    await monorepo.cleanup();
+  });
+
+  it("should evict the least recently used entries until the local cache fits in the maximum size", async () => {
+    const logger = createLogger();
+    const monorepo = new Monorepo("evict-cache");
+
+    await monorepo.init();
+    await monorepo.addPackage("a");
+
+    const provider = new BackfillCacheProvider({
+      logger,
+      root: monorepo.root,
+      cacheOptions: {
+        outputGlob: ["output.txt"],
+      },
+    });
+
+    const hashes = ["hash-1", "hash-2", "hash-3"];
+    const entryPath = (hash: string) => path.join(getCacheDirectory(monorepo.root, hash), hash);
+
+    for (const [index, hash] of hashes.entries()) {
+      await monorepo.writeFiles({
+        [path.join(entryPath(hash), "output.txt")]: "0123456789",
+        [path.join(getLogsCacheDirectory(monorepo.root, hash), `${hash}.log`)]: "log",
+      });
+
+      // hash-1 was put in the cache first, hash-3 last
+      const time = new Date(Date.now() - (hashes.length - index) * 60 * 1000);
+      fs.utimesSync(entryPath(hash), time, time);
+    }
+
+    const target: Target = {
+      id: "a",
+      cwd: path.join(monorepo.root, "packages/a"),
+      depSpecs: [],
+      dependents: [],
+      dependencies: [],
+      task: "command",
+      label: "a - command",
+    };
+
+    // a hit makes hash-1 the most recently used entry
+    expect(await provider.fetch("hash-1", target)).toBeTruthy();
+
+    expect(await provider.evict(15)).toEqual({ evictedEntries: 2, evictedSize: 20, remainingSize: 10 });
+
+    expect(fs.existsSync(entryPath("hash-1"))).toBeTruthy();
+    expect(fs.existsSync(entryPath("hash-2"))).toBeFalsy();
+    expect(fs.existsSync(entryPath("hash-3"))).toBeFalsy();
+    expect(fs.existsSync(path.join(getLogsCacheDirectory(monorepo.root, "hash-2"), "hash-2.log"))).toBeFalsy();
+
+    expect(await provider.evict(15)).toEqual({ evictedEntries: 0, evictedSize: 0, remainingSize: 10 });
+
+    await monorepo.cleanup();
+  });
+
+  it("should not evict any entry when the maximum size is not a positive number", async () => {
+    const logger = createLogger();
+    const monorepo = new Monorepo("evict-cache-invalid-size");
+
+    await monorepo.init();
+
+    const provider = new BackfillCacheProvider({
+      logger,
+      root: monorepo.root,
+      cacheOptions: {
+        outputGlob: ["output.txt"],
+      },
+    });
+
+    const entryPath = path.join(getCacheDirectory(monorepo.root, "some-hash"), "some-hash");
+    await monorepo.writeFiles({ [path.join(entryPath, "output.txt")]: "0123456789" });
+
+    for (const maxSize of [NaN, 0, -1]) {
+      await expect(provider.evict(maxSize)).rejects.toThrow("Invalid maximum size of the local cache");
+    }
+
+    expect(fs.existsSync(entryPath)).toBeTruthy();
+
+    await monorepo.cleanup();
+  });
+
+  it("should prefetch entries of the cache storage into the local cache without restoring them", async () => {
+    const logger = createLogger();
+    const monorepo = new Monorepo("prefetch-cache");
+
+    await monorepo.init();
+    await monorepo.addPackage("a");
+
+    const server = createHttpCacheServer({ cacheDir: path.join(monorepo.root, "server"), logger });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    const provider = new BackfillCacheProvider({
+      logger,
+      root: monorepo.root,
+      cacheOptions: {
+        cacheStorageConfig: { provider: "http", options: { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` } },
+      },
+    });
+
+    const target: Target = {
+      id: "a#build",
+      cwd: path.join(monorepo.root, "packages/a"),
+      depSpecs: [],
+      dependents: [],
+      dependencies: [],
+      packageName: "a",
+      task: "build",
+      label: "a - build",
+      outputs: ["output.txt"],
+    };
+
+    await monorepo.writeFiles({ "packages/a/output.txt": "output" });
+    await provider.put("some-hash", target);
+    fs.rmSync(path.join(target.cwd, "output.txt"));
+
+    expect(await provider.prefetch("some-hash", target)).toBe(true);
+    expect(await provider.prefetch("other-hash", target)).toBe(false);
+
+    const cacheDir = getCacheDirectory(monorepo.root, "some-hash");
+    expect(fs.readFileSync(path.join(cacheDir, "some-hash", "output.txt"), "utf-8")).toBe("output");
+    expect(fs.readdirSync(cacheDir).sort()).toEqual(["some-hash", "some-hash.json"]);
+    expect(fs.existsSync(path.join(target.cwd, "output.txt"))).toBeFalsy();
+
+    await new Promise((resolve) => server.close(resolve));
+    await monorepo.cleanup();
+  });
 });
@@ -0,0 +1,152 @@
+import { CloudflareR2CacheProvider } from "../src/providers/CloudflareR2CacheProvider";
+import { Logger } from "@lage-run/logger";
+import path from "path";
+import * as fs from "fs";
+import * as os from "os";
+import type { Target } from "@lage-run/target-graph";
+import type { CacheTransferStats } from "../src/types/CacheProvider";
+
+// An in-memory bucket, so that artifacts go through the real tar & compression streams
+jest.mock("@aws-sdk/client-s3", () => {
+  const { Readable } = jest.requireActual("stream");
+  const objects = new Map<string, Buffer>();
+
+  class Command {
+    constructor(public input: { Bucket: string; Key: string; Body?: NodeJS.ReadableStream }) {}
+  }
+
+  class GetObjectCommand extends Command {}
+  class PutObjectCommand extends Command {}
+  class HeadObjectCommand extends Command {}
+
+  class S3Client {
+    async send(command: Command) {
+      const { Key, Body } = command.input;
+
+      if (command instanceof PutObjectCommand) {
+        const chunks: Buffer[] = [];
+        for await (const chunk of Body!) {
+          chunks.push(chunk as Buffer);
+        }
+        objects.set(Key, Buffer.concat(chunks));
+        return {};
+      }
+
+      const object = objects.get(Key);
+
+      if (!object) {
+        throw Object.assign(new Error("Not found"), { name: "NoSuchKey", $metadata: { httpStatusCode: 404 } });
+      }
+
+      return command instanceof HeadObjectCommand ? { ContentLength: object.length } : { Body: Readable.from([object]) };
+    }
+  }
+
+  return { S3Client, GetObjectCommand, PutObjectCommand, HeadObjectCommand, __objects: objects };
+});
+
+const mockS3 = require("@aws-sdk/client-s3");
+
+describe("CloudflareR2CacheProvider round trip", () => {
+  let tempDir: string;
+
+  function createProvider(compression?: "none" | "gzip" | "brotli") {
+    return new CloudflareR2CacheProvider({
+      accountId: "test-account-id",
+      bucket: "test-bucket",
+      apiToken: "test-api-token",
+      root: tempDir,
+      logger: new Logger(),
+      compression,
+    });
+  }
+
+  function createTarget(cwd: string): Target {
+    return {
+      id: "test-package",
+      cwd,
+      depSpecs: [],
+      dependents: [],
+      dependencies: [],
+      task: "build",
+      label: "test-package - build",
+      outputs: ["**/*"],
+    };
+  }
+
+  beforeEach(() => {
+    mockS3.__objects.clear();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "lage-r2-roundtrip-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it.each(["none", "gzip", "brotli"] as const)(
+    "should put the outputs of a target and fetch them back with %s compression",
+    async (compression) => {
+      const producer = path.join(tempDir, "producer");
+      fs.mkdirSync(path.join(producer, "lib"), { recursive: true });
+      fs.writeFileSync(path.join(producer, "lib/index.js"), "console.log('output');\n".repeat(200));
+
+      await createProvider(compression).put("some-hash", createTarget(producer));
+
+      const consumer = path.join(tempDir, "consumer");
+      fs.mkdirSync(consumer);
+
+      // artifacts are read back whatever the compression of the provider that reads them
+      expect(await createProvider().fetch("some-hash", createTarget(consumer))).toBe(true);
+      expect(fs.readFileSync(path.join(consumer, "lib/index.js"), "utf-8")).toBe("console.log('output');\n".repeat(200));
+    }
+  );
+
+  it("should store smaller artifacts when compressing them", async () => {
+    const producer = path.join(tempDir, "producer");
+    fs.mkdirSync(path.join(producer, "lib"), { recursive: true });
+    fs.writeFileSync(path.join(producer, "lib/index.js"), "console.log('output');\n".repeat(200));
+
+    await createProvider("none").put("uncompressed-hash", createTarget(producer));
+    await createProvider("gzip").put("compressed-hash", createTarget(producer));
+
+    expect(mockS3.__objects.get("compressed-hash").length).toBeLessThan(mockS3.__objects.get("uncompressed-hash").length);
+  });
+
+  it("should report the bytes transferred for compressed artifacts", async () => {
+    const producer = path.join(tempDir, "producer");
+    fs.mkdirSync(path.join(producer, "lib"), { recursive: true });
+    fs.writeFileSync(path.join(producer, "lib/index.js"), "console.log('output');\n".repeat(200));
+
+    const putStats: CacheTransferStats = {};
+    await createProvider("gzip").put("some-hash", createTarget(producer), putStats);
+
+    const consumer = path.join(tempDir, "consumer");
+    fs.mkdirSync(consumer);
+
+    const fetchStats: CacheTransferStats = {};
+    expect(await createProvider().fetch("some-hash", createTarget(consumer), fetchStats)).toBe(true);
+
+    const artifactSize = mockS3.__objects.get("some-hash").length;
+    expect(putStats.bytes).toBe(artifactSize);
+    expect(fetchStats.bytes).toBe(artifactSize);
+  });
+
+  it("should report the bytes fetched, but not the bytes put, for uncompressed artifacts", async () => {
+    const producer = path.join(tempDir, "producer");
+    fs.mkdirSync(path.join(producer, "lib"), { recursive: true });
+    fs.writeFileSync(path.join(producer, "lib/index.js"), "output");
+
+    // the SDK reads the tar stream itself, without telling how much it read
+    const putStats: CacheTransferStats = {};
+    await createProvider("none").put("some-hash", createTarget(producer), putStats);
+
+    const consumer = path.join(tempDir, "consumer");
+    fs.mkdirSync(consumer);
+
+    const fetchStats: CacheTransferStats = {};
+    expect(await createProvider().fetch("some-hash", createTarget(consumer), fetchStats)).toBe(true);
+
+    expect(putStats.bytes).toBeUndefined();
+    expect(fetchStats.bytes).toBe(mockS3.__objects.get("some-hash").length);
+  });
+});
@@ -212,6 +212,47 @@ describe("CloudflareR2CacheProvider", () => {
     });
   });
 
+  describe("exists", () => {
+    const testHash = "abc123hash";
+
+    it("should check the object with a HEAD request without downloading it", async () => {
+      mockS3.__mockSend.mockResolvedValueOnce({ ContentLength: 1024 });
+
+      expect(await provider.exists(testHash)).toBe(true);
+      expect(mockS3.HeadObjectCommand).toHaveBeenCalledWith({ Bucket: "test-bucket", Key: testHash });
+      expect(mockS3.GetObjectCommand).not.toHaveBeenCalled();
+    });
+
+    it("should return false for 404 errors", async () => {
+      const error = new Error("Not found");
+      error.name = "NotFound";
+      mockS3.__mockSend.mockRejectedValueOnce(error);
+
+      expect(await provider.exists(testHash)).toBe(false);
+    });
+
+    it("should return undefined for other S3 errors", async () => {
+      mockS3.__mockSend.mockRejectedValueOnce(new Error("Access denied"));
+
+      expect(await provider.exists(testHash)).toBeUndefined();
+    });
+
+    it("should check many hashes at once", async () => {
+      const error = new Error("Not found");
+      error.name = "NotFound";
+      mockS3.__mockSend.mockResolvedValueOnce({}).mockRejectedValueOnce(error);
+
+      const results = await provider.existsMany(["hash1", "hash2"]);
+
+      expect(results).toEqual(
+        new Map([
+          ["hash1", true],
+          ["hash2", false],
+        ])
+      );
+    });
+  });
+
   describe("put", () => {
     const testHash = "abc123hash";
 
@@ -0,0 +1,190 @@
+import { Target } from "@lage-run/target-graph";
+import createLogger from "@lage-run/logger";
+import { HttpCacheProvider } from "../src/providers/HttpCacheProvider";
+import { createHttpCacheServer } from "../src/HttpCacheServer";
+import type { CacheTransferStats } from "../src/types/CacheProvider";
+
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+function createTarget(cwd: string): Target {
+  return {
+    id: "a",
+    cwd,
+    depSpecs: [],
+    dependents: [],
+    dependencies: [],
+    task: "build",
+    label: "a - build",
+    outputs: ["lib/**"],
+  };
+}
+
+describe("HttpCacheProvider", () => {
+  let tmpDir: string;
+  let server: Server;
+  let url: string;
+
+  const logger = createLogger();
+
+  async function startServer(token?: string) {
+    server = createHttpCacheServer({ cacheDir: path.join(tmpDir, "server"), token, logger });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "http-cache"));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should put the outputs of a target and fetch them back", async () => {
+    await startServer("secret");
+
+    const provider = new HttpCacheProvider({ url, token: "secret", root: tmpDir, logger });
+
+    const producer = path.join(tmpDir, "producer");
+    fs.mkdirSync(path.join(producer, "lib"), { recursive: true });
+    fs.writeFileSync(path.join(producer, "lib/index.js"), "output");
+    fs.writeFileSync(path.join(producer, "src.ts"), "not an output");
+
+    await provider.put("some-hash", createTarget(producer));
+
+    const consumer = path.join(tmpDir, "consumer");
+    fs.mkdirSync(consumer);
+
+    expect(await provider.fetch("some-hash", createTarget(consumer))).toBeTruthy();
+    expect(fs.readFileSync(path.join(consumer, "lib/index.js"), "utf-8")).toBe("output");
+    expect(fs.existsSync(path.join(consumer, "src.ts"))).toBeFalsy();
+  });
+
+  it("should not restore any output from a truncated artifact", async () => {
+    await startServer();
+
+    const provider = new HttpCacheProvider({ url, root: tmpDir, logger });
+
+    const producer = path.join(tmpDir, "producer");
+    fs.mkdirSync(path.join(producer, "lib"), { recursive: true });
+    fs.writeFileSync(path.join(producer, "lib/a.js"), "output");
+    fs.writeFileSync(path.join(producer, "lib/b.js"), "output".repeat(2000));
+
+    await provider.put("some-hash", createTarget(producer));
+
+    // keeps the first file of the archive and part of the second one
+    const artifactPath = path.join(tmpDir, "server", "some", "some-hash");
+    fs.truncateSync(artifactPath, 3000);
+
+    const consumer = path.join(tmpDir, "consumer");
+    fs.mkdirSync(consumer);
+
+    expect(await provider.fetch("some-hash", createTarget(consumer))).toBeFalsy();
+    expect(fs.readdirSync(consumer)).toEqual([]);
+  });
+
+  it("should report a cache miss for an unknown hash", async () => {
+    await startServer();
+
+    const provider = new HttpCacheProvider({ url, root: tmpDir, logger });
+
+    expect(await provider.fetch("unknown-hash", createTarget(tmpDir))).toBeFalsy();
+  });
+
+  it("should not store or serve artifacts without a valid token", async () => {
+    await startServer("secret");
+
+    const provider = new HttpCacheProvider({ url, token: "wrong", root: tmpDir, logger });
+
+    const producer = path.join(tmpDir, "producer");
+    fs.mkdirSync(path.join(producer, "lib"), { recursive: true });
+    fs.writeFileSync(path.join(producer, "lib/index.js"), "output");
+
+    await provider.put("some-hash", createTarget(producer));
+
+    expect(fs.existsSync(path.join(tmpDir, "server"))).toBeFalsy();
+    expect(await provider.fetch("some-hash", createTarget(producer))).toBeFalsy();
+  });
+
+  it("should reject malformed artifact paths", async () => {
+    await startServer("secret");
+
+    const request = (requestPath: string) =>
+      new Promise<number | undefined>((resolve, reject) => {
+        http
+          .get(`${url}${requestPath}`, { headers: { Authorization: "Bearer secret" } }, (response) => {
+            response.resume();
+            resolve(response.statusCode);
+          })
+          .on("error", reject);
+      });
+
+    expect(await request("/%E0%A4%A")).toBe(400);
+    expect(await request("/..%2Fsome-hash")).toBe(400);
+    expect(await request("/unknown-hash")).toBe(404);
+  });
+
+  it("should check whether artifacts exist without downloading them", async () => {
+    await startServer();
+
+    const provider = new HttpCacheProvider({ url, root: tmpDir, logger });
+
+    const producer = path.join(tmpDir, "producer");
+    fs.mkdirSync(path.join(producer, "lib"), { recursive: true });
+    fs.writeFileSync(path.join(producer, "lib/index.js"), "output");
+
+    await provider.put("some-hash", createTarget(producer));
+
+    expect(await provider.existsMany(["some-hash", "unknown-hash"])).toEqual(
+      new Map([
+        ["some-hash", true],
+        ["unknown-hash", false],
+      ])
+    );
+  });
+
+  it("should read back artifacts whatever their compression, and report the bytes transferred", async () => {
+    await startServer();
+
+    const producer = path.join(tmpDir, "producer");
+    fs.mkdirSync(path.join(producer, "lib"), { recursive: true });
+    fs.writeFileSync(path.join(producer, "lib/index.js"), "output".repeat(1000));
+
+    const putStats: Record<string, CacheTransferStats> = { "brotli-hash": {}, "plain-hash": {} };
+    await new HttpCacheProvider({ url, root: tmpDir, logger, compression: "brotli" }).put(
+      "brotli-hash",
+      createTarget(producer),
+      putStats["brotli-hash"]
+    );
+    await new HttpCacheProvider({ url, root: tmpDir, logger }).put("plain-hash", createTarget(producer), putStats["plain-hash"]);
+
+    const artifactSizes: Record<string, number> = {
+      "brotli-hash": fs.statSync(path.join(tmpDir, "server/brot/brotli-hash")).size,
+      "plain-hash": fs.statSync(path.join(tmpDir, "server/plai/plain-hash")).size,
+    };
+
+    const brotliArtifact = fs.readFileSync(path.join(tmpDir, "server/brot/brotli-hash"));
+    expect(brotliArtifact.subarray(0, 12).toString("latin1")).toBe("\x89lage brotli");
+    expect(brotliArtifact.length).toBeLessThan(artifactSizes["plain-hash"]);
+
+    const provider = new HttpCacheProvider({ url, root: tmpDir, logger, compression: "gzip" });
+
+    for (const hash of ["brotli-hash", "plain-hash"]) {
+      const consumer = path.join(tmpDir, hash);
+      fs.mkdirSync(consumer);
+
+      const fetchStats: CacheTransferStats = {};
+      expect(await provider.fetch(hash, createTarget(consumer), fetchStats)).toBeTruthy();
+      expect(fs.readFileSync(path.join(consumer, "lib/index.js"), "utf-8")).toBe("output".repeat(1000));
+
+      expect(putStats[hash].bytes).toBe(artifactSizes[hash]);
+      expect(fetchStats.bytes).toBe(artifactSizes[hash]);
+    }
+  });
+});
@@ -1,7 +1,10 @@
-import { CacheProvider } from "../src/types/CacheProvider";
+import { CacheProvider, CacheTransferStats } from "../src/types/CacheProvider";
 import { Logger } from "@lage-run/logger";
 import { RemoteFallbackCacheProvider, RemoteFallbackCacheProviderOptions } from "../src/providers/RemoteFallbackCacheProvider";
 import path from "path";
+import fs from "fs";
+import os from "os";
+import { getCacheDirectory } from "../src/getCacheDirectory";
 import type { Target } from "@lage-run/target-graph";
 
 describe("RemoteFallbackCacheProvider", () => {
@@ -269,4 +272,167 @@ describe("RemoteFallbackCacheProvider", () => {
     expect(localCacheProvider.put).not.toHaveBeenCalled();
     expect(remoteCacheProvider.put).not.toHaveBeenCalled();
   });
+
+  it("should only check the remote cache for hashes that are not in the local cache", async () => {
+    const localCacheProvider: CacheProvider = {
+      fetch: jest.fn(),
+      put: jest.fn(),
+      clear: jest.fn(),
+      purge: jest.fn(),
+      existsMany: jest.fn().mockResolvedValue(
+        new Map([
+          ["local-hash", true],
+          ["remote-hash", false],
+          ["missing-hash", false],
+        ])
+      ),
+    };
+
+    const remoteCacheProvider: CacheProvider = {
+      fetch: jest.fn(),
+      put: jest.fn(),
+      clear: jest.fn(),
+      purge: jest.fn(),
+      exists: jest.fn().mockImplementation(async (hash: string) => hash === "remote-hash"),
+    };
+
+    const provider = new RemoteFallbackCacheProvider({
+      root: "/test",
+      localCacheProvider,
+      remoteCacheProvider,
+      logger: new Logger(),
+    });
+
+    const results = await provider.existsMany(["local-hash", "remote-hash", "missing-hash"]);
+
+    expect(results).toEqual(
+      new Map([
+        ["local-hash", true],
+        ["remote-hash", true],
+        ["missing-hash", false],
+      ])
+    );
+    expect(remoteCacheProvider.exists).toHaveBeenCalledTimes(2);
+    expect(remoteCacheProvider.exists).not.toHaveBeenCalledWith("local-hash");
+    expect(localCacheProvider.fetch).not.toHaveBeenCalled();
+    expect(remoteCacheProvider.fetch).not.toHaveBeenCalled();
+  });
+
+  it("should report a hash as unknown when a cache without an exists check does not have it", async () => {
+    const localCacheProvider: CacheProvider = {
+      fetch: jest.fn(),
+      put: jest.fn(),
+      clear: jest.fn(),
+      purge: jest.fn(),
+      exists: jest.fn().mockResolvedValue(false),
+    };
+
+    const remoteCacheProvider: CacheProvider = {
+      fetch: jest.fn(),
+      put: jest.fn(),
+      clear: jest.fn(),
+      purge: jest.fn(),
+    };
+
+    const provider = new RemoteFallbackCacheProvider({
+      root: "/test",
+      localCacheProvider,
+      remoteCacheProvider,
+      logger: new Logger(),
+    });
+
+    expect(await provider.exists("some-hash")).toBeUndefined();
+    expect(remoteCacheProvider.fetch).not.toHaveBeenCalled();
+  });
+
+  it("reports the tier that served the hit and the size of the entry in the local cache", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "lage-remote-fallback-"));
+    const hash = "stats-hash";
+
+    // the local cache provider stores the entry fetched from the remote cache
+    const localCacheProvider: CacheProvider = {
+      fetch: jest.fn().mockReturnValue(Promise.resolve(false)),
+      put: jest.fn().mockImplementation(async () => {
+        const entryPath = path.join(getCacheDirectory(root, hash), hash, "lib");
+        fs.mkdirSync(entryPath, { recursive: true });
+        fs.writeFileSync(path.join(entryPath, "index.js"), "0123456789");
+        fs.writeFileSync(path.join(entryPath, "index.d.ts"), "01234");
+      }),
+      clear: jest.fn(),
+      purge: jest.fn(),
+    };
+
+    const remoteCacheProvider: CacheProvider = {
+      fetch: jest.fn().mockReturnValue(Promise.resolve(true)),
+      put: jest.fn(),
+      clear: jest.fn(),
+      purge: jest.fn(),
+    };
+
+    const provider = new RemoteFallbackCacheProvider({ root, localCacheProvider, remoteCacheProvider, logger: new Logger() });
+
+    const target: Target = {
+      id: "a",
+      cwd: path.join(root, "packages/a"),
+      depSpecs: [],
+      dependents: [],
+      dependencies: [],
+      task: "command",
+      label: "a - command",
+    };
+
+    try {
+      const remoteStats: CacheTransferStats = {};
+      expect(await provider.fetch(hash, target, remoteStats)).toBe(true);
+      expect(remoteStats).toEqual({ tier: "remote", bytes: 15 });
+
+      (localCacheProvider.fetch as jest.Mock).mockReturnValue(Promise.resolve(true));
+
+      const localStats: CacheTransferStats = {};
+      expect(await provider.fetch(hash, target, localStats)).toBe(true);
+      expect(localStats).toEqual({ tier: "local", bytes: 15 });
+      expect(remoteCacheProvider.fetch).toHaveBeenCalledTimes(1);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("reports the bytes that the remote cache transferred, without a local cache", async () => {
+    const remoteCacheProvider: CacheProvider = {
+      fetch: jest.fn().mockImplementation(async (_hash: string, _target: Target, stats?: CacheTransferStats) => {
+        stats!.bytes = 7;
+        return true;
+      }),
+      put: jest.fn().mockImplementation(async (_hash: string, _target: Target, stats?: CacheTransferStats) => {
+        stats!.bytes = 9;
+      }),
+      clear: jest.fn(),
+      purge: jest.fn(),
+    };
+
+    const provider = new RemoteFallbackCacheProvider({
+      root: "/some/root",
+      remoteCacheProvider,
+      writeRemoteCache: true,
+      logger: new Logger(),
+    });
+
+    const target: Target = {
+      id: "a",
+      cwd: "/some/root/packages/a",
+      depSpecs: [],
+      dependents: [],
+      dependencies: [],
+      task: "command",
+      label: "a - command",
+    };
+
+    const fetchStats: CacheTransferStats = {};
+    expect(await provider.fetch("fetched-hash", target, fetchStats)).toBe(true);
+    expect(fetchStats).toEqual({ tier: "remote", bytes: 7 });
+
+    const putStats: CacheTransferStats = {};
+    await provider.put("put-hash", target, putStats);
+    expect(putStats).toEqual({ tier: "remote", bytes: 9 });
+  });
 });
@@ -0,0 +1,53 @@
+import { ArtifactDecompressStream, compressArtifact } from "../src/compression";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+async function readAll(stream: NodeJS.ReadableStream) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function decompress(artifact: Buffer) {
+  const decompressStream = new ArtifactDecompressStream();
+  const chunks: Buffer[] = [];
+
+  await pipeline(Readable.from([artifact]), decompressStream, async (source) => {
+    for await (const chunk of source) {
+      chunks.push(chunk);
+    }
+  });
+
+  return { data: Buffer.concat(chunks), stats: decompressStream.stats };
+}
+
+describe("compression", () => {
+  const tarball = Buffer.from("lib/index.js".padEnd(512, "\0") + "console.log('output');\n".repeat(200));
+
+  it.each(["gzip", "brotli"] as const)("reads back artifacts compressed with %s", async (compression) => {
+    const artifact = compressArtifact(Readable.from([tarball]), compression);
+    const compressed = await readAll(artifact.stream);
+
+    expect(compressed.length).toBeLessThan(tarball.length);
+    expect(artifact.stats).toEqual({ compression, uncompressedBytes: tarball.length, compressedBytes: compressed.length });
+
+    const { data, stats } = await decompress(compressed);
+    expect(data.equals(tarball)).toBeTruthy();
+    expect(stats).toEqual({ compression, uncompressedBytes: tarball.length, compressedBytes: compressed.length });
+  });
+
+  it("reads artifacts written without compression as plain tar archives", async () => {
+    const artifact = compressArtifact(Readable.from([tarball]));
+    const uncompressed = await readAll(artifact.stream);
+
+    expect(uncompressed.equals(tarball)).toBeTruthy();
+    expect((await decompress(uncompressed)).data.equals(tarball)).toBeTruthy();
+    expect((await decompress(Buffer.from("tiny"))).data.toString()).toBe("tiny");
+  });
+
+  it("fails for artifacts with an unknown compression", async () => {
+    await expect(decompress(Buffer.from("\x89lage lzma\nsome data", "latin1"))).rejects.toThrow("unknown compression: lzma");
+  });
+});
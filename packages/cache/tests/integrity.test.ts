@@ -0,0 +1,176 @@
+import { Target } from "@lage-run/target-graph";
+import createLogger from "@lage-run/logger";
+import { BackfillCacheProvider } from "../src/providers/BackfillCacheProvider";
+import { createHttpCacheServer } from "../src/HttpCacheServer";
+import { createIntegrityManifest, listFiles, verifyIntegrity } from "../src/integrity";
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+function createTarget(cwd: string): Target {
+  return {
+    id: "a",
+    cwd,
+    depSpecs: [],
+    dependents: [],
+    dependencies: [],
+    task: "build",
+    label: "a - build",
+    outputs: ["lib/**"],
+  };
+}
+
+describe("integrity", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "cache-integrity"));
+    fs.mkdirSync(path.join(tmpDir, "lib/nested"), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, "lib/index.js"), "index");
+    fs.writeFileSync(path.join(tmpDir, "lib/nested/util.js"), "util");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("passes the check for the files it was created from", async () => {
+    const files = await listFiles(tmpDir);
+    expect(files.sort()).toEqual(["lib/index.js", "lib/nested/util.js"]);
+
+    const manifest = await createIntegrityManifest("some-hash", tmpDir, files, "key");
+
+    expect(await verifyIntegrity(manifest, "some-hash", tmpDir, files, { key: "key" })).toBeUndefined();
+    expect(await verifyIntegrity(manifest, "some-hash", tmpDir, ["lib/index.js"], { key: "key", partial: true })).toBeUndefined();
+  });
+
+  it("fails the check for tampered, unknown or missing files", async () => {
+    const files = await listFiles(tmpDir);
+    const manifest = await createIntegrityManifest("some-hash", tmpDir, files);
+
+    fs.writeFileSync(path.join(tmpDir, "lib/extra.js"), "extra");
+    expect(await verifyIntegrity(manifest, "some-hash", tmpDir, await listFiles(tmpDir))).toBe(
+      "lib/extra.js is not in the integrity manifest"
+    );
+    fs.rmSync(path.join(tmpDir, "lib/extra.js"));
+
+    expect(await verifyIntegrity(manifest, "some-hash", tmpDir, ["lib/index.js"])).toBe("lib/nested/util.js is missing from the entry");
+
+    fs.writeFileSync(path.join(tmpDir, "lib/index.js"), "tampered");
+    expect(await verifyIntegrity(manifest, "some-hash", tmpDir, files)).toBe("the digest of lib/index.js does not match");
+
+    expect(await verifyIntegrity(manifest, "some-hash", tmpDir, [])).toBe("the entry has none of the files of its integrity manifest");
+    expect(await verifyIntegrity(manifest, "other-hash", tmpDir, files)).toBe("the integrity manifest does not belong to the entry");
+  });
+
+  it("fails the check for manifests that are not signed with the key", async () => {
+    const files = await listFiles(tmpDir);
+
+    const unsigned = await createIntegrityManifest("some-hash", tmpDir, files);
+    expect(await verifyIntegrity(unsigned, "some-hash", tmpDir, files, { key: "key" })).toBe("the entry is not signed");
+
+    const signedWithOtherKey = await createIntegrityManifest("some-hash", tmpDir, files, "other-key");
+    expect(await verifyIntegrity(signedWithOtherKey, "some-hash", tmpDir, files, { key: "key" })).toBe("the signature does not match");
+
+    // changing the digests of the files means recomputing the digest of the manifest, which changes what the signature is for
+    const signed = await createIntegrityManifest("some-hash", tmpDir, files, "key");
+    const forged = { ...signed, files: { ...signed.files, "lib/index.js": "0".repeat(64) } };
+    expect(await verifyIntegrity(forged, "some-hash", tmpDir, files, { key: "key" })).toBe(
+      "the integrity manifest does not match its digest"
+    );
+  });
+
+  describe("BackfillCacheProvider", () => {
+    let server: Server;
+    let url: string;
+
+    const logger = createLogger();
+
+    beforeEach(async () => {
+      fs.writeFileSync(path.join(tmpDir, "package.json"), JSON.stringify({ name: "a" }));
+
+      server = createHttpCacheServer({ cacheDir: path.join(tmpDir, "server"), logger });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    function createProvider(integrityKey?: string) {
+      return new BackfillCacheProvider({
+        root: tmpDir,
+        logger,
+        cacheOptions: { cacheStorageConfig: { provider: "http", options: { url } }, integrity: true, integrityKey },
+      });
+    }
+
+    function createConsumer() {
+      const consumer = fs.mkdtempSync(path.join(tmpDir, "consumer"));
+      return createTarget(consumer);
+    }
+
+    it("verifies entries before restoring them, and treats the ones that fail as cache misses", async () => {
+      const provider = createProvider("key");
+      const warn = jest.spyOn(logger, "warn");
+
+      await provider.put("some-hash", createTarget(tmpDir));
+      await provider.put("other-hash", createTarget(tmpDir));
+
+      const consumer = createConsumer();
+      expect(await provider.fetch("some-hash", consumer)).toBeTruthy();
+      expect(fs.readFileSync(path.join(consumer.cwd, "lib/index.js"), "utf-8")).toBe("index");
+
+      // an entry signed with another key
+      expect(await createProvider("other-key").fetch("some-hash", createConsumer())).toBeFalsy();
+
+      // an entry whose artifact was replaced on the server
+      fs.writeFileSync(path.join(tmpDir, "lib/index.js"), "tampered");
+      await provider.put("tampered-hash", createTarget(tmpDir));
+      fs.copyFileSync(path.join(tmpDir, "server/tamp/tampered-hash"), path.join(tmpDir, "server/othe/other-hash"));
+
+      const tampered = createConsumer();
+      expect(await provider.fetch("other-hash", tampered)).toBeFalsy();
+      expect(fs.existsSync(path.join(tampered.cwd, "lib"))).toBeFalsy();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("the digest of lib/index.js does not match"), expect.anything());
+
+      // an entry whose artifact lost one of its files
+      fs.writeFileSync(path.join(tmpDir, "lib/index.js"), "index");
+      await provider.put("complete-hash", createTarget(tmpDir));
+      fs.rmSync(path.join(tmpDir, "lib/nested"), { recursive: true });
+      await provider.put("partial-hash", createTarget(tmpDir));
+      fs.copyFileSync(path.join(tmpDir, "server/part/partial-hash"), path.join(tmpDir, "server/comp/complete-hash"));
+
+      expect(await provider.fetch("complete-hash", createConsumer())).toBeFalsy();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("lib/nested/util.js is missing from the entry"), expect.anything());
+
+      // a miss is not a failure
+      warn.mockClear();
+      expect(await provider.fetch("unknown-hash", createConsumer())).toBeFalsy();
+      expect(warn).not.toHaveBeenCalled();
+
+      warn.mockRestore();
+    });
+
+    it("does not report entries without their integrity manifest as existing", async () => {
+      const provider = createProvider();
+
+      await provider.put("some-hash", createTarget(tmpDir));
+      await provider.put("other-hash", createTarget(tmpDir));
+      fs.rmSync(path.join(tmpDir, "server/othe/other-hash-integrity"));
+
+      expect(await provider.exists("some-hash")).toBe(true);
+      expect(await provider.existsMany(["some-hash", "other-hash", "unknown-hash"])).toEqual(
+        new Map([
+          ["some-hash", true],
+          ["other-hash", false],
+          ["unknown-hash", false],
+        ])
+      );
+    });
+  });
+});
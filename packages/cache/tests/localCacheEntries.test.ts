@@ -0,0 +1,59 @@
+import { Target } from "@lage-run/target-graph";
+import { Monorepo } from "@lage-run/monorepo-fixture";
+import createLogger from "@lage-run/logger";
+import path from "path";
+import { BackfillCacheProvider } from "../src/providers/BackfillCacheProvider";
+import { getCacheDirectory, getLogsCacheDirectory } from "../src/getCacheDirectory";
+import { getLogsCacheSize, listLocalCacheEntries } from "../src/localCacheEntries";
+
+describe("listLocalCacheEntries", () => {
+  it("lists the entries of the local cache with the metadata written when they were put", async () => {
+    const monorepo = new Monorepo("list-cache-entries");
+
+    await monorepo.init();
+    await monorepo.addPackage("a");
+
+    const provider = new BackfillCacheProvider({
+      logger: createLogger(),
+      root: monorepo.root,
+      cacheOptions: {
+        outputGlob: ["output.txt"],
+      },
+    });
+
+    const target: Target = {
+      id: "a#build",
+      cwd: path.join(monorepo.root, "packages/a"),
+      depSpecs: [],
+      dependents: [],
+      dependencies: [],
+      packageName: "a",
+      task: "build",
+      label: "a - build",
+    };
+
+    await monorepo.writeFiles({
+      "packages/a/output.txt": "0123456789",
+      // an entry put in the cache by an older version of lage, without metadata
+      [path.join(getCacheDirectory(monorepo.root, "old-hash"), "old-hash", "output.txt")]: "01234",
+      [path.join(getLogsCacheDirectory(monorepo.root, "new-hash"), "new-hash.log")]: "log",
+    });
+
+    await provider.put("new-hash", target);
+
+    const entries = (await listLocalCacheEntries(monorepo.root)).sort((a, b) => a.hash.localeCompare(b.hash));
+
+    expect(entries.map(({ hash, size, metadata }) => ({ hash, size, metadata }))).toEqual([
+      {
+        hash: "new-hash",
+        size: 10,
+        metadata: { hash: "new-hash", target: "a#build", packageName: "a", task: "build", createdAt: expect.any(Number) },
+      },
+      { hash: "old-hash", size: 5, metadata: undefined },
+    ]);
+
+    expect(await getLogsCacheSize(monorepo.root)).toEqual({ files: 1, size: 3 });
+
+    await monorepo.cleanup();
+  });
+});
@@ -16,6 +16,7 @@ export async function createCache(options: CreateCacheOptions) {
   const hasher = new TargetHasher({
     root,
     environmentGlob: cacheOptions?.environmentGlob ?? [],
+    env: cacheOptions?.env,
     cacheKey: cacheOptions?.cacheKey,
     cliArgs,
     logger,
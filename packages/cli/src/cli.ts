@@ -7,6 +7,8 @@ import { affectedCommand } from "./commands/affected/index.js";
 import { initCommand } from "./commands/init/index.js";
 import { infoCommand } from "./commands/info/index.js";
 import { execCommand } from "./commands/exec/index.js";
+import { historyCommand } from "./commands/history/index.js";
+import { configCommand } from "./commands/config/index.js";
 
 async function main() {
   const program = new Command();
@@ -16,6 +18,8 @@ async function main() {
   program.addCommand(initCommand);
   program.addCommand(infoCommand);
   program.addCommand(execCommand);
+  program.addCommand(historyCommand);
+  program.addCommand(configCommand);
 
   await program.parseAsync(process.argv);
 }
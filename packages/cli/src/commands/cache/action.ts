@@ -2,11 +2,13 @@ import { clearCache } from "./clearCache.js";
 import type { Command } from "commander";
 import { getConfig } from "@lage-run/config";
 import { pruneCache } from "./pruneCache.js";
+import { evictCache } from "./evictCache.js";
 import createLogger from "@lage-run/logger";
 import type { ReporterInitOptions } from "../../types/ReporterInitOptions.js";
 
 interface CacheOptions extends ReporterInitOptions {
   prune?: number;
+  pruneSize?: number;
   clear?: boolean;
 }
 
@@ -30,6 +32,13 @@ export async function cacheAction(options: CacheOptions, command: Command) {
       logger,
       concurrency: options.concurrency,
     });
+  } else if (options.pruneSize !== undefined) {
+    return await evictCache({
+      maxSize: options.pruneSize,
+      cwd: process.cwd(),
+      logger,
+      concurrency: options.concurrency,
+    });
   }
 
   command.help();
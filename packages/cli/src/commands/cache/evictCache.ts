@@ -0,0 +1,45 @@
+import type { Logger } from "@lage-run/logger";
+import { getWorkspaceRoot } from "workspace-tools";
+import { getConfig, getConcurrency } from "@lage-run/config";
+import { BackfillCacheProvider } from "@lage-run/cache";
+import { formatCacheSize } from "./formatCacheSize.js";
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+export interface EvictCacheOptions {
+  cwd: string;
+  logger: Logger;
+  concurrency: number;
+  /** in gigabytes */
+  maxSize: number;
+}
+
+/**
+ * Evicts the least recently used entries of the local cache until it is no larger than `maxSize` gigabytes
+ */
+export async function evictCache(options: EvictCacheOptions) {
+  const { logger, cwd, maxSize } = options;
+
+  const config = await getConfig(cwd);
+  const workspaceRoot = getWorkspaceRoot(cwd);
+  const concurrency = getConcurrency(options.concurrency, config.concurrency);
+
+  if (!workspaceRoot) {
+    return;
+  }
+
+  const cacheProvider = new BackfillCacheProvider({
+    root: workspaceRoot,
+    cacheOptions: config.cacheOptions,
+    logger,
+  });
+
+  const { evictedEntries, evictedSize, remainingSize } = await cacheProvider.evict(maxSize * BYTES_PER_GB, concurrency);
+
+  // eslint-disable-next-line no-console
+  console.log(
+    evictedEntries > 0
+      ? `Evicted ${evictedEntries} cache entries (${formatCacheSize(evictedSize)}), the local cache is now ${formatCacheSize(remainingSize)}`
+      : `The local cache is ${formatCacheSize(remainingSize)}, nothing to evict`
+  );
+}
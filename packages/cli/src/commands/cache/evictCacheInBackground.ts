@@ -0,0 +1,34 @@
+import type { Logger } from "@lage-run/logger";
+import execa from "execa";
+import { getBinScripts } from "../../getBinPaths.js";
+
+export interface EvictCacheInBackgroundOptions {
+  logger: Logger;
+  root: string;
+  /** in gigabytes */
+  maxSize: number;
+}
+
+/**
+ * Launches a detached `lage cache --prune-size` process, so that the eviction does not hold up the end of the run
+ */
+export function evictCacheInBackground({ logger, root, maxSize }: EvictCacheInBackgroundOptions) {
+  try {
+    const lageBinPath = getBinScripts().lage;
+    const args = [lageBinPath, "cache", "--prune-size", String(maxSize)];
+
+    logger.verbose(`Evicting the local cache in the background: ${args.join(" ")}`);
+
+    const child = execa(process.execPath, args, {
+      cwd: root,
+      detached: true,
+      stdio: "ignore",
+    });
+
+    // the eviction is best effort, it does not matter to the run whether it succeeds
+    child.catch(() => {});
+    child.unref();
+  } catch (e) {
+    logger.verbose(`Unable to evict the local cache in the background: ${e}`);
+  }
+}
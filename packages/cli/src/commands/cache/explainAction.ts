@@ -0,0 +1,158 @@
+import type { Command } from "commander";
+import createLogger from "@lage-run/logger";
+import { getConfig } from "@lage-run/config";
+import { explainTargetHash } from "@lage-run/hasher";
+import type { HashListChanges, HashRecordChanges, TargetHasher, TargetHashExplanation } from "@lage-run/hasher";
+import { TargetRunnerPicker } from "@lage-run/runners";
+import { getPackageAndTask, getStartTargetId, getTargetId, type Target } from "@lage-run/target-graph";
+import { getPackageInfos, getWorkspaceRoot } from "workspace-tools";
+import { createTargetGraph } from "../run/createTargetGraph.js";
+import { filterArgsForTasks } from "../run/filterArgsForTasks.js";
+import { createCache } from "../../cache/createCacheProvider.js";
+import { optimizeTargetGraph } from "../../optimizeTargetGraph.js";
+import { getRunnerPickerOptions } from "../../runnerPickerOptions.js";
+
+interface CacheExplainOptions {
+  nodeArg?: string;
+}
+
+/**
+ * Explains why a target's cache key changed since the last run, by comparing the hash manifest written by that run
+ * (in `node_modules/.cache/lage/hashes`) with the hash components of the target as of now.
+ */
+export async function cacheExplainAction(targetSpec: string, options: CacheExplainOptions, command: Command) {
+  const cwd = process.cwd();
+  const config = await getConfig(cwd);
+  const logger = createLogger();
+
+  const root = getWorkspaceRoot(cwd)!;
+  const packageInfos = getPackageInfos(root);
+
+  // anything after the target (e.g. `lage cache explain a#test -- --coverage`) is treated as the task args of the run to compare with
+  const { taskArgs } = filterArgsForTasks(command.args);
+  const { packageName, task } = getPackageAndTask(targetSpec);
+  const targetId = getTargetId(packageName, task);
+
+  const targetGraph = await createTargetGraph({
+    logger,
+    root,
+    dependencies: true,
+    dependents: false,
+    ignore: config.ignore,
+    pipeline: config.pipeline,
+    repoWideChanges: config.repoWideChanges,
+    scope: packageName ? [packageName] : [],
+    outputs: config.cacheOptions.outputGlob,
+    tasks: [task],
+    packageInfos,
+    priorities: config.priorities,
+    enableTargetConfigMerging: config.enableTargetConfigMerging,
+  });
+
+  // hash the same graph as `lage run` would, so that the upstream target hashes line up
+  const runnerPicker = new TargetRunnerPicker(getRunnerPickerOptions(config, options.nodeArg, taskArgs));
+  const targets = new Map((await optimizeTargetGraph(targetGraph, runnerPicker, false)).map((target) => [target.id, target]));
+
+  const target = targets.get(targetId);
+
+  if (!target) {
+    throw new Error(`Target "${targetSpec}" was not found in the target graph (it may not have a script to run)`);
+  }
+
+  if (!target.cache) {
+    // eslint-disable-next-line no-console
+    console.log(`Caching is disabled for ${targetId}, it is never a cache hit.`);
+    return;
+  }
+
+  const { hasher } = await createCache({
+    root,
+    logger,
+    cacheOptions: config.cacheOptions,
+    cliArgs: taskArgs,
+    skipLocalCache: false,
+  });
+
+  const previous = hasher.readTargetHashesManifest(targetId);
+
+  if (!previous) {
+    // eslint-disable-next-line no-console
+    console.log(`No hash manifest was recorded for ${targetId}, run it once so there is something to compare with.`);
+    return;
+  }
+
+  await hashInTopologicalOrder(hasher, targets, target);
+
+  // eslint-disable-next-line no-console
+  console.log(renderExplanation(targetId, explainTargetHash(previous, hasher.targetHashesLog[targetId])));
+}
+
+/**
+ * Hashes the target after all of its (cacheable) upstream targets, since a target's hash includes the hashes of its dependencies.
+ * This does not write the hash manifests, so the ones from the last run stay around.
+ */
+async function hashInTopologicalOrder(hasher: TargetHasher, targets: Map<string, Target>, target: Target, visited = new Set<string>()) {
+  if (visited.has(target.id)) {
+    return;
+  }
+
+  visited.add(target.id);
+
+  for (const dependency of target.dependencies) {
+    const dependencyTarget = targets.get(dependency);
+    if (dependencyTarget && dependency !== getStartTargetId()) {
+      await hashInTopologicalOrder(hasher, targets, dependencyTarget, visited);
+    }
+  }
+
+  if (target.cache) {
+    await hasher.hash(target);
+  }
+}
+
+function renderRecordChanges(title: string, changes: HashRecordChanges) {
+  const lines = [
+    ...changes.added.map((key) => `  + ${key}`),
+    ...changes.removed.map((key) => `  - ${key}`),
+    ...changes.changed.map((key) => `  ~ ${key}`),
+  ];
+  return lines.length > 0 ? [`${title}:`, ...lines] : [];
+}
+
+function renderListChanges(title: string, changes: HashListChanges) {
+  const lines = [...changes.added.map((item) => `  + ${item}`), ...changes.removed.map((item) => `  - ${item}`)];
+  return lines.length > 0 ? [`${title}:`, ...lines] : [];
+}
+
+function renderExplanation(targetId: string, explanation: TargetHashExplanation) {
+  const { previousHash, currentHash, cliArgs, cacheKey, unknown } = explanation;
+
+  const details = [
+    ...renderRecordChanges("Files", explanation.files),
+    ...renderRecordChanges("Environment globs", explanation.environment),
+    ...renderRecordChanges("Environment variables", explanation.env),
+    ...renderListChanges("Workspace dependencies", explanation.internalDependencies),
+    ...renderListChanges("External dependencies (lockfile)", explanation.externalDependencies),
+    ...renderRecordChanges("Upstream targets", explanation.targetDependencies),
+    ...(cliArgs ? ["Task args:", `  - ${JSON.stringify(cliArgs.previous)}`, `  + ${JSON.stringify(cliArgs.current)}`] : []),
+    ...(cacheKey ? ["Cache key:", `  - ${JSON.stringify(cacheKey.previous)}`, `  + ${JSON.stringify(cacheKey.current)}`] : []),
+  ];
+
+  const summary =
+    previousHash === currentHash
+      ? "The hash is unchanged - the target is a cache hit as long as its cache entry still exists."
+      : details.length > 0
+        ? "The hash changed because of the following inputs (+ added, - removed, ~ changed):"
+        : "The hash changed, but none of the recorded inputs did.";
+
+  return [
+    `Cache key of ${targetId}`,
+    "------------------------",
+    `previous hash: ${previousHash ?? "(not recorded)"}`,
+    `current hash:  ${currentHash}`,
+    "",
+    summary,
+    ...details,
+    ...(unknown.length > 0 ? ["", `Not recorded by the previous run, so it may also have changed: ${unknown.join(", ")}`] : []),
+  ].join("\n");
+}
@@ -0,0 +1,13 @@
+const BYTES_PER_KB = 1024;
+const BYTES_PER_MB = 1024 * BYTES_PER_KB;
+const BYTES_PER_GB = 1024 * BYTES_PER_MB;
+
+export function formatCacheSize(bytes: number) {
+  if (bytes >= BYTES_PER_GB) {
+    return `${(bytes / BYTES_PER_GB).toFixed(2)} GB`;
+  } else if (bytes >= BYTES_PER_MB) {
+    return `${(bytes / BYTES_PER_MB).toFixed(2)} MB`;
+  }
+
+  return `${(bytes / BYTES_PER_KB).toFixed(2)} KB`;
+}
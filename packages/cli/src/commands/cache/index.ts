@@ -1,5 +1,9 @@
 import { Command } from "commander";
 import { cacheAction } from "./action.js";
+import { cacheServeAction } from "./serveAction.js";
+import { cacheExplainAction } from "./explainAction.js";
+import { cacheListAction } from "./listAction.js";
+import { cacheStatsAction } from "./statsAction.js";
 import { addOptions } from "../addOptions.js";
 
 const command = new Command("cache");
@@ -8,4 +12,41 @@ addOptions("cache", command);
 addOptions("logger", command);
 command.action(cacheAction);
 
+const serveCommand = new Command("serve");
+
+addOptions("cacheServer", serveCommand);
+addOptions("logger", serveCommand);
+serveCommand
+  .description("hosts a directory-backed remote cache, to be used with the `http` cache storage provider")
+  .action(cacheServeAction);
+
+command.addCommand(serveCommand);
+
+const explainCommand = new Command("explain");
+
+addOptions("runner", explainCommand);
+explainCommand
+  .description("explains which inputs of a target changed since the last run, causing a cache miss")
+  .argument("<target>", 'the target to explain, e.g. "my-package#build"')
+  .allowUnknownOption(true)
+  .action(cacheExplainAction);
+
+command.addCommand(explainCommand);
+
+const statsCommand = new Command("stats");
+
+addOptions("cacheStats", statsCommand);
+statsCommand
+  .description("shows the number of entries and the size of the local cache, in total and per package and task")
+  .action(cacheStatsAction);
+
+command.addCommand(statsCommand);
+
+const listCommand = new Command("ls");
+
+addOptions("cacheList", listCommand);
+listCommand.description("lists the entries of the local cache with the target that produced them").action(cacheListAction);
+
+command.addCommand(listCommand);
+
 export { command as cacheCommand };
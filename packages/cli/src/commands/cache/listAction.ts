@@ -0,0 +1,83 @@
+import { listLocalCacheEntries, type LocalCacheEntry } from "@lage-run/cache";
+import { getWorkspaceRoot } from "workspace-tools";
+import { renderTable } from "../renderTable.js";
+import { formatCacheSize } from "./formatCacheSize.js";
+
+interface CacheListOptions {
+  package?: string[];
+  task?: string[];
+  outputFormat: "text" | "json";
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+export function formatAge(ms: number) {
+  if (ms >= MS_PER_DAY) {
+    return `${Math.floor(ms / MS_PER_DAY)}d ${Math.floor((ms % MS_PER_DAY) / MS_PER_HOUR)}h`;
+  } else if (ms >= MS_PER_HOUR) {
+    return `${Math.floor(ms / MS_PER_HOUR)}h ${Math.floor((ms % MS_PER_HOUR) / MS_PER_MINUTE)}m`;
+  }
+
+  return `${Math.floor(ms / MS_PER_MINUTE)}m`;
+}
+
+/** when the entry was put in the cache, falling back to when it was last used for the entries without metadata */
+export function getCreatedAt(entry: LocalCacheEntry) {
+  return entry.metadata?.createdAt ?? entry.lastUsed;
+}
+
+/**
+ * Lists the entries of the local cache with the target that produced them, the newest first
+ */
+export async function cacheListAction(options: CacheListOptions) {
+  const root = getWorkspaceRoot(process.cwd())!;
+  const { package: packages, task: tasks } = options;
+
+  const entries = (await listLocalCacheEntries(root))
+    .filter((entry) => !packages?.length || (entry.metadata?.packageName && packages.includes(entry.metadata.packageName)))
+    .filter((entry) => !tasks?.length || (entry.metadata && tasks.includes(entry.metadata.task)))
+    .sort((a, b) => getCreatedAt(b) - getCreatedAt(a));
+
+  if (options.outputFormat === "json") {
+    // eslint-disable-next-line no-console
+    console.log(
+      JSON.stringify(
+        entries.map(({ hash, size, lastUsed, metadata }) => ({
+          hash,
+          target: metadata?.target,
+          packageName: metadata?.packageName,
+          task: metadata?.task,
+          size,
+          createdAt: metadata?.createdAt,
+          lastUsed,
+        })),
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  if (entries.length === 0) {
+    // eslint-disable-next-line no-console
+    console.log(packages?.length || tasks?.length ? "No entries of the local cache match the filters." : "The local cache has no entries.");
+    return;
+  }
+
+  const now = Date.now();
+  const rows = [
+    ["hash", "target", "size", "age", "last used"],
+    ...entries.map((entry) => [
+      entry.hash,
+      entry.metadata?.target ?? "<unknown>",
+      formatCacheSize(entry.size),
+      formatAge(now - getCreatedAt(entry)),
+      `${formatAge(now - entry.lastUsed)} ago`,
+    ]),
+  ];
+
+  // eslint-disable-next-line no-console
+  console.log(renderTable(rows));
+}
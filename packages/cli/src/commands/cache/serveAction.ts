@@ -0,0 +1,35 @@
+import createLogger from "@lage-run/logger";
+import { createHttpCacheServer } from "@lage-run/cache";
+import path from "path";
+import type { ReporterInitOptions } from "../../types/ReporterInitOptions.js";
+import { initializeReporters } from "../initializeReporters.js";
+import { parseServerOption } from "../parseServerOption.js";
+
+interface CacheServeOptions extends ReporterInitOptions {
+  server: string;
+  cacheDir: string;
+  token?: string;
+}
+
+export async function cacheServeAction(options: CacheServeOptions) {
+  const logger = createLogger();
+  options.logLevel = options.logLevel ?? "info";
+  options.reporter = options.reporter ?? "npmLog";
+  initializeReporters(logger, options);
+
+  const { host, port } = parseServerOption(options.server);
+  const cacheDir = path.resolve(process.cwd(), options.cacheDir);
+
+  const server = createHttpCacheServer({ cacheDir, token: options.token, logger });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, resolve);
+  });
+
+  logger.info(`HTTP cache server listening on http://${host}:${port}, storing artifacts in ${cacheDir}`);
+
+  if (!options.token) {
+    logger.warn("No --token given, the cache server accepts unauthenticated reads and writes");
+  }
+}
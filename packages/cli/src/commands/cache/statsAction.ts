@@ -0,0 +1,71 @@
+import { getLogsCacheSize, listLocalCacheEntries, type LocalCacheEntry } from "@lage-run/cache";
+import { getWorkspaceRoot } from "workspace-tools";
+import { renderTable } from "../renderTable.js";
+import { formatCacheSize } from "./formatCacheSize.js";
+import { getCreatedAt } from "./listAction.js";
+
+interface CacheStatsOptions {
+  outputFormat: "text" | "json";
+}
+
+function sumSizesBy(entries: LocalCacheEntry[], getKey: (entry: LocalCacheEntry) => string) {
+  const sizes = new Map<string, { entries: number; size: number }>();
+
+  for (const entry of entries) {
+    const key = getKey(entry);
+    const current = sizes.get(key) ?? { entries: 0, size: 0 };
+    sizes.set(key, { entries: current.entries + 1, size: current.size + entry.size });
+  }
+
+  return Object.fromEntries([...sizes].sort(([, a], [, b]) => b.size - a.size));
+}
+
+function formatDate(timestamp: number | undefined) {
+  return timestamp === undefined ? "-" : new Date(timestamp).toLocaleString();
+}
+
+/**
+ * Shows how many entries the local cache holds and how large it is, in total and per package and task, along with the target output logs
+ */
+export async function cacheStatsAction(options: CacheStatsOptions) {
+  const root = getWorkspaceRoot(process.cwd())!;
+
+  const entries = await listLocalCacheEntries(root);
+  const createdAt = entries.map(getCreatedAt);
+
+  const stats = {
+    entries: entries.length,
+    size: entries.reduce((total, entry) => total + entry.size, 0),
+    oldest: createdAt.length > 0 ? Math.min(...createdAt) : undefined,
+    newest: createdAt.length > 0 ? Math.max(...createdAt) : undefined,
+    byPackage: sumSizesBy(entries, (entry) => (entry.metadata ? (entry.metadata.packageName ?? "<root>") : "<unknown>")),
+    byTask: sumSizesBy(entries, (entry) => entry.metadata?.task ?? "<unknown>"),
+    logs: await getLogsCacheSize(root),
+  };
+
+  if (options.outputFormat === "json") {
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify(stats, null, 2));
+    return;
+  }
+
+  const sizeRows = (name: string, sizes: typeof stats.byPackage) => [
+    [name, "entries", "size"],
+    ...Object.entries(sizes).map(([key, { entries, size }]) => [key, String(entries), formatCacheSize(size)]),
+  ];
+
+  const lines = [
+    `entries: ${stats.entries}`,
+    `total size: ${formatCacheSize(stats.size)}`,
+    `oldest entry: ${formatDate(stats.oldest)}`,
+    `newest entry: ${formatDate(stats.newest)}`,
+    `output logs: ${stats.logs.files} files, ${formatCacheSize(stats.logs.size)}`,
+  ];
+
+  if (stats.entries > 0) {
+    lines.push("", renderTable(sizeRows("package", stats.byPackage)), "", renderTable(sizeRows("task", stats.byTask)));
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(lines.join("\n"));
+}
@@ -0,0 +1,145 @@
+import { type Target, type TargetConfig, type TargetConfigSource, type TargetPriority, getStartTargetId } from "@lage-run/target-graph";
+import path from "path";
+
+export interface TargetConfigDescription {
+  id: string;
+
+  /** the pipeline entries that contributed to the config, in the order they were applied */
+  entries: string[];
+
+  /** the merged target config, with the pipeline entries that set each option */
+  config: Record<string, { value: unknown; from: string[] }>;
+
+  /** the resulting target */
+  target: {
+    type: string | undefined;
+    cwd: string;
+    dependencies: string[];
+    inputs: string[] | undefined;
+    outputs: string[] | undefined;
+    environmentGlob: string[] | undefined;
+    env: string[] | undefined;
+    passThroughEnv: string[] | undefined;
+    cache: boolean | undefined;
+    shouldRun: boolean | undefined;
+    weight: number | undefined;
+    /** the target's own priority (from its config or the `priorities` config) */
+    priority: number | undefined;
+    /** the priority after accumulating the priorities of its dependents along the critical path */
+    criticalPathPriority: number | undefined;
+    /** the config that set the target's own priority */
+    priorityFrom: string | undefined;
+    /** the worker pool of the target: dedicated to its task (with the given size), or the default pool shared by the other tasks */
+    maxWorkers: { pool: "dedicated"; maxWorkers: number } | { pool: "default" };
+    retries: Target["retries"];
+    timeout: number | undefined;
+    options: Record<string, any> | undefined;
+  };
+}
+
+function formatSource(source: TargetConfigSource) {
+  return source.source ? `${source.id} (${source.source})` : source.id;
+}
+
+/**
+ * Describes how the config of a target was resolved: which pipeline entries it comes from, and the target that was created from it
+ */
+export function describeTargetConfig(options: {
+  root: string;
+  target: Target;
+  config: TargetConfig | undefined;
+  sources: TargetConfigSource[];
+  /** the priority of the target before it is accumulated along the critical path, see `WorkspaceTargetGraphBuilder.getTargetPriority()` */
+  priority: TargetPriority | undefined;
+  maxWorkersPerTask: Map<string, number>;
+}): TargetConfigDescription {
+  const { root, target, config = {}, sources, priority, maxWorkersPerTask } = options;
+
+  const maxWorkers = maxWorkersPerTask.get(target.task);
+
+  return {
+    id: target.id,
+    entries: sources.map(formatSource),
+    config: Object.fromEntries(
+      Object.entries(config)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [
+          key,
+          { value, from: sources.filter((source) => source.keys.includes(key as keyof TargetConfig)).map(formatSource) },
+        ])
+    ),
+    target: {
+      type: target.type,
+      cwd: path.relative(root, target.cwd) || ".",
+      dependencies: target.dependencies.filter((dependency) => dependency !== getStartTargetId()),
+      inputs: target.inputs,
+      outputs: target.outputs,
+      environmentGlob: target.environmentGlob,
+      env: target.env,
+      passThroughEnv: target.passThroughEnv,
+      cache: target.cache,
+      shouldRun: target.shouldRun,
+      weight: target.weight,
+      priority: priority?.priority,
+      criticalPathPriority: target.priority,
+      priorityFrom: priority?.from,
+      maxWorkers: maxWorkers !== undefined ? { pool: "dedicated", maxWorkers } : { pool: "default" },
+      retries: target.retries,
+      timeout: target.timeout,
+      options: target.options,
+    },
+  };
+}
+
+function formatValue(value: unknown) {
+  if (typeof value === "function") {
+    return "[function]";
+  }
+
+  return JSON.stringify(value, (_key, item) => (typeof item === "function" ? "[function]" : item));
+}
+
+/**
+ * Renders a description of a target config as an indented text block
+ */
+export function renderTargetConfigDescription(description: TargetConfigDescription) {
+  const { target } = description;
+
+  const targetLines: [string, unknown][] = [
+    ["type", target.type],
+    ["cwd", target.cwd],
+    ["dependencies", target.dependencies],
+    ["inputs", target.inputs],
+    ["outputs", target.outputs],
+    ["environmentGlob", target.environmentGlob],
+    ["env", target.env],
+    ["passThroughEnv", target.passThroughEnv],
+    ["cache", target.cache],
+    ["shouldRun", target.shouldRun],
+    ["weight", target.weight],
+    ["priority", target.priority ?? (target.criticalPathPriority !== undefined ? 0 : undefined)],
+    ["retries", target.retries],
+    ["timeout", target.timeout],
+    ["options", target.options],
+  ];
+
+  const priorityNote = [
+    target.priorityFrom && `from ${target.priorityFrom}`,
+    target.criticalPathPriority !== undefined && `${target.criticalPathPriority} along the critical path`,
+  ].filter(Boolean);
+
+  return [
+    description.id,
+    `  pipeline entries: ${description.entries.length > 0 ? description.entries.join(", ") : "(none)"}`,
+    "  config:",
+    ...Object.entries(description.config).map(([key, { value, from }]) => `    ${key}: ${formatValue(value)}  <- ${from.join(", ")}`),
+    "  target:",
+    ...targetLines
+      .filter(([, value]) => value !== undefined)
+      .map(
+        ([key, value]) =>
+          `    ${key}: ${formatValue(value)}${key === "priority" && priorityNote.length > 0 ? `  (${priorityNote.join(", ")})` : ""}`
+      ),
+    `    maxWorkers: ${target.maxWorkers.pool === "dedicated" ? `${target.maxWorkers.maxWorkers} (dedicated to the task)` : "default pool"}`,
+  ].join("\n");
+}
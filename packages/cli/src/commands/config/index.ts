@@ -0,0 +1,25 @@
+import { Command } from "commander";
+import { validateAction } from "./validateAction.js";
+import { printAction } from "./printAction.js";
+import { addOptions } from "../addOptions.js";
+
+const command = new Command("config");
+command.description("inspects the lage config file");
+
+const validateCommand = new Command("validate");
+validateCommand.description("checks the lage config file for unknown options and invalid values").action(validateAction);
+
+command.addCommand(validateCommand);
+
+const printCommand = new Command("print");
+
+addOptions("filter", printCommand);
+addOptions("configPrint", printCommand);
+printCommand
+  .description("prints the fully resolved configuration of the targets of the given tasks, and the pipeline entries it comes from")
+  .argument("<tasks...>", "tasks to print the targets of")
+  .action(printAction);
+
+command.addCommand(printCommand);
+
+export { command as configCommand };
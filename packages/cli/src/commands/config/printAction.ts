@@ -0,0 +1,75 @@
+import { getConfig, getMaxWorkersPerTask } from "@lage-run/config";
+import createLogger from "@lage-run/logger";
+import { getStartTargetId } from "@lage-run/target-graph";
+import { getPackageInfos, getWorkspaceRoot } from "workspace-tools";
+import type { FilterOptions } from "../../types/FilterOptions.js";
+import { createTargetGraphBuilder } from "../run/createTargetGraph.js";
+import { filterPipelineDefinitions } from "../run/filterPipelineDefinitions.js";
+import { describeTargetConfig, renderTargetConfigDescription } from "./describeTargetConfig.js";
+
+interface ConfigPrintOptions extends FilterOptions {
+  outputFormat: "text" | "json";
+}
+
+/**
+ * Prints the fully resolved configuration of the targets of the given tasks: the merged target config, annotated with the
+ * pipeline entries that set each option, and the target created from it
+ */
+export async function printAction(tasks: string[], options: ConfigPrintOptions) {
+  const cwd = process.cwd();
+  const config = await getConfig(cwd);
+  const logger = createLogger();
+  const root = getWorkspaceRoot(cwd)!;
+  const packageInfos = getPackageInfos(root);
+
+  const { builder, packages } = await createTargetGraphBuilder({
+    logger,
+    root,
+    dependencies: options.dependencies,
+    dependents: options.dependents && !options.to, // --to is a short hand for --scope + --no-dependents
+    ignore: options.ignore.concat(config.ignore),
+    pipeline: config.pipeline,
+    repoWideChanges: config.repoWideChanges,
+    scope: (options.scope ?? []).concat(options.to ?? []), // --to is a short hand for --scope + --no-dependents
+    since: options.since,
+    outputs: config.cacheOptions.outputGlob,
+    packageInfos,
+    enableTargetConfigMerging: config.enableTargetConfigMerging,
+  });
+
+  const targetGraph = await builder.build(tasks, packages, config.priorities);
+  // the same worker pools as `lage run` creates for these tasks
+  const maxWorkersPerTask = getMaxWorkersPerTask(
+    filterPipelineDefinitions(targetGraph.targets.values(), config.pipeline),
+    config.concurrency
+  );
+
+  const descriptions = [...targetGraph.targets.values()]
+    .filter((target) => target.id !== getStartTargetId() && tasks.includes(target.task))
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((target) =>
+      describeTargetConfig({
+        root,
+        target,
+        config: builder.getTargetConfig(target.id),
+        sources: builder.getTargetConfigSources(target.id),
+        priority: builder.getTargetPriority(target.id),
+        maxWorkersPerTask,
+      })
+    );
+
+  if (options.outputFormat === "json") {
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify(descriptions, (_key, value) => (typeof value === "function" ? "[function]" : value), 2));
+    return;
+  }
+
+  if (descriptions.length === 0) {
+    // eslint-disable-next-line no-console
+    console.log(`No targets found for ${tasks.join(", ")}.`);
+    return;
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(descriptions.map(renderTargetConfigDescription).join("\n\n"));
+}
@@ -0,0 +1,26 @@
+import { findConfigFile, formatConfigValidationIssues, validateConfig } from "@lage-run/config";
+
+/**
+ * Validates the lage config file, listing every problem found instead of failing on the first one
+ */
+export async function validateAction() {
+  const configFile = await findConfigFile(process.cwd());
+
+  if (!configFile?.config) {
+    // eslint-disable-next-line no-console
+    console.log("No lage config file found - the defaults are used.");
+    return;
+  }
+
+  const issues = validateConfig(configFile.config);
+
+  if (issues.length > 0) {
+    // eslint-disable-next-line no-console
+    console.error(formatConfigValidationIssues(configFile.filepath, issues));
+    process.exitCode = 1;
+    return;
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(`${configFile.filepath} is valid.`);
+}
@@ -6,14 +6,31 @@ import {
   ProgressReporter,
   VerboseFileLogReporter,
   ChromeTraceEventsReporter,
+  JUnitReporter,
+  GithubActionsReporter,
+  OtlpTraceReporter,
 } from "@lage-run/reporters";
 import type { ReporterInitOptions } from "../types/ReporterInitOptions.js";
+import { isRunningFromGitHubActions } from "./isRunningFromCI.js";
 import { findPackageRoot } from "workspace-tools";
 import { readFileSync } from "fs";
 import path from "path";
 
 export function createReporter(reporter: string, options: ReporterInitOptions) {
-  const { verbose, grouped, logLevel: logLevelName, concurrency, profile, progress, logFile, indented } = options;
+  const {
+    verbose,
+    grouped,
+    logLevel: logLevelName,
+    concurrency,
+    profile,
+    progress,
+    logFile,
+    indented,
+    junitFile,
+    junitGroupBy,
+    otlpEndpoint,
+    otlpFile,
+  } = options;
   const logLevel = LogLevel[logLevelName];
 
   const root = findPackageRoot(__filename)!;
@@ -40,11 +57,61 @@ export function createReporter(reporter: string, options: ReporterInitOptions) {
     case "vfl":
       return new VerboseFileLogReporter(logFile);
 
+    case "githubActions":
+      return new GithubActionsReporter({ logLevel: verbose ? LogLevel.verbose : logLevel });
+
+    case "otlp":
+      return new OtlpTraceReporter({
+        // like the OpenTelemetry SDKs, default to a collector on localhost
+        endpoint: otlpEndpoint ?? getOtlpEndpointFromEnv() ?? (otlpFile ? undefined : "http://localhost:4318/v1/traces"),
+        headers: parseOtlpHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS),
+        outputFile: otlpFile,
+        serviceVersion: version,
+      });
+
+    case "junit":
+      return new JUnitReporter({ outputFile: junitFile, groupBy: junitGroupBy });
+
     default:
       if (progress && !(logLevel >= LogLevel.verbose || verbose || grouped)) {
         return new ProgressReporter({ concurrency, version });
       }
 
+      if (isRunningFromGitHubActions) {
+        return new GithubActionsReporter({ logLevel: verbose ? LogLevel.verbose : logLevel });
+      }
+
       return new LogReporter({ grouped, logLevel: verbose ? LogLevel.verbose : logLevel });
   }
 }
+
+/**
+ * Reads the endpoint from the standard OpenTelemetry exporter environment variables
+ */
+function getOtlpEndpointFromEnv() {
+  if (process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT) {
+    return process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT;
+  }
+
+  if (process.env.OTEL_EXPORTER_OTLP_ENDPOINT) {
+    return `${process.env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/$/, "")}/v1/traces`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses headers in the format of `OTEL_EXPORTER_OTLP_HEADERS`: comma separated `key=value` pairs
+ */
+function parseOtlpHeaders(headers: string | undefined) {
+  const parsed: Record<string, string> = {};
+
+  for (const pair of (headers ?? "").split(",")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      parsed[decodeURIComponent(pair.slice(0, separator).trim())] = decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+
+  return parsed;
+}
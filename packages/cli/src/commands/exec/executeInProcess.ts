@@ -107,7 +107,7 @@ export async function executeInProcess({ cwd, args, nodeArg, logger }: ExecuteIn
   const definition = expandTargetDefinition(isGlobal ? undefined : info.name, task, pipeline, config.cacheOptions.outputGlob ?? []);
 
   const target = isGlobal ? factory.createGlobalTarget(task, definition) : factory.createPackageTarget(info.name, task, definition);
-  const pickerOptions = runnerPickerOptions(nodeArg, config.npmClient, taskArgs);
+  const pickerOptions = runnerPickerOptions(nodeArg, config.npmClient, taskArgs, config.cacheOptions);
 
   const runnerPicker = new TargetRunnerPicker(pickerOptions);
   const runner = await runnerPicker.pick(target);
@@ -3,8 +3,8 @@ import type { Logger } from "@lage-run/logger";
 import createLogger from "@lage-run/logger";
 import { initializeReporters } from "../initializeReporters.js";
 import type { ReporterInitOptions } from "../../types/ReporterInitOptions.js";
-import type { LageClient } from "@lage-run/rpc";
-import { ConnectError, createClient } from "@lage-run/rpc";
+import type { LageClient, PartialMessage, RunTargetRequest, RunTargetResponse } from "@lage-run/rpc";
+import { Code, ConnectError, createClient } from "@lage-run/rpc";
 import { filterArgsForTasks } from "../run/filterArgsForTasks.js";
 import { simulateFileAccess } from "./simulateFileAccess.js";
 import { parseServerOption } from "../parseServerOption.js";
@@ -76,11 +76,7 @@ async function executeOnServer(args: string[], client: LageClient, logger: Logge
   const { taskArgs } = filterArgsForTasks(args ?? []);
 
   try {
-    const response = await client.runTarget({
-      packageName,
-      task,
-      taskArgs,
-    });
+    const response = await runTargetStream(client, { packageName, task, taskArgs }, logger);
     logger.info(`Task ${response.packageName} ${response.task} exited with code ${response.exitCode}`);
     return response;
   } catch (error) {
@@ -92,6 +88,48 @@ async function executeOnServer(args: string[], client: LageClient, logger: Logge
   }
 }
 
+/**
+ * Runs the target on the server, writing its output as it runs. Falls back to waiting for the whole output with servers
+ * (of older lage versions) that do not stream.
+ */
+async function runTargetStream(client: LageClient, request: PartialMessage<RunTargetRequest>, logger: Logger): Promise<RunTargetResponse> {
+  try {
+    let response: RunTargetResponse | undefined;
+
+    for await (const { event } of client.runTargetStream(request)) {
+      switch (event.case) {
+        case "status":
+          logger.verbose(`Task ${request.packageName} ${request.task} is ${event.value}`);
+          break;
+        case "stdout":
+          process.stdout.write(event.value);
+          break;
+        case "stderr":
+          process.stderr.write(event.value);
+          break;
+        case "result":
+          response = event.value;
+          break;
+      }
+    }
+
+    if (!response) {
+      throw new Error("The server did not send the results of the task");
+    }
+
+    return response;
+  } catch (error) {
+    if (error instanceof ConnectError && error.code === Code.Unimplemented) {
+      const response = await client.runTarget(request);
+      process.stdout.write(response.stdout);
+      process.stderr.write(response.stderr);
+      return response;
+    }
+
+    throw error;
+  }
+}
+
 export async function executeRemotely(options: ExecRemotelyOptions, command: Command) {
   // launch a 'lage-server.js' process, detached if it is not already running
   // send the command to the server process
@@ -136,8 +174,6 @@ export async function executeRemotely(options: ExecRemotelyOptions, command: Com
   const response = await executeOnServer(args, client, logger);
 
   if (response) {
-    process.stdout.write(response.stdout);
-    process.stderr.write(response.stderr);
     process.exitCode = response.exitCode;
 
     // we will simulate file access even if exit code may be non-zero
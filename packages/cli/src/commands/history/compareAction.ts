@@ -0,0 +1,76 @@
+import { RunHistory, type RunHistoryEntry } from "@lage-run/scheduler";
+import { formatDuration } from "@lage-run/format-hrtime";
+import { getWorkspaceRoot } from "workspace-tools";
+import { compareRuns, type RunComparison } from "./compareRuns.js";
+import { renderTable } from "../renderTable.js";
+
+interface HistoryCompareOptions {
+  threshold: number;
+  minDuration: number;
+  outputFormat: "text" | "json";
+}
+
+/**
+ * Compares two recorded runs (the two most recent ones by default) and flags the targets whose duration regressed
+ */
+export async function historyCompareAction(baseId: string | undefined, headId: string | undefined, options: HistoryCompareOptions) {
+  const root = getWorkspaceRoot(process.cwd())!;
+  const history = new RunHistory({ root });
+  const ids = history.list();
+
+  const base = readEntry(history, baseId ?? ids[1]);
+  const head = readEntry(history, headId ?? ids[0]);
+
+  const comparison = compareRuns(base, head, options);
+
+  // eslint-disable-next-line no-console
+  console.log(options.outputFormat === "json" ? JSON.stringify(comparison, null, 2) : renderComparison(comparison, options.threshold));
+
+  if (comparison.regressions.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+function readEntry(history: RunHistory, id: string | undefined): RunHistoryEntry {
+  if (id === undefined) {
+    throw new Error("At least two runs must be recorded to compare them, see `lage history`.");
+  }
+
+  const entry = history.read(id);
+
+  if (!entry) {
+    throw new Error(`No run with the id "${id}" was recorded, see \`lage history\` for the recorded runs.`);
+  }
+
+  return entry;
+}
+
+function formatMs(duration: number | undefined) {
+  return duration === undefined ? "-" : formatDuration(String(duration / 1000));
+}
+
+function renderComparison(comparison: RunComparison, threshold: number) {
+  const { base, head, targets, regressions } = comparison;
+
+  const rows = [
+    ["target", "base", "head", "change", ""],
+    ...targets.map((target) => [
+      target.id,
+      target.baseStatus === "success" ? formatMs(target.baseDuration) : (target.baseStatus ?? "-"),
+      target.headStatus === "success" ? formatMs(target.headDuration) : (target.headStatus ?? "-"),
+      target.change === undefined ? "" : `${target.change > 0 ? "+" : ""}${target.change.toFixed(0)}%`,
+      target.regressed ? "regressed" : "",
+    ]),
+  ];
+
+  return [
+    `base: ${base.id} (${base.command.join(" ")}), took ${formatMs(base.duration)}`,
+    `head: ${head.id} (${head.command.join(" ")}), took ${formatMs(head.duration)}`,
+    "",
+    renderTable(rows),
+    "",
+    regressions.length > 0
+      ? `${regressions.length} target(s) took more than ${threshold}% longer: ${regressions.map((target) => target.id).join(", ")}`
+      : `No target took more than ${threshold}% longer.`,
+  ].join("\n");
+}
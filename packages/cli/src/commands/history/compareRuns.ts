@@ -0,0 +1,78 @@
+import type { RunHistoryEntry } from "@lage-run/scheduler";
+import type { TargetStatus } from "@lage-run/scheduler-types";
+
+export interface TargetComparison {
+  id: string;
+  baseStatus?: TargetStatus;
+  headStatus?: TargetStatus;
+
+  /** in milliseconds */
+  baseDuration?: number;
+  headDuration?: number;
+
+  /** how much longer (or shorter, when negative) the target took in the head run, in percent of the base run's duration */
+  change?: number;
+
+  regressed: boolean;
+}
+
+export interface RunComparison {
+  base: Omit<RunHistoryEntry, "targets">;
+  head: Omit<RunHistoryEntry, "targets">;
+  targets: TargetComparison[];
+  regressions: TargetComparison[];
+}
+
+interface CompareRunsOptions {
+  /** a target regressed when its duration grew by more than this percentage */
+  threshold: number;
+
+  /** duration changes smaller than this (in milliseconds) are never flagged */
+  minDuration: number;
+}
+
+/**
+ * Compares the targets of two recorded runs. Only targets that ran successfully in both runs have comparable durations -
+ * a cache hit, a failure or a target that was not part of one of the runs says nothing about how long the target takes.
+ */
+export function compareRuns(base: RunHistoryEntry, head: RunHistoryEntry, options: CompareRunsOptions): RunComparison {
+  const { threshold, minDuration } = options;
+  const targets: TargetComparison[] = [];
+
+  for (const id of new Set([...Object.keys(base.targets), ...Object.keys(head.targets)])) {
+    const baseTarget = base.targets[id];
+    const headTarget = head.targets[id];
+
+    const comparison: TargetComparison = {
+      id,
+      baseStatus: baseTarget?.status,
+      headStatus: headTarget?.status,
+      baseDuration: baseTarget?.duration,
+      headDuration: headTarget?.duration,
+      regressed: false,
+    };
+
+    if (baseTarget?.status === "success" && headTarget?.status === "success" && baseTarget.duration > 0) {
+      const difference = headTarget.duration - baseTarget.duration;
+
+      comparison.change = (difference / baseTarget.duration) * 100;
+      comparison.regressed = comparison.change > threshold && difference >= minDuration;
+    }
+
+    targets.push(comparison);
+  }
+
+  targets.sort((a, b) => (b.change ?? -Infinity) - (a.change ?? -Infinity) || a.id.localeCompare(b.id));
+
+  return {
+    base: getRunInfo(base),
+    head: getRunInfo(head),
+    targets,
+    regressions: targets.filter((target) => target.regressed),
+  };
+}
+
+function getRunInfo(entry: RunHistoryEntry): Omit<RunHistoryEntry, "targets"> {
+  const { id, timestamp, command, results, duration, workerRestarts, maxWorkerMemoryUsage } = entry;
+  return { id, timestamp, command, results, duration, workerRestarts, maxWorkerMemoryUsage };
+}
@@ -0,0 +1,27 @@
+import { Command } from "commander";
+import { historyListAction } from "./listAction.js";
+import { historyCompareAction } from "./compareAction.js";
+import { addOptions } from "../addOptions.js";
+
+const command = new Command("history");
+command.description("lists and compares the runs recorded in node_modules/.cache/lage/history");
+
+const listCommand = new Command("list");
+
+addOptions("history", listCommand);
+listCommand.description("lists the most recent runs").action(historyListAction);
+
+command.addCommand(listCommand, { isDefault: true });
+
+const compareCommand = new Command("compare");
+
+addOptions("historyCompare", compareCommand);
+compareCommand
+  .description("compares the target durations of two runs, flagging the targets that regressed")
+  .argument("[base]", "id of the run to compare against (defaults to the second most recent run)")
+  .argument("[head]", "id of the run to compare (defaults to the most recent run)")
+  .action(historyCompareAction);
+
+command.addCommand(compareCommand);
+
+export { command as historyCommand };
@@ -0,0 +1,55 @@
+import { RunHistory, type RunHistoryEntry } from "@lage-run/scheduler";
+import { formatDuration } from "@lage-run/format-hrtime";
+import { getWorkspaceRoot } from "workspace-tools";
+import { renderTable } from "../renderTable.js";
+
+interface HistoryListOptions {
+  limit: number;
+  outputFormat: "text" | "json";
+}
+
+/**
+ * Lists the most recent runs recorded by `lage run` in `node_modules/.cache/lage/history`
+ */
+export async function historyListAction(options: HistoryListOptions) {
+  const root = getWorkspaceRoot(process.cwd())!;
+  const history = new RunHistory({ root });
+
+  const entries = history
+    .list()
+    .slice(0, options.limit)
+    .map((id) => history.read(id))
+    .filter((entry): entry is RunHistoryEntry => entry !== undefined);
+
+  if (options.outputFormat === "json") {
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  if (entries.length === 0) {
+    // eslint-disable-next-line no-console
+    console.log("No runs have been recorded yet.");
+    return;
+  }
+
+  const rows = [
+    ["id", "date", "command", "result", "duration", "targets", "cache hits", "worker restarts"],
+    ...entries.map((entry) => {
+      const targets = Object.values(entry.targets);
+      return [
+        entry.id,
+        new Date(entry.timestamp).toLocaleString(),
+        entry.command.join(" "),
+        entry.results,
+        formatDuration(String(entry.duration / 1000)),
+        String(targets.length),
+        String(targets.filter((target) => target.status === "skipped").length),
+        String(entry.workerRestarts),
+      ];
+    }),
+  ];
+
+  // eslint-disable-next-line no-console
+  console.log(renderTable(rows));
+}
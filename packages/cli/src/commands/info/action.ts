@@ -5,7 +5,7 @@ import type { ConfigOptions } from "@lage-run/config";
 import { getConfig } from "@lage-run/config";
 import { type PackageInfos, getPackageInfos, getWorkspaceRoot } from "workspace-tools";
 import { getFilteredPackages } from "../../filter/getFilteredPackages.js";
-import createLogger from "@lage-run/logger";
+import createLogger, { type Logger } from "@lage-run/logger";
 import path from "path";
 import fs from "fs";
 import { parse } from "shell-quote";
@@ -21,6 +21,9 @@ import { optimizeTargetGraph } from "../../optimizeTargetGraph.js";
 import { glob } from "@lage-run/globby";
 import { FileHasher, hashStrings } from "@lage-run/hasher";
 import { getGlobalInputHashFilePath } from "../targetHashFilePath.js";
+import { getDurationWeights } from "../run/getDurationWeights.js";
+import { RunHistory } from "@lage-run/scheduler";
+import { getTargetCacheStatuses, renderTargetGraph, type TargetGraphColorBy, type TargetGraphFormat } from "./renderTargetGraph.js";
 
 export interface InfoActionOptions extends ReporterInitOptions {
   dependencies: boolean;
@@ -34,6 +37,8 @@ export interface InfoActionOptions extends ReporterInitOptions {
   server: string;
   outputFile?: string;
   optimizeGraph: boolean;
+  format: "json" | TargetGraphFormat;
+  colorBy?: TargetGraphColorBy;
 }
 
 interface PackageTask {
@@ -123,6 +128,9 @@ export async function infoAction(options: InfoActionOptions, command: Command) {
     packageInfos,
     priorities: config.priorities,
     enableTargetConfigMerging: config.enableTargetConfigMerging,
+    // the critical path of the graph formats follows the same priorities as `lage run`
+    priorityWeights:
+      options.format !== "json" ? getDurationWeights({ root, logger, durationPriority: config.durationPriority }) : undefined,
   });
 
   const scope = getFilteredPackages({
@@ -149,6 +157,20 @@ export async function infoAction(options: InfoActionOptions, command: Command) {
   const createBackwardsCompatGraph = process.env["DOMINO"] === "1" || !options.optimizeGraph;
 
   const optimizedTargets = await optimizeTargetGraph(targetGraph, runnerPicker, createBackwardsCompatGraph);
+
+  if (options.format !== "json") {
+    const history = new RunHistory({ root });
+    const lastRunId = options.colorBy === "cache" ? history.list()[0] : undefined;
+    const graph = renderTargetGraph(optimizedTargets, {
+      format: options.format,
+      colorBy: options.colorBy,
+      cacheStatuses: lastRunId ? getTargetCacheStatuses(optimizedTargets, history.read(lastRunId)) : undefined,
+    });
+
+    await writeOutput(graph, options.outputFile, logger);
+    return;
+  }
+
   const binPaths = getBinPaths();
   const packageTasks = optimizedTargets.map((target) =>
     generatePackageTask(target, taskArgs, config, options, binPaths, packageInfos, tasks)
@@ -213,18 +235,26 @@ export async function infoAction(options: InfoActionOptions, command: Command) {
   };
 
   if (options.outputFile) {
-    const parentFolder = path.dirname(options.outputFile);
-    if (!fs.existsSync(parentFolder)) {
-      await fs.promises.mkdir(parentFolder, { recursive: true });
-    }
-    const infoJson = JSON.stringify(infoResult, null, options.verbose ? 2 : undefined);
-    await fs.promises.writeFile(options.outputFile, infoJson);
-    logger.info(`Wrote info to file: ${options.outputFile}`);
+    await writeOutput(JSON.stringify(infoResult, null, options.verbose ? 2 : undefined), options.outputFile, logger);
   } else {
     logger.info("info", infoResult);
   }
 }
 
+async function writeOutput(output: string, outputFile: string | undefined, logger: Logger) {
+  if (!outputFile) {
+    process.stdout.write(output);
+    return;
+  }
+
+  const parentFolder = path.dirname(outputFile);
+  if (!fs.existsSync(parentFolder)) {
+    await fs.promises.mkdir(parentFolder, { recursive: true });
+  }
+  await fs.promises.writeFile(outputFile, output);
+  logger.info(`Wrote info to file: ${outputFile}`);
+}
+
 export function generatePackageTask(
   target: Target,
   taskArgs: string[],
@@ -304,7 +334,8 @@ function generateCommand(
 
     command.push(...taskArgs);
     return command;
-  } else if (target.type === "worker") {
+  } else if (target.type === "worker" || target.type === "command") {
+    // "lage exec" runs commands with the env of the target options and the LAGE_* variables, just like "lage run"
     const command = [binPaths.lage, "exec"];
     command.push(target.packageName ?? "");
     command.push(target.task);
@@ -0,0 +1,344 @@
+import type { RunHistoryEntry } from "@lage-run/scheduler";
+import { getStartTargetId, type Target } from "@lage-run/target-graph";
+
+export type TargetGraphFormat = "dot" | "mermaid" | "html";
+
+export type TargetGraphColorBy = "task" | "cache";
+
+/** how a target fared with the cache in the last run: "hit" when it was skipped, "miss" when it ran */
+export type TargetCacheStatus = "hit" | "miss" | "failed" | "uncacheable" | "unknown";
+
+export interface RenderTargetGraphOptions {
+  format: TargetGraphFormat;
+  colorBy?: TargetGraphColorBy;
+
+  /** needed to color by cache status, see `getTargetCacheStatuses()` */
+  cacheStatuses?: Map<string, TargetCacheStatus>;
+}
+
+interface GraphNode {
+  id: string;
+  packageName: string;
+  task: string;
+  dependencies: string[];
+  priority: number;
+  cacheStatus?: TargetCacheStatus;
+  color?: string;
+  critical: boolean;
+  /** the dependency that comes before the target on the critical path */
+  criticalDependency?: string;
+}
+
+const taskColors = ["#aec7e8", "#ffbb78", "#98df8a", "#ff9896", "#c5b0d5", "#c49c94", "#f7b6d2", "#dbdb8d", "#9edae5", "#c7c7c7"];
+
+const cacheStatusColors: Record<TargetCacheStatus, string> = {
+  hit: "#98df8a",
+  miss: "#ffbb78",
+  failed: "#ff9896",
+  uncacheable: "#c7c7c7",
+  unknown: "#ffffff",
+};
+
+const criticalPathColor = "#d62728";
+
+/**
+ * Gets the cache status of the targets from the last recorded run (see `RunHistory`)
+ */
+export function getTargetCacheStatuses(targets: Target[], lastRun: RunHistoryEntry | undefined): Map<string, TargetCacheStatus> {
+  const statuses = new Map<string, TargetCacheStatus>();
+
+  for (const target of targets) {
+    const status = lastRun?.targets[target.id]?.status;
+
+    if (target.cache === false) {
+      statuses.set(target.id, "uncacheable");
+    } else if (status === "skipped") {
+      statuses.set(target.id, "hit");
+    } else if (status === "success") {
+      statuses.set(target.id, "miss");
+    } else if (status === "failed" || status === "timedOut" || status === "aborted") {
+      statuses.set(target.id, "failed");
+    } else {
+      statuses.set(target.id, "unknown");
+    }
+  }
+
+  return statuses;
+}
+
+/**
+ * Gets the critical path of the graph as computed by `prioritize()`: starting from the target with the highest cumulative priority,
+ * follows the dependent with the highest cumulative priority. Ties (e.g. when no target has a priority) go to the longest chain.
+ *
+ * @returns the ids of the targets on the critical path, in the order they would run
+ */
+export function getCriticalPath(targets: Target[]): string[] {
+  const ids = new Set(targets.map((target) => target.id));
+  const dependents = new Map<string, string[]>(targets.map((target) => [target.id, []]));
+
+  for (const target of targets) {
+    for (const dependency of target.dependencies) {
+      if (ids.has(dependency)) {
+        dependents.get(dependency)!.push(target.id);
+      }
+    }
+  }
+
+  const priorities = new Map(targets.map((target) => [target.id, target.priority ?? 0]));
+  const chainLengths = new Map<string, number>();
+
+  const getChainLength = (id: string): number => {
+    if (!chainLengths.has(id)) {
+      chainLengths.set(id, 1 + Math.max(0, ...dependents.get(id)!.map(getChainLength)));
+    }
+
+    return chainLengths.get(id)!;
+  };
+
+  const compare = (a: string, b: string) =>
+    priorities.get(b)! - priorities.get(a)! || getChainLength(b) - getChainLength(a) || a.localeCompare(b);
+
+  const path: string[] = [];
+  let next = [...ids].sort(compare)[0];
+
+  while (next !== undefined) {
+    path.push(next);
+    next = [...dependents.get(next)!].sort(compare)[0];
+  }
+
+  return path;
+}
+
+function getGraphNodes(targets: Target[], options: RenderTargetGraphOptions): GraphNode[] {
+  const visibleTargets = targets.filter((target) => target.id !== getStartTargetId()).sort((a, b) => a.id.localeCompare(b.id));
+  const ids = new Set(visibleTargets.map((target) => target.id));
+  const criticalPath = getCriticalPath(visibleTargets);
+  const tasks = [...new Set(visibleTargets.map((target) => target.task))].sort();
+
+  return visibleTargets.map((target) => {
+    const cacheStatus = options.cacheStatuses?.get(target.id);
+    let color: string | undefined;
+
+    if (options.colorBy === "task") {
+      color = taskColors[tasks.indexOf(target.task) % taskColors.length];
+    } else if (options.colorBy === "cache") {
+      color = cacheStatusColors[cacheStatus ?? "unknown"];
+    }
+
+    return {
+      id: target.id,
+      packageName: target.packageName ?? "",
+      task: target.task,
+      dependencies: target.dependencies.filter((dependency) => ids.has(dependency)),
+      priority: target.priority ?? 0,
+      cacheStatus,
+      color,
+      critical: criticalPath.includes(target.id),
+      criticalDependency: criticalPath[criticalPath.indexOf(target.id) - 1],
+    };
+  });
+}
+
+function renderDot(nodes: GraphNode[]) {
+  const lines = ["digraph targets {", '  node [shape=box, style="rounded,filled", fillcolor="#ffffff"];'];
+
+  for (const node of nodes) {
+    const attributes = [`label=${JSON.stringify(node.id)}`];
+    if (node.color) {
+      attributes.push(`fillcolor="${node.color}"`);
+    }
+    if (node.critical) {
+      attributes.push(`color="${criticalPathColor}"`, "penwidth=2");
+    }
+    lines.push(`  ${JSON.stringify(node.id)} [${attributes.join(", ")}];`);
+  }
+
+  for (const node of nodes) {
+    for (const dependency of node.dependencies) {
+      const attributes = node.criticalDependency === dependency ? ` [color="${criticalPathColor}", penwidth=2]` : "";
+      lines.push(`  ${JSON.stringify(node.id)} -> ${JSON.stringify(dependency)}${attributes};`);
+    }
+  }
+
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+function renderMermaid(nodes: GraphNode[]) {
+  const mermaidIds = new Map(nodes.map((node, index) => [node.id, `t${index}`]));
+  const lines = ["graph LR"];
+  const styles: string[] = [];
+
+  for (const node of nodes) {
+    const mermaidId = mermaidIds.get(node.id)!;
+    lines.push(`  ${mermaidId}["${node.id.replace(/"/g, "#quot;")}"]`);
+
+    const style = [node.color && `fill:${node.color}`, node.critical && `stroke:${criticalPathColor},stroke-width:3px`].filter(Boolean);
+    if (style.length > 0) {
+      styles.push(`  style ${mermaidId} ${style.join(",")}`);
+    }
+  }
+
+  let edgeIndex = 0;
+  for (const node of nodes) {
+    for (const dependency of node.dependencies) {
+      lines.push(`  ${mermaidIds.get(node.id)} --> ${mermaidIds.get(dependency)}`);
+      if (node.criticalDependency === dependency) {
+        styles.push(`  linkStyle ${edgeIndex} stroke:${criticalPathColor},stroke-width:3px`);
+      }
+      edgeIndex++;
+    }
+  }
+
+  return [...lines, ...styles].join("\n") + "\n";
+}
+
+const htmlStyle = `
+  body { font-family: sans-serif; margin: 0; display: flex; height: 100vh; }
+  aside { width: 260px; padding: 12px; border-right: 1px solid #ddd; overflow: auto; flex-shrink: 0; }
+  aside h2 { font-size: 14px; margin: 16px 0 6px; }
+  aside select { width: 100%; }
+  aside label { display: block; font-size: 13px; }
+  main { flex: 1; overflow: auto; }
+  .node rect { stroke: #666; rx: 6; }
+  .node text { font-size: 12px; dominant-baseline: middle; }
+  .edge { stroke: #999; fill: none; marker-end: url(#arrow); }
+  .critical-path .node.critical rect { stroke: ${criticalPathColor}; stroke-width: 3; }
+  .critical-path .edge.critical { stroke: ${criticalPathColor}; stroke-width: 2.5; }
+  .hidden { display: none; }
+`;
+
+// renders the graph in layers (a target is placed right of all its dependencies), hiding the targets that are filtered out
+const htmlScript = `
+  const nodes = JSON.parse(document.getElementById("graph-data").textContent);
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const layers = new Map();
+  const getLayer = (node) => {
+    if (!layers.has(node.id)) {
+      layers.set(node.id, 1 + Math.max(-1, ...node.dependencies.map((id) => getLayer(byId.get(id)))));
+    }
+    return layers.get(node.id);
+  };
+  const rows = [];
+  for (const node of nodes) {
+    const layer = getLayer(node);
+    rows[layer] = (rows[layer] || 0) + 1;
+    node.x = 20 + layer * 260;
+    node.y = 20 + (rows[layer] - 1) * 40;
+  }
+
+  const svgNs = "http://www.w3.org/2000/svg";
+  const svg = document.getElementById("graph");
+  svg.setAttribute("width", 40 + rows.length * 260);
+  svg.setAttribute("height", 40 + Math.max(0, ...rows) * 40);
+  const create = (name, attributes, parent) => {
+    const element = document.createElementNS(svgNs, name);
+    for (const [key, value] of Object.entries(attributes)) element.setAttribute(key, value);
+    parent.appendChild(element);
+    return element;
+  };
+
+  const edges = [];
+  for (const node of nodes) {
+    for (const id of node.dependencies) {
+      const dependency = byId.get(id);
+      const path = create("path", {
+        class: "edge" + (node.criticalDependency === id ? " critical" : ""),
+        d: "M" + node.x + "," + (node.y + 14) + " C" + (node.x - 20) + "," + (node.y + 14) + " " +
+          (dependency.x + 240) + "," + (dependency.y + 14) + " " + (dependency.x + 220) + "," + (dependency.y + 14),
+      }, svg);
+      edges.push({ path, from: node, to: dependency });
+    }
+  }
+
+  for (const node of nodes) {
+    node.element = create("g", { class: "node" + (node.critical ? " critical" : ""), transform: "translate(" + node.x + "," + node.y + ")" }, svg);
+    create("rect", { width: 220, height: 28, fill: node.color || "#ffffff" }, node.element);
+    create("text", { x: 8, y: 14 }, node.element).textContent = node.id;
+    create("title", {}, node.element).textContent =
+      node.id + "\\npriority: " + node.priority + (node.cacheStatus ? "\\ncache: " + node.cacheStatus : "");
+  }
+
+  const packageSelect = document.getElementById("packages");
+  for (const packageName of [...new Set(nodes.map((node) => node.packageName))].sort()) {
+    const option = document.createElement("option");
+    option.value = option.textContent = packageName;
+    packageSelect.appendChild(option);
+  }
+
+  const taskList = document.getElementById("tasks");
+  for (const task of [...new Set(nodes.map((node) => node.task))].sort()) {
+    const label = document.createElement("label");
+    label.innerHTML = '<input type="checkbox" checked> ';
+    label.firstChild.value = task;
+    label.appendChild(document.createTextNode(task));
+    taskList.appendChild(label);
+  }
+
+  const update = () => {
+    const packages = [...packageSelect.selectedOptions].map((option) => option.value);
+    const tasks = [...taskList.querySelectorAll("input:checked")].map((input) => input.value);
+    for (const node of nodes) {
+      node.visible = (packages.length === 0 || packages.includes(node.packageName)) && tasks.includes(node.task);
+      node.element.classList.toggle("hidden", !node.visible);
+    }
+    for (const edge of edges) {
+      edge.path.classList.toggle("hidden", !edge.from.visible || !edge.to.visible);
+    }
+    svg.classList.toggle("critical-path", document.getElementById("critical-path").checked);
+  };
+
+  document.querySelector("aside").addEventListener("change", update);
+  update();
+`;
+
+function renderHtml(nodes: GraphNode[]) {
+  // keep the data from closing the script tag it is embedded in
+  const data = JSON.stringify(nodes).replace(/</g, "\\u003c");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>lage target graph</title>
+<style>${htmlStyle}</style>
+</head>
+<body>
+<aside>
+  <h2>Packages</h2>
+  <select id="packages" multiple size="10"></select>
+  <h2>Tasks</h2>
+  <div id="tasks"></div>
+  <h2>Critical path</h2>
+  <label><input type="checkbox" id="critical-path" checked> Highlight the critical path</label>
+</aside>
+<main>
+<svg id="graph" xmlns="http://www.w3.org/2000/svg">
+  <defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+    <path d="M 0 0 L 10 5 L 0 10 z" fill="#999"></path>
+  </marker></defs>
+</svg>
+</main>
+<script type="application/json" id="graph-data">${data}</script>
+<script>${htmlScript}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Renders the (optimized) target graph as a GraphViz DOT file, a Mermaid flowchart or a self-contained HTML page. The critical path is
+ * highlighted in all of them, and the targets are optionally colored by task or by cache status.
+ */
+export function renderTargetGraph(targets: Target[], options: RenderTargetGraphOptions): string {
+  const nodes = getGraphNodes(targets, options);
+
+  switch (options.format) {
+    case "dot":
+      return renderDot(nodes);
+    case "mermaid":
+      return renderMermaid(nodes);
+    case "html":
+      return renderHtml(nodes);
+  }
+}
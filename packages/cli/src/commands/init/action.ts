@@ -1,5 +1,5 @@
 /* eslint-disable no-console -- logger doesn't work in this context */
-import { readConfigFile } from "@lage-run/config";
+import { findConfigFile } from "@lage-run/config";
 import fs from "fs";
 import path from "path";
 import execa from "execa";
@@ -9,8 +9,8 @@ type WorkspaceManager = "rush" | "pnpm" | "yarn" | "npm";
 export async function initAction() {
   const cwd = process.cwd();
 
-  const config = await readConfigFile(cwd);
-  if (config) {
+  const configFile = await findConfigFile(cwd);
+  if (configFile?.config) {
     console.error("lage is already initialized in this workspace");
     process.exitCode = 1;
     return;
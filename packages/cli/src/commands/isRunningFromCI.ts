@@ -1 +1,3 @@
 export const isRunningFromCI = process.env.NODE_ENV !== "test" && (!!process.env.CI || !!process.env.TF_BUILD);
+
+export const isRunningFromGitHubActions = process.env.NODE_ENV !== "test" && !!process.env.GITHUB_ACTIONS;
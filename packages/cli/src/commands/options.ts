@@ -1,7 +1,15 @@
-import { Option } from "commander";
+import { InvalidArgumentError, Option } from "commander";
 
 const isCI = process.env.CI || process.env.TF_BUILD;
 
+function parsePositiveNumber(value: string) {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError("Expected a positive number.");
+  }
+  return parsed;
+}
+
 const options = {
   logger: {
     reporter: new Option("--reporter <reporter...>", "reporter"),
@@ -9,12 +17,31 @@ const options = {
     progress: new Option("--progress").conflicts(["reporter", "grouped", "verbose"]).default(!isCI),
     logLevel: new Option("--log-level <level>", "log level").choices(["info", "warn", "error", "verbose", "silly"]).conflicts("verbose"),
     logFile: new Option("--log-file <file>", "when used with --reporter vfl, writes verbose, ungrouped logs to the specified file"),
+    junitFile: new Option(
+      "--junit-file <file>",
+      "when used with --reporter junit, writes the JUnit XML report to the specified file (default: junit.xml)"
+    ),
+    junitGroupBy: new Option(
+      "--junit-group-by <group>",
+      "when used with --reporter junit, groups the test cases into test suites by package or by task"
+    )
+      .choices(["package", "task"])
+      .default("package"),
+    otlpEndpoint: new Option(
+      "--otlp-endpoint <url>",
+      "when used with --reporter otlp, sends the trace to this OTLP/HTTP endpoint (default: $OTEL_EXPORTER_OTLP_TRACES_ENDPOINT, or http://localhost:4318/v1/traces)"
+    ),
+    otlpFile: new Option("--otlp-file <file>", "when used with --reporter otlp, writes the trace as OTLP/JSON to the specified file"),
     verbose: new Option("--verbose", "verbose output").default(false),
     indented: new Option("--indented", "enabled indentation of the JSON output").default(false),
   },
   pool: {
     concurrency: new Option("-c|--concurrency <number>", "max jobs to run at a time").argParser((v) => parseInt(v)),
     continue: new Option("--continue", "continue running even after encountering an error for one of the targets"),
+    targetTimeout: new Option(
+      "--target-timeout <ms>",
+      "aborts any target that runs longer than <ms> milliseconds (targets can override this with their own timeout)"
+    ).argParser((v) => parseInt(v)),
     maxWorkersPerTask: new Option(
       "--max-workers-per-task <maxWorkersPerTarget...>",
       "set max worker per task, e.g. --max-workers-per-task build=2 test=4"
@@ -34,6 +61,8 @@ const options = {
     continue: new Option("--continue", "continues the run even on error"),
     allowNoTargetRuns: new Option("--allow-no-target-runs"),
     watch: new Option("--watch", "runs in watch mode"),
+    dryRun: new Option("--dry-run", "prints the execution order and predicted cache hits of the targets without running them"),
+    dryRunFormat: new Option("--dry-run-format <format>", "output format of --dry-run").choices(["text", "json"]).default("text"),
   },
   server: {
     server: new Option("--server [host:port]", "Run targets of type 'worker' on a background service"),
@@ -66,11 +95,58 @@ const options = {
   },
   cache: {
     prune: new Option("--prune <days>", "Prunes cache older than certain number of <days>").argParser(parseInt).conflicts("--clear"),
+    pruneSize: new Option("--prune-size <GB>", "Evicts the least recently used cache entries until the local cache is smaller than <GB>")
+      .argParser(parsePositiveNumber)
+      .conflicts(["clear", "prune"]),
     clear: new Option("--clear", "Clears the cache locally"),
   },
+  cacheList: {
+    package: new Option("--package <names...>", "only lists the entries of these packages"),
+    task: new Option("--task <names...>", "only lists the entries of these tasks"),
+    outputFormat: new Option("--output-format <format>", "output format").choices(["text", "json"]).default("text"),
+  },
+  cacheStats: {
+    outputFormat: new Option("--output-format <format>", "output format").choices(["text", "json"]).default("text"),
+  },
+  cacheServer: {
+    server: new Option("--server <host:port>", "host and port for the HTTP cache server to listen on").default("localhost:5340"),
+    cacheDir: new Option("--cache-dir <dir>", "directory where the HTTP cache server stores artifacts").default(
+      "node_modules/.cache/lage/http-cache"
+    ),
+    token: new Option("--token <token>", "bearer token that clients must present (no authentication when unset)"),
+  },
   info: {
-    outputFile: new Option("-o|--output-file <file>", "Output the target graph as json to the specified file."),
+    outputFile: new Option("-o|--output-file <file>", "Output the target graph to the specified file."),
     noOptimizeGraph: new Option("--no-optimize-graph", "Do not optimize the target graph"),
+    format: new Option(
+      "--format <format>",
+      "output format: the json consumed by other task runners, or the target graph as a GraphViz .dot file, a Mermaid flowchart or an html page"
+    )
+      .choices(["json", "dot", "mermaid", "html"])
+      .default("json"),
+    colorBy: new Option(
+      "--color-by <mode>",
+      "colors the targets of the dot, mermaid and html formats by task, or by cache status in the last run"
+    ).choices(["task", "cache"]),
+  },
+  history: {
+    limit: new Option("--limit <number>", "number of recent runs to list").default(10).argParser((v) => parseInt(v)),
+    outputFormat: new Option("--output-format <format>", "output format").choices(["text", "json"]).default("text"),
+  },
+  historyCompare: {
+    threshold: new Option(
+      "--threshold <percent>",
+      "flags targets whose duration grew by more than <percent> percent between the compared runs"
+    )
+      .default(100)
+      .argParser((v) => parseFloat(v)),
+    minDuration: new Option("--min-duration <ms>", "ignores duration changes smaller than <ms> milliseconds, which are mostly noise")
+      .default(1000)
+      .argParser((v) => parseInt(v)),
+    outputFormat: new Option("--output-format <format>", "output format").choices(["text", "json"]).default("text"),
+  },
+  configPrint: {
+    outputFormat: new Option("--output-format <format>", "output format").choices(["text", "json"]).default("text"),
   },
 } as const;
 
@@ -0,0 +1,21 @@
+/**
+ * Renders rows as a plain text table, with the first row as the header
+ */
+export function renderTable(rows: string[][]) {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  const lines = rows.map((row) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join("  ")
+      .trimEnd()
+  );
+
+  return [
+    lines[0],
+    widths
+      .map((width) => "-".repeat(width))
+      .join("  ")
+      .trimEnd(),
+    ...lines.slice(1),
+  ].join("\n");
+}
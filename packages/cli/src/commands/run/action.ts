@@ -1,5 +1,6 @@
 import { runAction } from "./runAction.js";
 import { watchAction } from "./watchAction.js";
+import { dryRunAction } from "./dryRunAction.js";
 import type { Command } from "commander";
 import type { ReporterInitOptions } from "../../types/ReporterInitOptions.js";
 
@@ -13,18 +14,23 @@ interface RunOptions extends ReporterInitOptions {
   scope: string[];
   skipLocalCache: boolean;
   continue: boolean;
+  targetTimeout?: number;
   cache: boolean;
   resetCache: boolean;
   nodeArg: string;
   ignore: string[];
   watch: boolean;
+  dryRun: boolean;
+  dryRunFormat: "text" | "json";
   info: boolean;
   maxWorkersPerTask: string[];
   allowNoTargetRuns: boolean;
 }
 
 export async function action(options: RunOptions, command: Command) {
-  if (options.watch) {
+  if (options.dryRun) {
+    return dryRunAction(options, command);
+  } else if (options.watch) {
     return watchAction(options, command);
   } else {
     return runAction(options, command);
@@ -0,0 +1,99 @@
+import type { TargetHasher } from "@lage-run/hasher";
+import { getExecutionOrder, getStartTargetId, type Target } from "@lage-run/target-graph";
+
+export type CachePrediction = "hit" | "miss" | "unknown" | "disabled";
+
+export interface DryRunTarget {
+  id: string;
+  label: string;
+  packageName?: string;
+  task: string;
+
+  /** position in the execution order, starting at 1 */
+  order: number;
+
+  /** targets of the same level only depend on targets of the previous levels, so they may run in parallel */
+  level: number;
+
+  priority: number;
+  weight: number;
+
+  /** targets are grouped by task in the worker pool, each group is limited to `maxWorkers` at a time */
+  workerGroup: string;
+  maxWorkers: number;
+
+  dependencies: string[];
+  hash?: string;
+  cache: CachePrediction;
+}
+
+export interface DryRunPlan {
+  targets: DryRunTarget[];
+  summary: Record<CachePrediction, number> & { total: number };
+}
+
+interface CreateDryRunPlanOptions {
+  targets: Map<string, Target>;
+  hasher: Pick<TargetHasher, "hash">;
+  concurrency: number;
+  maxWorkersPerTask: Map<string, number>;
+
+  /** set when caching is disabled for the whole run (e.g. --no-cache) */
+  shouldCache: boolean;
+
+  /** predicts whether the cache has entries for the hashes (all at once, so that remote lookups can be batched), without restoring them */
+  predictCacheHits: (hashes: string[]) => Promise<Map<string, CachePrediction>>;
+}
+
+/**
+ * Computes the plan of a run without running anything: the execution order, how targets are scheduled on the worker pool,
+ * and whether each target is predicted to be a cache hit.
+ */
+export async function createDryRunPlan(options: CreateDryRunPlanOptions): Promise<DryRunPlan> {
+  const { targets, hasher, concurrency, maxWorkersPerTask, shouldCache, predictCacheHits } = options;
+
+  const plan: DryRunPlan = {
+    targets: [],
+    summary: { total: 0, hit: 0, miss: 0, unknown: 0, disabled: 0 },
+  };
+
+  const levels = getExecutionOrder([...targets.values()]);
+  const hashes = new Map<string, string>();
+
+  // levels are in topological order, so the hashes of the dependencies are known by the time a target is hashed
+  for (const target of levels.flat()) {
+    if (shouldCache && target.cache) {
+      hashes.set(target.id, await hasher.hash(target));
+    }
+  }
+
+  const predictions = await predictCacheHits([...new Set(hashes.values())]);
+
+  for (const [level, levelTargets] of levels.entries()) {
+    for (const target of levelTargets) {
+      const hash = hashes.get(target.id);
+      const cache: CachePrediction = hash ? (predictions.get(hash) ?? "unknown") : "disabled";
+
+      plan.targets.push({
+        id: target.id,
+        label: target.label,
+        packageName: target.packageName,
+        task: target.task,
+        order: plan.targets.length + 1,
+        level: level + 1,
+        priority: target.priority ?? 0,
+        weight: target.weight ?? 1,
+        workerGroup: target.task,
+        maxWorkers: maxWorkersPerTask.get(target.task) ?? concurrency,
+        dependencies: target.dependencies.filter((dependency) => dependency !== getStartTargetId()),
+        hash,
+        cache,
+      });
+
+      plan.summary.total++;
+      plan.summary[cache]++;
+    }
+  }
+
+  return plan;
+}
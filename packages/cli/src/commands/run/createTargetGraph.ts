@@ -3,8 +3,9 @@ import { WorkspaceTargetGraphBuilder } from "@lage-run/target-graph";
 import type { PackageInfos } from "workspace-tools";
 import { getBranchChanges, getDefaultRemoteBranch, getStagedChanges, getUnstagedChanges, getUntrackedChanges } from "workspace-tools";
 import { getFilteredPackages } from "../../filter/getFilteredPackages.js";
-import type { PipelineDefinition, Priority } from "@lage-run/config";
+import { readPackageConfigs, type PipelineDefinition, type Priority } from "@lage-run/config";
 import { hasRepoChanged } from "../../filter/hasRepoChanged.js";
+import path from "path";
 
 interface CreateTargetGraphOptions {
   logger: Logger;
@@ -21,6 +22,9 @@ interface CreateTargetGraphOptions {
   packageInfos: PackageInfos;
   priorities: Priority[];
   enableTargetConfigMerging: boolean;
+
+  /** weights for targets (e.g. their past durations), accumulated along the critical path to order targets of equal priority */
+  priorityWeights?: Map<string, number>;
 }
 
 function getChangedFiles(since: string, cwd: string) {
@@ -38,7 +42,12 @@ function getChangedFiles(since: string, cwd: string) {
   return changes;
 }
 
-export async function createTargetGraph(options: CreateTargetGraphOptions) {
+/**
+ * Registers the pipeline entries of the lage config and of the package.json files with a target graph builder, without building the graph
+ *
+ * @returns the builder, and the packages that the graph should be scoped to
+ */
+export async function createTargetGraphBuilder(options: Omit<CreateTargetGraphOptions, "tasks" | "priorities" | "priorityWeights">) {
   const {
     logger,
     root,
@@ -51,9 +60,7 @@ export async function createTargetGraph(options: CreateTargetGraphOptions) {
     ignore,
     pipeline,
     outputs,
-    tasks,
     packageInfos,
-    priorities,
   } = options;
 
   const builder = new WorkspaceTargetGraphBuilder(root, packageInfos, enableTargetConfigMerging);
@@ -80,27 +87,29 @@ export async function createTargetGraph(options: CreateTargetGraphOptions) {
     }
   }
 
-  const pipelineEntries = Object.entries(pipeline);
+  const pipelineEntries: [string, PipelineDefinition[string], string?][] = Object.entries(pipeline);
 
-  // Add lage pipeline configuration in the package.json files.
-  // They are configured in the lage field, but without the package id.
+  // Add the lage pipeline configuration of the packages: in the lage field of their package.json, or in a lage.config.js next to it.
+  // They are configured without the package id.
   // i.e. having this package.json
   //    { "name": "@lage-run/globby", "lage": { "transpile": { type: "npmScript" } }}
+  // or this packages/globby/lage.config.js
+  //    module.exports = { pipeline: { "transpile": { type: "npmScript" } } }
   // is equivalent to having the following in lage.config.js
   // { pipeline: { "@lage-run/globby#transpile": { type: "npmScript" } }
   // We conciously add these 'after' the ones in lage.config.js
-  // to indicate that the more specific package.json definition takes
+  // to indicate that the more specific package definitions take
   //  precedence over the global lage.config.js.
-  for (const [packageId, packageInfo] of Object.entries(packageInfos)) {
-    const packageLageDefinition = packageInfo.lage as PipelineDefinition;
-    if (packageLageDefinition) {
-      for (const [id, definition] of Object.entries(packageLageDefinition)) {
-        pipelineEntries.push([packageId + "#" + id, definition]);
-      }
+  for (const { packageName, filepath, pipeline: packagePipeline } of await readPackageConfigs(root, packageInfos)) {
+    const source = path.relative(root, filepath);
+    logger.verbose(`Using the pipeline overrides of ${packageName} from ${source}`);
+
+    for (const [id, definition] of Object.entries(packagePipeline)) {
+      pipelineEntries.push([packageName + "#" + id, definition, source]);
     }
   }
 
-  for (const [id, definition] of pipelineEntries) {
+  for (const [id, definition, source] of pipelineEntries) {
     if (Array.isArray(definition)) {
       builder.addTargetConfig(
         id,
@@ -110,12 +119,20 @@ export async function createTargetGraph(options: CreateTargetGraphOptions) {
           options: {},
           outputs,
         },
-        changedFiles
+        changedFiles,
+        source
       );
     } else {
-      builder.addTargetConfig(id, definition, changedFiles);
+      builder.addTargetConfig(id, definition, changedFiles, source);
     }
   }
 
-  return await builder.build(tasks, packages, priorities);
+  return { builder, packages };
+}
+
+export async function createTargetGraph(options: CreateTargetGraphOptions) {
+  const { tasks, priorities, priorityWeights } = options;
+  const { builder, packages } = await createTargetGraphBuilder(options);
+
+  return await builder.build(tasks, packages, priorities, priorityWeights);
 }
@@ -0,0 +1,135 @@
+import type { Command } from "commander";
+import { createTargetGraph } from "./createTargetGraph.js";
+import { filterArgsForTasks } from "./filterArgsForTasks.js";
+import { filterPipelineDefinitions } from "./filterPipelineDefinitions.js";
+import { getDurationWeights } from "./getDurationWeights.js";
+import { createDryRunPlan, type CachePrediction, type DryRunPlan } from "./createDryRunPlan.js";
+import { getConfig, getMaxWorkersPerTask, getMaxWorkersPerTaskFromOptions, getConcurrency } from "@lage-run/config";
+import { createCacheProvider } from "@lage-run/scheduler";
+import { TargetRunnerPicker } from "@lage-run/runners";
+import { getPackageInfos, getWorkspaceRoot } from "workspace-tools";
+import createLogger from "@lage-run/logger";
+
+import type { FilterOptions } from "../../types/FilterOptions.js";
+import { createCache } from "../../cache/createCacheProvider.js";
+import { getRunnerPickerOptions } from "../../runnerPickerOptions.js";
+import { optimizeTargetGraph } from "../../optimizeTargetGraph.js";
+import { renderTable } from "../renderTable.js";
+
+interface DryRunOptions extends FilterOptions {
+  dryRunFormat: "text" | "json";
+  concurrency: number;
+  maxWorkersPerTask: string[];
+  skipLocalCache: boolean;
+  cache: boolean;
+  resetCache: boolean;
+  nodeArg: string;
+}
+
+/**
+ * Prints what `lage run` would do - the execution order, worker pool scheduling and predicted cache hits - without running any target
+ * or restoring anything from the cache.
+ */
+export async function dryRunAction(options: DryRunOptions, command: Command) {
+  const cwd = process.cwd();
+  const config = await getConfig(cwd);
+  const concurrency = getConcurrency(options.concurrency, config.concurrency);
+  const logger = createLogger();
+
+  const root = getWorkspaceRoot(cwd)!;
+  const packageInfos = getPackageInfos(root);
+
+  const { tasks, taskArgs } = filterArgsForTasks(command.args);
+
+  const targetGraph = await createTargetGraph({
+    logger,
+    root,
+    dependencies: options.dependencies,
+    dependents: options.dependents && !options.to, // --to is a short hand for --scope + --no-dependents
+    ignore: options.ignore.concat(config.ignore),
+    pipeline: config.pipeline,
+    repoWideChanges: config.repoWideChanges,
+    scope: (options.scope ?? []).concat(options.to ?? []), // --to is a short hand for --scope + --no-dependents
+    since: options.since,
+    outputs: config.cacheOptions.outputGlob,
+    tasks,
+    packageInfos,
+    priorities: config.priorities,
+    enableTargetConfigMerging: config.enableTargetConfigMerging,
+    priorityWeights: getDurationWeights({ root, logger, durationPriority: config.durationPriority }),
+  });
+
+  const filteredPipeline = filterPipelineDefinitions(targetGraph.targets.values(), config.pipeline);
+  const maxWorkersPerTaskMap = getMaxWorkersPerTaskFromOptions(options.maxWorkersPerTask);
+
+  const runnerPicker = new TargetRunnerPicker(getRunnerPickerOptions(config, options.nodeArg, taskArgs));
+  const optimizedTargets = await optimizeTargetGraph(targetGraph, runnerPicker, false);
+
+  const { hasher } = await createCache({
+    root,
+    logger,
+    cacheOptions: config.cacheOptions,
+    cliArgs: taskArgs,
+    skipLocalCache: options.skipLocalCache,
+  });
+
+  const { cacheProvider } = await createCacheProvider({
+    root,
+    logger,
+    cacheOptions: config.cacheOptions,
+    cliArgs: taskArgs,
+    skipLocalCache: options.skipLocalCache,
+  });
+
+  const plan = await createDryRunPlan({
+    targets: new Map(optimizedTargets.map((target) => [target.id, target])),
+    hasher,
+    concurrency,
+    maxWorkersPerTask: new Map([...getMaxWorkersPerTask(filteredPipeline, concurrency), ...maxWorkersPerTaskMap]),
+    shouldCache: options.cache,
+    predictCacheHits: async (hashes) => {
+      if (options.resetCache) {
+        return new Map(hashes.map((hash) => [hash, "miss"]));
+      }
+
+      const exists = await cacheProvider.existsMany(hashes);
+
+      // a storage that cannot tell whether it has an entry (short of downloading it) makes the prediction unknown
+      return new Map(hashes.map((hash) => [hash, toCachePrediction(exists.get(hash))]));
+    },
+  });
+
+  // eslint-disable-next-line no-console
+  console.log(options.dryRunFormat === "json" ? JSON.stringify(plan, null, 2) : renderPlan(plan));
+}
+
+function toCachePrediction(exists: boolean | undefined): CachePrediction {
+  return exists === undefined ? "unknown" : exists ? "hit" : "miss";
+}
+
+function renderPlan(plan: DryRunPlan) {
+  const { summary } = plan;
+
+  const rows = [
+    ["#", "level", "target", "priority", "weight", "worker group", "cache"],
+    ...plan.targets.map((target) => [
+      String(target.order),
+      String(target.level),
+      target.label,
+      String(target.priority),
+      String(target.weight),
+      `${target.workerGroup} (max ${target.maxWorkers})`,
+      target.cache,
+    ]),
+  ];
+
+  return [
+    "Dry Run",
+    "-------",
+    "",
+    renderTable(rows),
+    "",
+    `${summary.total} targets - predicted cache hits: ${summary.hit}, misses: ${summary.miss}, unknown: ${summary.unknown}, ` +
+      `cache disabled: ${summary.disabled}`,
+  ].join("\n");
+}
@@ -0,0 +1,84 @@
+import micromatch from "micromatch";
+import { getInputFiles, type TargetHasher } from "@lage-run/hasher";
+import { getStartTargetId, type Target } from "@lage-run/target-graph";
+import type { WatchChanges } from "./watcher.js";
+
+interface GetChangedTargetsOptions {
+  root: string;
+  targets: Map<string, Target>;
+  changes: WatchChanges;
+  hasher: TargetHasher;
+}
+
+/**
+ * Finds the targets to rerun after files changed in watch mode: targets that have any of the files among their inputs,
+ * and whose hash changed as a result (so e.g. saving a file without modifying it does not rerun anything).
+ *
+ * Targets with caching disabled are never hashed, so they are rerun whenever one of their inputs changed.
+ */
+export async function getChangedTargets(options: GetChangedTargetsOptions): Promise<Target[]> {
+  const { root, targets, changes, hasher } = options;
+  const packageTree = hasher.packageTree!;
+
+  // removed files are only dropped from the package tree after matching, so that the targets that had them as inputs are found
+  packageTree.addToPackageTree(changes.added);
+
+  const files = [...changes.changed, ...changes.added, ...changes.removed];
+  const affected = new Map<string, Target>();
+
+  for (const target of targets.values()) {
+    if (target.id === getStartTargetId()) {
+      continue;
+    }
+
+    // root-level targets glob their inputs from the root rather than through the package tree
+    const inputFiles = new Set(
+      target.cwd === root
+        ? micromatch(files, target.inputs ?? ["**/*"], { dot: true })
+        : getInputFiles(target, hasher.dependencyMap, packageTree)
+    );
+
+    if (files.some((file) => inputFiles.has(file))) {
+      affected.set(target.id, target);
+    }
+  }
+
+  packageTree.removeFromPackageTree(changes.removed);
+
+  const changed: Target[] = [];
+  const visited = new Set<string>();
+
+  // a target's hash includes the hashes of its dependencies, so those are rehashed first
+  const visit = async (target: Target) => {
+    if (visited.has(target.id)) {
+      return;
+    }
+
+    visited.add(target.id);
+
+    for (const dependency of target.dependencies) {
+      const dependencyTarget = affected.get(dependency);
+      if (dependencyTarget) {
+        await visit(dependencyTarget);
+      }
+    }
+
+    if (!target.cache) {
+      changed.push(target);
+      return;
+    }
+
+    const previousHash = hasher.targetHashesLog[target.id]?.hash;
+    const hash = await hasher.hash(target);
+
+    if (hash !== previousHash) {
+      changed.push(target);
+    }
+  };
+
+  for (const target of affected.values()) {
+    await visit(target);
+  }
+
+  return changed;
+}
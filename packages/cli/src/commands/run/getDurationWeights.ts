@@ -0,0 +1,74 @@
+import fs from "fs";
+import path from "path";
+import type { ConfigOptions } from "@lage-run/config";
+import type { Logger } from "@lage-run/logger";
+import { RunHistory } from "@lage-run/scheduler";
+
+interface GetDurationWeightsOptions {
+  root: string;
+  logger: Logger;
+  durationPriority: ConfigOptions["durationPriority"];
+}
+
+interface ProfileEvent {
+  name: string;
+  cat: string; // status#task
+  dur: number; // in microseconds
+}
+
+/**
+ * Reads the average duration (in milliseconds) of the targets that ran successfully from a profile written by `lage run --profile`
+ */
+function readProfileDurations(profileFile: string): Map<string, number> {
+  const { traceEvents } = JSON.parse(fs.readFileSync(profileFile, "utf-8")) as { traceEvents: ProfileEvent[] };
+  const durations = new Map<string, number[]>();
+
+  for (const event of traceEvents) {
+    if (event.cat.startsWith("success#")) {
+      durations.set(event.name, [...(durations.get(event.name) ?? []), event.dur / 1000]);
+    }
+  }
+
+  return new Map(
+    [...durations].map(([targetId, targetDurations]) => [
+      targetId,
+      targetDurations.reduce((total, duration) => total + duration, 0) / targetDurations.length,
+    ])
+  );
+}
+
+/**
+ * Gets the past durations of the targets (in seconds) to order the targets of equal critical path priority with, according to the
+ * `durationPriority` config. Returns undefined when disabled or when no durations were found, so that targets are prioritized as usual.
+ */
+export function getDurationWeights(options: GetDurationWeightsOptions): Map<string, number> | undefined {
+  const { root, logger, durationPriority } = options;
+
+  if (!durationPriority) {
+    return undefined;
+  }
+
+  let durations: Map<string, number>;
+
+  if (durationPriority === "history") {
+    durations = new RunHistory({ root }).getTargetDurations();
+  } else {
+    const profileFile = path.resolve(root, durationPriority.profile);
+
+    try {
+      durations = readProfileDurations(profileFile);
+    } catch (e) {
+      logger.warn(`Unable to read the target durations from the profile ${profileFile}, targets are prioritized without them\n${e}`);
+      return undefined;
+    }
+  }
+
+  if (durations.size === 0) {
+    logger.verbose("No past target durations were found, targets are prioritized without them");
+    return undefined;
+  }
+
+  logger.verbose(`Weighting the target priorities with the past durations of ${durations.size} targets`);
+
+  return new Map([...durations].map(([targetId, duration]) => [targetId, duration / 1000]));
+}
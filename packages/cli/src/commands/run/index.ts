@@ -52,6 +52,10 @@ Scoped to packages that have changed in the current branch against a target merg
 
     $ lage build test lint --continue
 
+### Previewing the execution order and predicted cache hits without running anything
+
+    $ lage build test lint --dry-run
+
 ### Controlling logged outputs
 
 Show verbose output for each target:
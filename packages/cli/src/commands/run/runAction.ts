@@ -2,10 +2,12 @@ import type { Command } from "commander";
 import { createTargetGraph } from "./createTargetGraph.js";
 import { filterArgsForTasks } from "./filterArgsForTasks.js";
 import { filterPipelineDefinitions } from "./filterPipelineDefinitions.js";
+import { getDurationWeights } from "./getDurationWeights.js";
 import { getConfig, getMaxWorkersPerTask, getMaxWorkersPerTaskFromOptions, getConcurrency } from "@lage-run/config";
 import { getPackageInfos, getWorkspaceRoot } from "workspace-tools";
 import { initializeReporters } from "../initializeReporters.js";
-import { SimpleScheduler } from "@lage-run/scheduler";
+import { RunHistory, SimpleScheduler } from "@lage-run/scheduler";
+import { evictCacheInBackground } from "../cache/evictCacheInBackground.js";
 
 import type { Reporter } from "@lage-run/logger";
 import createLogger from "@lage-run/logger";
@@ -16,7 +18,7 @@ import type { SchedulerRunSummary } from "@lage-run/scheduler-types";
 import type { TargetGraph } from "@lage-run/target-graph";
 import { NoTargetFoundError } from "../../types/errors.js";
 import { createCache } from "../../cache/createCacheProvider.js";
-import { runnerPickerOptions } from "../../runnerPickerOptions.js";
+import { getRunnerPickerOptions } from "../../runnerPickerOptions.js";
 import { optimizeTargetGraph } from "../../optimizeTargetGraph.js";
 
 interface RunOptions extends ReporterInitOptions, FilterOptions {
@@ -25,6 +27,7 @@ interface RunOptions extends ReporterInitOptions, FilterOptions {
   profile: string | boolean | undefined;
   skipLocalCache: boolean;
   continue: boolean;
+  targetTimeout?: number;
   cache: boolean;
   resetCache: boolean;
   nodeArg: string;
@@ -65,6 +68,7 @@ export async function runAction(options: RunOptions, command: Command) {
     packageInfos,
     priorities: config.priorities,
     enableTargetConfigMerging: config.enableTargetConfigMerging,
+    priorityWeights: getDurationWeights({ root, logger, durationPriority: config.durationPriority }),
   });
 
   validateTargetGraph(targetGraph, allowNoTargetRuns);
@@ -87,6 +91,7 @@ export async function runAction(options: RunOptions, command: Command) {
     logger,
     concurrency,
     continueOnError: options.continue,
+    targetTimeout: options.targetTimeout,
     shouldCache: options.cache,
     shouldResetCache: options.resetCache,
     workerData: {
@@ -94,10 +99,7 @@ export async function runAction(options: RunOptions, command: Command) {
       taskArgs,
       skipLocalCache: options.skipLocalCache,
       cacheOptions: config.cacheOptions,
-      runners: {
-        ...runnerPickerOptions(options.nodeArg, config.npmClient, taskArgs),
-        ...config.runners,
-      },
+      runners: getRunnerPickerOptions(config, options.nodeArg, taskArgs),
     },
     maxWorkersPerTask: new Map([...getMaxWorkersPerTask(filteredPipeline, concurrency), ...maxWorkersPerTaskMap]),
     hasher,
@@ -112,11 +114,22 @@ export async function runAction(options: RunOptions, command: Command) {
   const summary = await scheduler.run(root, optimizedGraph);
   await scheduler.cleanup();
 
+  try {
+    new RunHistory({ root }).record(summary, command.args);
+  } catch (e) {
+    logger.warn(`Unable to record the run in the history\n${e}`);
+  }
+
   displaySummaryAndExit(summary, logger.reporters);
 
   for (const reporter of reporters) {
     await reporter.cleanup?.();
   }
+
+  const { maxLocalCacheSize } = config.cacheOptions;
+  if (maxLocalCacheSize && options.cache && !options.skipLocalCache) {
+    evictCacheInBackground({ logger, root, maxSize: maxLocalCacheSize });
+  }
 }
 
 function displaySummaryAndExit(summary: SchedulerRunSummary, reporters: Reporter[]) {
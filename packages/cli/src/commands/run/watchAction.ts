@@ -4,16 +4,17 @@ import { filterArgsForTasks } from "./filterArgsForTasks.js";
 import { getConfig, getMaxWorkersPerTask, getMaxWorkersPerTaskFromOptions, getConcurrency } from "@lage-run/config";
 import { getPackageInfosAsync, getWorkspaceRoot } from "workspace-tools";
 import { filterPipelineDefinitions } from "./filterPipelineDefinitions.js";
+import { getDurationWeights } from "./getDurationWeights.js";
 import { LogReporter } from "@lage-run/reporters";
 import { SimpleScheduler } from "@lage-run/scheduler";
-import { watch } from "./watcher.js";
+import { watch, type WatchChanges } from "./watcher.js";
+import { getChangedTargets } from "./getChangedTargets.js";
 
 import type { Reporter } from "@lage-run/logger";
 import createLogger, { LogLevel } from "@lage-run/logger";
 
 import type { ReporterInitOptions } from "../../types/ReporterInitOptions.js";
 import type { SchedulerRunSummary } from "@lage-run/scheduler-types";
-import type { Target } from "@lage-run/target-graph";
 import type { FilterOptions } from "../../types/FilterOptions.js";
 import { createCache } from "../../cache/createCacheProvider.js";
 import { runnerPickerOptions } from "../../runnerPickerOptions.js";
@@ -24,6 +25,7 @@ interface RunOptions extends ReporterInitOptions, FilterOptions {
   profile: string | boolean | undefined;
   skipLocalCache: boolean;
   continue: boolean;
+  targetTimeout?: number;
   cache: boolean;
   resetCache: boolean;
   nodeArg: string;
@@ -63,6 +65,7 @@ export async function watchAction(options: RunOptions, command: Command) {
     packageInfos,
     priorities: config.priorities,
     enableTargetConfigMerging: config.enableTargetConfigMerging,
+    priorityWeights: getDurationWeights({ root, logger, durationPriority: config.durationPriority }),
   });
 
   // Make sure we do not attempt writeRemoteCache in watch mode
@@ -84,13 +87,14 @@ export async function watchAction(options: RunOptions, command: Command) {
     logger,
     concurrency,
     continueOnError: true,
+    targetTimeout: options.targetTimeout,
     workerData: {
       root,
       taskArgs,
       skipLocalCache: options.skipLocalCache,
       cacheOptions: config.cacheOptions,
       runners: {
-        ...runnerPickerOptions(options.nodeArg, config.npmClient, taskArgs),
+        ...runnerPickerOptions(options.nodeArg, config.npmClient, taskArgs, config.cacheOptions),
         ...config.runners,
       },
     },
@@ -107,27 +111,31 @@ export async function watchAction(options: RunOptions, command: Command) {
 
   logger.info("Running scheduler in watch mode");
 
-  // Disables cache for subsequent runs
-  // TODO: support updating hasher + write-only local cacheProvider for subsequent runs
-  for (const targetRun of scheduler.targetRuns.values()) {
-    targetRun.options.shouldCache = false;
-  }
+  // Subsequent runs keep reading from and writing to the local cache: only targets whose hash changed are rerun, and a hash
+  // that was seen before (e.g. after reverting a change) is restored from the cache
+  const watcher = watch(root, packageInfos, config.watchIgnore);
+
+  // changes are handled one batch at a time, so that a run does not start while the hashes of a previous batch are being computed
+  let handled = Promise.resolve();
+
+  watcher.on("change", (changes: WatchChanges) => {
+    handled = handled
+      .then(async () => {
+        const changedTargets = await getChangedTargets({ root, targets: targetGraph.targets, changes, hasher });
+
+        if (changedTargets.length === 0) {
+          logger.verbose("No target hashes changed, nothing to rerun");
+          return;
+        }
+
+        reporter.resetLogEntries();
+
+        const deltaGraph = { targets: new Map(changedTargets.map((target) => [target.id, target])) };
 
-  // When initial run is done, disable fetching of caches on all targets, keep writing to the cache
-  const watcher = await watch(root, packageInfos);
-  watcher.on("change", async (packageName) => {
-    reporter.resetLogEntries();
-    const targets = new Map<string, Target>();
-    for (const target of targetGraph.targets.values()) {
-      if (target.packageName === packageName) {
-        targets.set(target.id, target);
-      }
-    }
-
-    const deltaGraph = { targets };
-
-    const summary = await scheduler.run(root, deltaGraph, true);
-    displaySummary(summary, logger.reporters);
+        const summary = await scheduler.run(root, deltaGraph, true);
+        displaySummary(summary, logger.reporters);
+      })
+      .catch((e) => logger.error(`Failed to rerun changed targets: ${e instanceof Error ? e.message : String(e)}`));
   });
 }
 
@@ -5,88 +5,48 @@ import { getWorkspaceRoot } from "workspace-tools";
 import type { PackageInfos } from "workspace-tools";
 import EventEmitter from "events";
 
-interface PathIndexItem {
-  packageName?: string;
+/**
+ * Files (relative to the workspace root, with forward slashes) that changed since the last "change" event
+ */
+export interface WatchChanges {
+  changed: string[];
+  added: string[];
+  removed: string[];
 }
 
-interface PathIndex {
-  [pathPart: string]: PathIndexItem;
-}
-
-export function watch(cwd: string, packageInfos: PackageInfos): EventEmitter {
+export function watch(cwd: string, packageInfos: PackageInfos, ignored: string[]): EventEmitter {
   const events = new EventEmitter();
   const root = getWorkspaceRoot(cwd);
 
-  // generate a tree index of all the packages
-  const packageIndex = createPackageIndex(root!, packageInfos);
-
   const packagePaths = Object.values(packageInfos).map((pkg) => path.dirname(pkg.packageJsonPath));
 
   // watch for changes in the packages
   const watcher = chokidar.watch(packagePaths, {
     cwd: root,
-    ignored: ["**/node_modules/**", "**/dist/**", "**/build/**", "**/lib/**"],
+    ignored,
+    ignoreInitial: true,
   });
 
   let timeoutHandle: NodeJS.Timeout;
+  let changes: WatchChanges = { changed: [], added: [], removed: [] };
+
+  // collect all the files that changed until things settle down, then report them in one batch
+  const onEvent = (kind: keyof WatchChanges) => (filePath: string) => {
+    changes[kind].push(filePath.replace(/\\/g, "/"));
 
-  // when a change happens, find the package that changed
-  watcher.on("change", (filePath) => {
     if (timeoutHandle) {
       clearTimeout(timeoutHandle);
     }
 
     timeoutHandle = setTimeout(() => {
-      const packageName = findPackageByPath(filePath, packageIndex);
-      events.emit("change", packageName);
+      events.emit("change", changes);
+      changes = { changed: [], added: [], removed: [] };
     }, 200);
-  });
-
-  return events;
-}
-
-function createPackageIndex(root: string, packageInfos: PackageInfos) {
-  const pathIndex: PathIndex = {};
-
-  // generate a tree index of all the packages
-  for (const [packageName, info] of Object.entries(packageInfos)) {
-    const packagePath = path.relative(root, path.dirname(info.packageJsonPath));
-    const pathParts = packagePath.split(/[/\\]/);
-
-    let pointer: PathIndexItem = pathIndex;
-
-    for (const pathPart of pathParts) {
-      if (!pointer[pathPart]) {
-        pointer[pathPart] = {};
-      }
+  };
 
-      pointer = pointer[pathPart];
-    }
-
-    pointer.packageName = packageName;
-  }
-
-  return pathIndex;
-}
-
-function findPackageByPath(filePath: string, index: PathIndex) {
-  const pathParts = filePath.split(/[/\\]/);
-
-  let pointer: PathIndexItem = index;
+  watcher.on("change", onEvent("changed"));
+  watcher.on("add", onEvent("added"));
+  watcher.on("unlink", onEvent("removed"));
 
-  for (const pathPart of pathParts) {
-    if (!pointer[pathPart]) {
-      // eslint-disable-next-line no-console
-      console.log(pathPart, filePath);
-      break;
-    }
-
-    if (pointer[pathPart].packageName) {
-      return pointer[pathPart].packageName;
-    }
-
-    pointer = pointer[pathPart];
-  }
-
-  return undefined;
+  return events;
 }
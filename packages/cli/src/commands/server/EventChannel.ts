@@ -0,0 +1,40 @@
+/**
+ * A queue of events that is pushed to from callbacks and consumed as an async iterable, e.g. to stream events from an RPC method
+ */
+export class EventChannel<T> implements AsyncIterable<T> {
+  private events: T[] = [];
+  private closed = false;
+  private error: unknown;
+  private notify: (() => void) | undefined;
+
+  push(event: T) {
+    this.events.push(event);
+    this.notify?.();
+  }
+
+  /**
+   * Ends the iteration once the pushed events are consumed, throwing the given error if any
+   */
+  close(error?: unknown) {
+    this.closed = true;
+    this.error = error;
+    this.notify?.();
+  }
+
+  async *[Symbol.asyncIterator]() {
+    for (;;) {
+      if (this.events.length > 0) {
+        yield this.events.shift()!;
+      } else if (this.closed) {
+        if (this.error !== undefined) {
+          throw this.error;
+        }
+
+        return;
+      } else {
+        await new Promise<void>((resolve) => (this.notify = resolve));
+        this.notify = undefined;
+      }
+    }
+  }
+}
@@ -34,6 +34,7 @@ export async function serverAction(options: WorkerOptions) {
       abortController,
       countdownToShutdown: () => resetTimer(logger, timeout, abortController, lageServer),
       clearCountdown: clearTimer,
+      shutdown: () => shutdown(abortController, lageServer),
     },
     logger,
     concurrency: options.concurrency,
@@ -56,6 +57,16 @@ function resetTimer(logger: Logger, timeout: number, abortController: AbortContr
   }, timeout * 1000);
 }
 
+function shutdown(abortController: AbortController, server: any) {
+  clearTimer();
+
+  // let the response of the shutdown request go out before closing the server
+  setImmediate(() => {
+    abortController.abort();
+    server.close();
+  });
+}
+
 function clearTimer() {
   if (timeoutHandle) {
     globalThis.clearTimeout(timeoutHandle);
@@ -1,17 +1,26 @@
 import { type ConfigOptions, getConfig, getConcurrency, getMaxWorkersPerTask } from "@lage-run/config";
 import type { Logger } from "@lage-run/logger";
-import { ConnectError, Code, type ILageService } from "@lage-run/rpc";
+import {
+  ConnectError,
+  Code,
+  type ILageService,
+  type PartialMessage,
+  type RunTargetRequest,
+  type RunTargetResponse,
+  type RunTargetStreamResponse,
+} from "@lage-run/rpc";
 import { getStartTargetId, getTargetId, type TargetGraph } from "@lage-run/target-graph";
 import { type DependencyMap, getPackageInfos, getWorkspaceRoot } from "workspace-tools";
 import { createTargetGraph } from "../run/createTargetGraph.js";
-import { type Readable } from "stream";
+import { type Readable, Writable } from "stream";
 import { type Pool, AggregatedPool } from "@lage-run/worker-threads-pool";
 import { getInputFiles, type PackageTree, TargetHasher } from "@lage-run/hasher";
 import { getOutputFiles } from "./getOutputFiles.js";
 import { MemoryStream } from "./MemoryStream.js";
+import { EventChannel } from "./EventChannel.js";
 import { runnerPickerOptions } from "../../runnerPickerOptions.js";
 import { filterPipelineDefinitions } from "../run/filterPipelineDefinitions.js";
-import type { TargetRun } from "@lage-run/scheduler-types";
+import type { TargetRun, TargetStatus } from "@lage-run/scheduler-types";
 import { formatDuration, hrToSeconds, hrtimeDiff } from "@lage-run/format-hrtime";
 import path from "path";
 import fs from "fs";
@@ -24,14 +33,18 @@ interface LageServiceContext {
   dependencyMap: DependencyMap;
   root: string;
   pool: Pool;
+  maxWorkers: number;
   targetHasher: TargetHasher;
 }
 
 let initializedPromise: Promise<LageServiceContext> | undefined;
+/** set once the initialization is done, so that getStatus() can report on it without waiting for it */
+let initializedContext: LageServiceContext | undefined;
 interface ServiceControls {
   abortController: AbortController;
   countdownToShutdown: () => void;
   clearCountdown: () => void;
+  shutdown: () => void;
 }
 interface InitializeOptions {
   cwd: string;
@@ -83,6 +96,7 @@ async function createInitializedPromise({ cwd, logger, serverControls, nodeArg,
   const targetHasher = new TargetHasher({
     root,
     environmentGlob: config.cacheOptions?.environmentGlob ?? [],
+    env: config.cacheOptions?.env,
     logger,
     cacheKey: config.cacheOptions?.cacheKey,
     cliArgs: taskArgs,
@@ -110,7 +124,7 @@ async function createInitializedPromise({ cwd, logger, serverControls, nodeArg,
       stderr: true,
       workerData: {
         runners: {
-          ...runnerPickerOptions(nodeArg, config.npmClient, taskArgs),
+          ...runnerPickerOptions(nodeArg, config.npmClient, taskArgs, config.cacheOptions),
           ...config.runners,
           shouldCache: false,
           shouldResetCache: false,
@@ -134,7 +148,8 @@ async function createInitializedPromise({ cwd, logger, serverControls, nodeArg,
   });
 
   logger.info("done initializing");
-  return { config, targetGraph, packageTree, dependencyMap, root, pool, targetHasher };
+  initializedContext = { config, targetGraph, packageTree, dependencyMap, root, pool, maxWorkers, targetHasher };
+  return initializedContext;
 }
 
 /**
@@ -148,6 +163,21 @@ async function initialize(options: InitializeOptions): Promise<LageServiceContex
   return initializedPromise;
 }
 
+interface TargetOutputStreams {
+  stdout: Writable;
+  stderr: Writable;
+  onStatusChange?: (status: TargetStatus) => void;
+}
+
+type TargetResults = Omit<PartialMessage<RunTargetResponse>, "stdout" | "stderr"> & {
+  /** set when the target could not be run, reported instead of its output */
+  error?: string;
+};
+
+function hrToMilliseconds(hrtime: [number, number]) {
+  return hrtime[0] * 1e3 + hrtime[1] / 1e6;
+}
+
 interface CreateLageServiceOptions {
   cwd: string;
   serverControls: ServiceControls;
@@ -163,202 +193,276 @@ export async function createLageService({
   concurrency,
   tasks,
 }: CreateLageServiceOptions): Promise<ILageService> {
-  return {
-    async ping() {
-      return { pong: true };
-    },
+  const startTime = Date.now();
+
+  // the targets that are queued or running, reported by getStatus()
+  const activeTargetRuns = new Set<TargetRun>();
+
+  /**
+   * Runs a target on the pool, writing its output to the given streams as it runs and reporting its status transitions
+   */
+  async function executeTarget(request: RunTargetRequest, streams: TargetOutputStreams): Promise<TargetResults> {
+    if (global.gc) {
+      global.gc();
+    }
+
+    serverControls.clearCountdown();
+
+    // THIS IS A BIG ASSUMPTION; TODO: memoize based on the parameters of the initialize() call
+    // The first request sets up the nodeArg and taskArgs - we are assuming that all requests to run this target are coming from the same
+    // `lage info` call
+    const { config, targetGraph, dependencyMap, packageTree, root, pool, targetHasher } = await initialize({
+      cwd,
+      logger,
+      nodeArg: request.nodeOptions,
+      taskArgs: request.taskArgs,
+      serverControls,
+      concurrency,
+      tasks,
+    });
+
+    const runners = runnerPickerOptions(request.nodeOptions, config.npmClient, request.taskArgs, config.cacheOptions);
+
+    const id = getTargetId(request.packageName, request.task);
+
+    if (!targetGraph.targets.has(id)) {
+      logger.info(`Target not found: ${request.packageName}#${request.task}`);
+      return {
+        packageName: request.packageName,
+        task: request.task,
+        exitCode: 1,
+      };
+    }
 
-    async runTarget(request) {
-      if (global.gc) {
-        global.gc();
-      }
+    logger.info(`Running target: ${request.packageName}#${request.task}`);
 
-      serverControls.clearCountdown();
-
-      // THIS IS A BIG ASSUMPTION; TODO: memoize based on the parameters of the initialize() call
-      // The first request sets up the nodeArg and taskArgs - we are assuming that all requests to run this target are coming from the same
-      // `lage info` call
-      const { config, targetGraph, dependencyMap, packageTree, root, pool, targetHasher } = await initialize({
-        cwd,
-        logger,
-        nodeArg: request.nodeOptions,
-        taskArgs: request.taskArgs,
-        serverControls,
-        concurrency,
-        tasks,
-      });
-
-      const runners = runnerPickerOptions(request.nodeOptions, config.npmClient, request.taskArgs);
-
-      const id = getTargetId(request.packageName, request.task);
-
-      if (!targetGraph.targets.has(id)) {
-        logger.info(`Target not found: ${request.packageName}#${request.task}`);
-        return {
-          packageName: request.packageName,
-          task: request.task,
-          exitCode: 1,
-        };
-      }
+    const target = targetGraph.targets.get(id)!;
+    const task = {
+      target,
+      runners,
+    };
 
-      logger.info(`Running target: ${request.packageName}#${request.task}`);
+    const { stdout: writableStdout, stderr: writableStderr, onStatusChange } = streams;
+    let pipedStdout: Readable;
+    let pipedStderr: Readable;
 
-      const target = targetGraph.targets.get(id)!;
-      const task = {
-        target,
-        runners,
-      };
+    const targetRun: TargetRun = {
+      queueTime: process.hrtime(),
+      target,
+      duration: [0, 0],
+      startTime: [0, 0],
+      status: "queued",
+      threadId: 0,
+    };
 
-      const writableStdout = new MemoryStream();
-      const writableStderr = new MemoryStream();
-      let pipedStdout: Readable;
-      let pipedStderr: Readable;
-
-      const targetRun: TargetRun = {
-        queueTime: process.hrtime(),
-        target,
-        duration: [0, 0],
-        startTime: [0, 0],
-        status: "queued",
-        threadId: 0,
-      };
+    activeTargetRuns.add(targetRun);
+    onStatusChange?.(targetRun.status);
 
-      let results: {
-        packageName?: string;
-        task: string;
-        cwd: string;
-        exitCode: number;
-        inputs: string[];
-        outputs: string[];
-        stdout: string;
-        stderr: string;
-        id: string;
-        globalInputHashFile: string;
-      };
+    let results: TargetResults;
 
-      const inputs = getInputFiles(target, dependencyMap, packageTree);
+    const inputs = getInputFiles(target, dependencyMap, packageTree);
 
-      for (const dep of target.dependencies) {
-        if (dep === getStartTargetId()) {
-          continue;
-        }
+    for (const dep of target.dependencies) {
+      if (dep === getStartTargetId()) {
+        continue;
+      }
+
+      const depTarget = targetGraph.targets.get(dep)!;
+      inputs.push(path.join(path.relative(root, depTarget.cwd), getHashFilePath(depTarget)).replace(/\\/g, "/"));
+    }
+
+    // Write the target hash to a file for its dependants to use
+    const targetHashFile = getHashFilePath(target);
+    const targetHashFullPath = path.join(target.cwd, targetHashFile);
 
-        const depTarget = targetGraph.targets.get(dep)!;
-        inputs.push(path.join(path.relative(root, depTarget.cwd), getHashFilePath(depTarget)).replace(/\\/g, "/"));
+    try {
+      if (!fs.existsSync(path.dirname(targetHashFullPath))) {
+        fs.mkdirSync(path.dirname(targetHashFullPath), { recursive: true });
       }
 
-      // Write the target hash to a file for its dependants to use
-      const targetHashFile = getHashFilePath(target);
-      const targetHashFullPath = path.join(target.cwd, targetHashFile);
+      fs.writeFileSync(targetHashFullPath, await targetHasher.hash(target));
+    } catch (e) {
+      activeTargetRuns.delete(targetRun);
+      throw new ConnectError(`Error writing target hash file: ${targetHashFullPath}`, Code.Internal);
+    }
 
-      try {
-        if (!fs.existsSync(path.dirname(targetHashFullPath))) {
-          fs.mkdirSync(path.dirname(targetHashFullPath), { recursive: true });
+    const targetGlobalInputHashRelativePath = getGlobalInputHashFilePath(target);
+
+    try {
+      await pool.exec(
+        task,
+        0,
+        (worker, stdout, stderr) => {
+          logger.info(`[${worker.threadId}] ${request.packageName}#${request.task} start`);
+
+          pipedStdout = stdout;
+          pipedStderr = stderr;
+
+          stdout.pipe(writableStdout);
+          stderr.pipe(writableStderr);
+
+          targetRun.threadId = worker.threadId;
+          targetRun.status = "running";
+          targetRun.startTime = process.hrtime();
+          onStatusChange?.(targetRun.status);
+        },
+        (worker) => {
+          logger.info(`Max Worker Memory Usage: ${formatBytes(pool.stats().maxWorkerMemoryUsage)}`);
+
+          // logger.info the main process memory usage
+          const memoryUsage = process.memoryUsage();
+          logger.info(
+            `Main Process Memory Usage: RSS: ${formatBytes(memoryUsage.rss)} Heap Total: ${formatBytes(
+              memoryUsage.heapTotal
+            )} Heap Used: ${formatBytes(memoryUsage.heapUsed)}`
+          );
+
+          targetRun.status = "success";
+          targetRun.duration = hrtimeDiff(targetRun.startTime, process.hrtime());
+
+          logger.info(
+            `[${worker.threadId}] ${request.packageName}#${request.task} end: ${formatDuration(hrToSeconds(targetRun.duration))}`
+          );
+          pipedStdout.unpipe(writableStdout);
+          pipedStderr.unpipe(writableStderr);
         }
+      );
 
-        fs.writeFileSync(targetHashFullPath, await targetHasher.hash(target));
-      } catch (e) {
-        throw new ConnectError(`Error writing target hash file: ${targetHashFullPath}`, Code.Internal);
-      }
+      const outputs = getOutputFiles(root, target, config.cacheOptions?.outputGlob, packageTree);
+      const targetHashFileRelativePath = path.relative(root, targetHashFullPath).replace(/\\/g, "/");
+      outputs.push(targetHashFileRelativePath);
+
+      results = {
+        packageName: request.packageName,
+        task: request.task,
+        cwd: target.cwd,
+        exitCode: 0,
+        inputs,
+        outputs,
+        id,
+        globalInputHashFile: targetGlobalInputHashRelativePath,
+      };
+    } catch (e) {
+      const outputs = getOutputFiles(root, target, config.cacheOptions?.outputGlob, packageTree);
+      const targetHashFileRelativePath = path.relative(root, targetHashFullPath).replace(/\\/g, "/");
+      outputs.push(targetHashFileRelativePath);
+
+      targetRun.status = "failed";
+      targetRun.duration = hrtimeDiff(targetRun.startTime, process.hrtime());
+
+      results = {
+        packageName: request.packageName,
+        task: request.task,
+        cwd: target.cwd,
+        exitCode: 1,
+        inputs,
+        outputs,
+        id,
+        globalInputHashFile: targetGlobalInputHashRelativePath,
+        error: e instanceof Error ? e.toString() : "",
+      };
+    }
+
+    activeTargetRuns.delete(targetRun);
+    onStatusChange?.(targetRun.status);
+
+    logger.info(
+      `${request.packageName}#${request.task} results: \n${JSON.stringify(
+        {
+          packageName: results.packageName,
+          task: results.task,
+          cwd: results.cwd,
+          exitCode: results.exitCode,
+          inputs: results.inputs,
+          outputs: results.outputs,
+          id: results.id,
+          globalInputHashFile: targetGlobalInputHashRelativePath,
+        },
+        null,
+        2
+      )}\n------`,
+      results
+    );
 
-      const targetGlobalInputHashRelativePath = getGlobalInputHashFilePath(target);
+    return results;
+  }
 
-      try {
-        await pool.exec(
-          task,
-          0,
-          (worker, stdout, stderr) => {
-            logger.info(`[${worker.threadId}] ${request.packageName}#${request.task} start`);
+  return {
+    async ping() {
+      return { pong: true };
+    },
 
-            pipedStdout = stdout;
-            pipedStderr = stderr;
+    async runTarget(request) {
+      const stdout = new MemoryStream();
+      const stderr = new MemoryStream();
 
-            stdout.pipe(writableStdout);
-            stderr.pipe(writableStderr);
+      const { error, ...results } = await executeTarget(request, { stdout, stderr });
 
-            targetRun.threadId = worker.threadId;
-            targetRun.status = "running";
-            targetRun.startTime = process.hrtime();
+      return {
+        ...results,
+        stdout: error === undefined ? stdout.toString() : "",
+        stderr: error ?? stderr.toString(),
+      };
+    },
+
+    async *runTargetStream(request) {
+      const events = new EventChannel<PartialMessage<RunTargetStreamResponse>>();
+
+      const createChunkStream = (name: "stdout" | "stderr") =>
+        new Writable({
+          write(chunk: Buffer, _encoding, callback) {
+            events.push({ event: { case: name, value: chunk.toString() } });
+            callback();
           },
-          (worker) => {
-            logger.info(`Max Worker Memory Usage: ${formatBytes(pool.stats().maxWorkerMemoryUsage)}`);
-
-            // logger.info the main process memory usage
-            const memoryUsage = process.memoryUsage();
-            logger.info(
-              `Main Process Memory Usage: RSS: ${formatBytes(memoryUsage.rss)} Heap Total: ${formatBytes(
-                memoryUsage.heapTotal
-              )} Heap Used: ${formatBytes(memoryUsage.heapUsed)}`
-            );
-
-            targetRun.status = "success";
-            targetRun.duration = hrtimeDiff(targetRun.startTime, process.hrtime());
-
-            logger.info(
-              `[${worker.threadId}] ${request.packageName}#${request.task} end: ${formatDuration(hrToSeconds(targetRun.duration))}`
-            );
-            pipedStdout.unpipe(writableStdout);
-            pipedStderr.unpipe(writableStderr);
+        });
+
+      executeTarget(request, {
+        stdout: createChunkStream("stdout"),
+        stderr: createChunkStream("stderr"),
+        onStatusChange: (status) => events.push({ event: { case: "status", value: status } }),
+      })
+        .then(({ error, ...results }) => {
+          if (error !== undefined) {
+            events.push({ event: { case: "stderr", value: error } });
           }
-        );
-
-        const outputs = getOutputFiles(root, target, config.cacheOptions?.outputGlob, packageTree);
-        const targetHashFileRelativePath = path.relative(root, targetHashFullPath).replace(/\\/g, "/");
-        outputs.push(targetHashFileRelativePath);
-
-        results = {
-          packageName: request.packageName,
-          task: request.task,
-          cwd: target.cwd,
-          exitCode: 0,
-          inputs,
-          outputs,
-          stdout: writableStdout.toString(),
-          stderr: writableStderr.toString(),
-          id,
-          globalInputHashFile: targetGlobalInputHashRelativePath,
-        };
-      } catch (e) {
-        const outputs = getOutputFiles(root, target, config.cacheOptions?.outputGlob, packageTree);
-        const targetHashFileRelativePath = path.relative(root, targetHashFullPath).replace(/\\/g, "/");
-        outputs.push(targetHashFileRelativePath);
-
-        targetRun.status = "failed";
-        targetRun.duration = hrtimeDiff(targetRun.startTime, process.hrtime());
-
-        results = {
-          packageName: request.packageName,
-          task: request.task,
-          cwd: target.cwd,
-          exitCode: 1,
-          inputs,
-          outputs,
-          stdout: "",
-          stderr: e instanceof Error ? e.toString() : "",
-          id,
-          globalInputHashFile: targetGlobalInputHashRelativePath,
-        };
-      }
 
-      logger.info(
-        `${request.packageName}#${request.task} results: \n${JSON.stringify(
-          {
-            packageName: results.packageName,
-            task: results.task,
-            cwd: results.cwd,
-            exitCode: results.exitCode,
-            inputs: results.inputs,
-            outputs: results.outputs,
-            id: results.id,
-            globalInputHashFile: targetGlobalInputHashRelativePath,
-          },
-          null,
-          2
-        )}\n------`,
-        results
-      );
+          events.push({ event: { case: "result", value: results } });
+          events.close();
+        })
+        .catch((e) => events.close(e));
+
+      yield* events;
+    },
+
+    async getStatus() {
+      const memoryUsage = process.memoryUsage();
+      const context = initializedContext;
+      const poolStats = context?.pool.stats();
+
+      return {
+        initialized: context !== undefined,
+        maxWorkers: context?.maxWorkers ?? 0,
+        workerRestarts: poolStats?.workerRestarts ?? 0,
+        maxWorkerMemoryUsage: poolStats?.maxWorkerMemoryUsage ?? 0,
+        targets: [...activeTargetRuns].map((targetRun) => ({
+          id: targetRun.target.id,
+          packageName: targetRun.target.packageName,
+          task: targetRun.target.task,
+          status: targetRun.status,
+          threadId: targetRun.threadId,
+          elapsed: hrToMilliseconds(hrtimeDiff(targetRun.queueTime, process.hrtime())),
+        })),
+        rss: memoryUsage.rss,
+        heapUsed: memoryUsage.heapUsed,
+        heapTotal: memoryUsage.heapTotal,
+        uptime: (Date.now() - startTime) / 1000,
+      };
+    },
 
-      return results;
+    async shutdown() {
+      logger.info("Shutting down as requested");
+      serverControls.shutdown();
+      return {};
     },
   };
 }
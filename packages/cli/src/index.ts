@@ -1,3 +1,4 @@
+export { defineConfig } from "@lage-run/config";
 export type { CacheOptions } from "@lage-run/config";
 export type { ConfigOptions } from "@lage-run/config";
 export type { Priority } from "@lage-run/config";
@@ -1,6 +1,16 @@
-import type { TargetRunnerPickerOptions } from "@lage-run/runners";
+import type { ConfigOptions } from "@lage-run/config";
+import type { StrictEnvOptions, TargetRunnerPickerOptions } from "@lage-run/runners";
+
+export function runnerPickerOptions(
+  nodeArg: string | undefined,
+  npmCmd: string,
+  taskArgs: string[],
+  envOptions: StrictEnvOptions = {}
+): TargetRunnerPickerOptions {
+  // only pick the env options, as these options are passed to the worker threads
+  const { strictEnv, env, passThroughEnv } = envOptions;
+  const strictEnvOptions = { strictEnv, env, passThroughEnv };
 
-export function runnerPickerOptions(nodeArg: string | undefined, npmCmd: string, taskArgs: string[]): TargetRunnerPickerOptions {
   return {
     npmScript: {
       script: require.resolve("./runners/NpmScriptRunner.js"),
@@ -8,6 +18,7 @@ export function runnerPickerOptions(nodeArg: string | undefined, npmCmd: string,
         nodeArg,
         taskArgs,
         npmCmd,
+        ...strictEnvOptions,
       },
     },
     worker: {
@@ -16,9 +27,32 @@ export function runnerPickerOptions(nodeArg: string | undefined, npmCmd: string,
         taskArgs,
       },
     },
+    command: {
+      script: require.resolve("./runners/CommandRunner.js"),
+      options: {
+        nodeOptions: nodeArg,
+        taskArgs,
+        ...strictEnvOptions,
+      },
+    },
     noop: {
       script: require.resolve("./runners/NoOpRunner.js"),
       options: {},
     },
   };
 }
+
+/**
+ * The runners that `lage run` picks from: the built-in runners, with the env options of the cache, overridden by the runners of the config.
+ * Commands that predict the hashes of a run (e.g. `--dry-run`) must pick from the same runners, or their targets differ from the run's.
+ */
+export function getRunnerPickerOptions(
+  config: Pick<ConfigOptions, "npmClient" | "cacheOptions" | "runners">,
+  nodeArg: string | undefined,
+  taskArgs: string[]
+): TargetRunnerPickerOptions {
+  return {
+    ...runnerPickerOptions(nodeArg, config.npmClient, taskArgs, config.cacheOptions),
+    ...config.runners,
+  };
+}
@@ -0,0 +1 @@
+export { CommandRunner } from "@lage-run/runners";
@@ -10,4 +10,8 @@ export interface ReporterInitOptions {
   profile?: boolean | string;
   logFile?: string;
   indented?: boolean;
+  junitFile?: string;
+  junitGroupBy?: "package" | "task";
+  otlpEndpoint?: string;
+  otlpFile?: string;
 }
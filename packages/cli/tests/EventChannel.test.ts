@@ -0,0 +1,42 @@
+import { EventChannel } from "../src/commands/server/EventChannel.js";
+
+async function collect<T>(iterable: AsyncIterable<T>) {
+  const events: T[] = [];
+  for await (const event of iterable) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("EventChannel", () => {
+  it("yields the events pushed before and while iterating, until closed", async () => {
+    const channel = new EventChannel<number>();
+    channel.push(1);
+
+    const events = collect(channel);
+
+    setTimeout(() => {
+      channel.push(2);
+      channel.push(3);
+      channel.close();
+    }, 10);
+
+    expect(await events).toEqual([1, 2, 3]);
+  });
+
+  it("throws the error it was closed with after the pushed events", async () => {
+    const channel = new EventChannel<number>();
+    const events: number[] = [];
+
+    channel.push(1);
+    channel.close(new Error("failed"));
+
+    await expect(async () => {
+      for await (const event of channel) {
+        events.push(event);
+      }
+    }).rejects.toThrow("failed");
+
+    expect(events).toEqual([1]);
+  });
+});
@@ -0,0 +1,71 @@
+import type { RunHistoryEntry, RunHistoryTargetEntry } from "@lage-run/scheduler";
+import { compareRuns } from "../src/commands/history/compareRuns.js";
+
+function createEntry(id: string, targets: Record<string, Partial<RunHistoryTargetEntry>>): RunHistoryEntry {
+  return {
+    id,
+    timestamp: 0,
+    command: ["build"],
+    results: "success",
+    duration: 10_000,
+    workerRestarts: 0,
+    maxWorkerMemoryUsage: 0,
+    targets: Object.fromEntries(
+      Object.entries(targets).map(([targetId, target]) => [targetId, { status: "success", duration: 0, attempts: 1, ...target }])
+    ),
+  };
+}
+
+describe("compareRuns", () => {
+  it("flags the targets whose duration grew past the threshold", () => {
+    const base = createEntry("base", {
+      "a#build": { duration: 2000 },
+      "b#build": { duration: 2000 },
+      "c#build": { duration: 2000 },
+    });
+    const head = createEntry("head", {
+      "a#build": { duration: 5000 },
+      "b#build": { duration: 3000 },
+      "c#build": { duration: 1000 },
+    });
+
+    const comparison = compareRuns(base, head, { threshold: 100, minDuration: 0 });
+
+    expect(comparison.base).toEqual(expect.objectContaining({ id: "base" }));
+    expect(comparison.base).not.toHaveProperty("targets");
+    expect(comparison.targets.map((target) => [target.id, target.change, target.regressed])).toEqual([
+      ["a#build", 150, true],
+      ["b#build", 50, false],
+      ["c#build", -50, false],
+    ]);
+    expect(comparison.regressions.map((target) => target.id)).toEqual(["a#build"]);
+  });
+
+  it("ignores changes shorter than the minimum duration", () => {
+    const base = createEntry("base", { "a#build": { duration: 100 } });
+    const head = createEntry("head", { "a#build": { duration: 400 } });
+
+    expect(compareRuns(base, head, { threshold: 100, minDuration: 1000 }).regressions).toEqual([]);
+  });
+
+  it("does not compare durations of cache hits, failures or targets missing from one of the runs", () => {
+    const base = createEntry("base", {
+      "a#build": { status: "skipped", duration: 10 },
+      "b#build": { duration: 1000 },
+    });
+    const head = createEntry("head", {
+      "a#build": { duration: 5000 },
+      "c#build": { duration: 5000 },
+    });
+
+    const comparison = compareRuns(base, head, { threshold: 100, minDuration: 0 });
+
+    expect(comparison.regressions).toEqual([]);
+    expect(comparison.targets.every((target) => target.change === undefined)).toBe(true);
+    expect(comparison.targets).toEqual([
+      expect.objectContaining({ id: "a#build", baseStatus: "skipped", headStatus: "success" }),
+      expect.objectContaining({ id: "b#build", baseStatus: "success", headStatus: undefined }),
+      expect.objectContaining({ id: "c#build", baseStatus: undefined, headStatus: "success" }),
+    ]);
+  });
+});
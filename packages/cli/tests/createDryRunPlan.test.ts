@@ -0,0 +1,72 @@
+import { getStartTargetId, type Target } from "@lage-run/target-graph";
+import { createDryRunPlan } from "../src/commands/run/createDryRunPlan.js";
+
+function createTarget(id: string, overrides: Partial<Target> = {}): Target {
+  const [packageName, task] = id.split("#");
+  return {
+    id,
+    label: `${packageName} - ${task}`,
+    cwd: `/repo/packages/${packageName}`,
+    packageName,
+    task,
+    depSpecs: [],
+    dependencies: [],
+    dependents: [],
+    cache: true,
+    ...overrides,
+  };
+}
+
+function createTargets(...targets: Target[]) {
+  return new Map(targets.map((target) => [target.id, target]));
+}
+
+describe("createDryRunPlan", () => {
+  it("hashes the targets and predicts cache hits without running anything", async () => {
+    const targets = createTargets(
+      createTarget("a#build", { weight: 2 }),
+      createTarget("a#test", { dependencies: ["a#build"] }),
+      createTarget("a#lint", { cache: false })
+    );
+
+    const hashed: string[] = [];
+
+    const plan = await createDryRunPlan({
+      targets,
+      hasher: {
+        hash: async (target: Target) => {
+          hashed.push(target.id);
+          return `hash-of-${target.id}`;
+        },
+      },
+      concurrency: 4,
+      maxWorkersPerTask: new Map([["test", 1]]),
+      shouldCache: true,
+      predictCacheHits: async (hashes) => new Map(hashes.map((hash) => [hash, hash === "hash-of-a#build" ? "hit" : "miss"])),
+    });
+
+    expect(hashed).toEqual(["a#build", "a#test"]);
+    expect(plan.summary).toEqual({ total: 3, hit: 1, miss: 1, unknown: 0, disabled: 1 });
+    expect(plan.targets).toEqual([
+      expect.objectContaining({ id: "a#build", order: 1, level: 1, weight: 2, workerGroup: "build", maxWorkers: 4, cache: "hit" }),
+      expect.objectContaining({ id: "a#lint", order: 2, level: 1, weight: 1, workerGroup: "lint", maxWorkers: 4, cache: "disabled" }),
+      expect.objectContaining({ id: "a#test", order: 3, level: 2, weight: 1, workerGroup: "test", maxWorkers: 1, cache: "miss" }),
+    ]);
+  });
+
+  it("does not hash anything when caching is disabled for the run", async () => {
+    const hash = jest.fn();
+
+    const plan = await createDryRunPlan({
+      targets: createTargets(createTarget("a#build")),
+      hasher: { hash },
+      concurrency: 4,
+      maxWorkersPerTask: new Map(),
+      shouldCache: false,
+      predictCacheHits: async () => new Map(),
+    });
+
+    expect(hash).not.toHaveBeenCalled();
+    expect(plan.summary.disabled).toBe(1);
+  });
+});
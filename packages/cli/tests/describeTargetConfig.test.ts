@@ -0,0 +1,87 @@
+import type { Target } from "@lage-run/target-graph";
+import { describeTargetConfig, renderTargetConfigDescription } from "../src/commands/config/describeTargetConfig.js";
+
+function createTarget(overrides: Partial<Target> = {}): Target {
+  return {
+    id: "a#build",
+    label: "a - build",
+    cwd: "/repo/packages/a",
+    task: "build",
+    packageName: "a",
+    type: "npmScript",
+    depSpecs: [],
+    dependencies: ["__start", "b#build"],
+    dependents: [],
+    outputs: ["lib/**"],
+    cache: true,
+    shouldRun: true,
+    weight: 1,
+    priority: 12,
+    ...overrides,
+  };
+}
+
+describe("describeTargetConfig", () => {
+  it("annotates each option with the pipeline entries that set it", () => {
+    const description = describeTargetConfig({
+      root: "/repo",
+      target: createTarget(),
+      config: { dependsOn: ["^build", "b#types"], outputs: ["lib/**"], priority: 5, weight: () => 1 },
+      sources: [
+        { id: "build", keys: ["dependsOn", "outputs", "weight"] },
+        { id: "a#build", source: "packages/a/package.json", keys: ["dependsOn", "priority"] },
+      ],
+      priority: { priority: 5, from: "pipeline" },
+      maxWorkersPerTask: new Map([["build", 2]]),
+    });
+
+    expect(description.entries).toEqual(["build", "a#build (packages/a/package.json)"]);
+    expect(description.config.dependsOn).toEqual({ value: ["^build", "b#types"], from: ["build", "a#build (packages/a/package.json)"] });
+    expect(description.config.priority.from).toEqual(["a#build (packages/a/package.json)"]);
+    expect(description.target).toEqual(
+      expect.objectContaining({
+        cwd: "packages/a",
+        dependencies: ["b#build"],
+        priority: 5,
+        priorityFrom: "pipeline",
+        criticalPathPriority: 12,
+        maxWorkers: { pool: "dedicated", maxWorkers: 2 },
+      })
+    );
+
+    expect(renderTargetConfigDescription(description)).toMatchInlineSnapshot(`
+      "a#build
+        pipeline entries: build, a#build (packages/a/package.json)
+        config:
+          dependsOn: ["^build","b#types"]  <- build, a#build (packages/a/package.json)
+          outputs: ["lib/**"]  <- build
+          priority: 5  <- a#build (packages/a/package.json)
+          weight: [function]  <- build
+        target:
+          type: "npmScript"
+          cwd: "packages/a"
+          dependencies: ["b#build"]
+          outputs: ["lib/**"]
+          cache: true
+          shouldRun: true
+          weight: 1
+          priority: 5  (from pipeline, 12 along the critical path)
+          maxWorkers: 2 (dedicated to the task)"
+    `);
+  });
+
+  it("takes the priorities config into account", () => {
+    const description = describeTargetConfig({
+      root: "/repo",
+      target: createTarget(),
+      config: { priority: 5 },
+      sources: [{ id: "a#build", keys: ["priority"] }],
+      priority: { priority: 10, from: "priorities" },
+      maxWorkersPerTask: new Map(),
+    });
+
+    expect(description.target.priority).toBe(10);
+    expect(description.target.priorityFrom).toBe("priorities");
+    expect(description.target.maxWorkers).toEqual({ pool: "default" });
+  });
+});
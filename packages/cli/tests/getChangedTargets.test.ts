@@ -0,0 +1,96 @@
+import fs from "fs";
+import path from "path";
+import { TargetHasher } from "@lage-run/hasher";
+import { Monorepo } from "@lage-run/monorepo-fixture";
+import type { Target } from "@lage-run/target-graph";
+import { getChangedTargets } from "../src/commands/run/getChangedTargets.js";
+
+describe("getChangedTargets", () => {
+  let monorepo: Monorepo;
+  let hasher: TargetHasher;
+  let targets: Map<string, Target>;
+
+  function createTarget(packageName: string, task: string, overrides: Partial<Target> = {}): Target {
+    return {
+      cwd: path.join(monorepo.root, "packages", packageName),
+      dependencies: [],
+      dependents: [],
+      depSpecs: [],
+      id: `${packageName}#${task}`,
+      label: `${packageName} - ${task}`,
+      packageName,
+      task,
+      cache: true,
+      ...overrides,
+    };
+  }
+
+  async function getChangedTargetIds(changes: { changed?: string[]; added?: string[]; removed?: string[] }) {
+    const changedTargets = await getChangedTargets({
+      root: monorepo.root,
+      targets,
+      hasher,
+      changes: { changed: [], added: [], removed: [], ...changes },
+    });
+
+    return changedTargets.map((target) => target.id);
+  }
+
+  beforeEach(async () => {
+    monorepo = new Monorepo("getChangedTargets");
+    await monorepo.init();
+    await monorepo.addPackage("a");
+    await monorepo.addPackage("b", ["a"]);
+    await monorepo.linkPackages();
+
+    targets = new Map(
+      [
+        createTarget("a", "build", { inputs: ["**/*", "!lint.js"], dependents: ["b#build"] }),
+        createTarget("a", "lint", { inputs: ["lint.js"] }),
+        createTarget("b", "build", { dependencies: ["a#build"] }),
+        createTarget("b", "test", { cache: false }),
+      ].map((target) => [target.id, target])
+    );
+
+    hasher = new TargetHasher({ root: monorepo.root, environmentGlob: [] });
+    await hasher.initialize();
+
+    for (const target of targets.values()) {
+      if (target.cache) {
+        await hasher.hash(target);
+      }
+    }
+  });
+
+  afterEach(async () => {
+    await monorepo.cleanup();
+  });
+
+  it("only returns the targets with the changed file among their inputs", async () => {
+    await monorepo.writeFiles({ "packages/a/lint.js": "console.log('linting a again');" });
+
+    expect(await getChangedTargetIds({ changed: ["packages/a/lint.js"] })).toEqual(["a#lint"]);
+  });
+
+  it("does not return targets whose hash did not change", async () => {
+    await monorepo.writeFiles({ "packages/a/build.js": "console.log('building a');" });
+
+    expect(await getChangedTargetIds({ changed: ["packages/a/build.js"] })).toEqual([]);
+  });
+
+  it("returns targets without caching whenever one of their inputs changed", async () => {
+    await monorepo.writeFiles({ "packages/b/test.js": "console.log('building b');" });
+
+    expect(await getChangedTargetIds({ changed: ["packages/b/test.js"] })).toEqual(["b#test"]);
+  });
+
+  it("returns the targets that had added or removed files among their inputs", async () => {
+    await monorepo.writeFiles({ "packages/a/index.js": "module.exports = {};" });
+
+    expect(await getChangedTargetIds({ added: ["packages/a/index.js"] })).toEqual(["a#build"]);
+
+    fs.rmSync(path.join(monorepo.root, "packages/a/index.js"));
+
+    expect(await getChangedTargetIds({ removed: ["packages/a/index.js"] })).toEqual(["a#build"]);
+  });
+});
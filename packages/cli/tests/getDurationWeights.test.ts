@@ -0,0 +1,51 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import createLogger from "@lage-run/logger";
+import { getDurationWeights } from "../src/commands/run/getDurationWeights.js";
+
+describe("getDurationWeights", () => {
+  const logger = createLogger();
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "duration-weights"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("is disabled by default", () => {
+    expect(getDurationWeights({ root, logger, durationPriority: false })).toBeUndefined();
+  });
+
+  it("falls back to the usual priorities when no run was recorded", () => {
+    expect(getDurationWeights({ root, logger, durationPriority: "history" })).toBeUndefined();
+  });
+
+  it("reads the durations of the targets that ran successfully from a profile, in seconds", () => {
+    fs.writeFileSync(
+      path.join(root, "profile.json"),
+      JSON.stringify({
+        traceEvents: [
+          { name: "a#build", cat: "success#build", ph: "X", ts: 0, dur: 2_000_000, pid: 1, tid: 0 },
+          { name: "b#build", cat: "success#build,someCategory", ph: "X", ts: 0, dur: 500_000, pid: 1, tid: 1 },
+          { name: "c#build", cat: "failed#build", ph: "X", ts: 0, dur: 100_000, pid: 1, tid: 2 },
+        ],
+        displayTimeUnit: "ms",
+      })
+    );
+
+    expect(getDurationWeights({ root, logger, durationPriority: { profile: "profile.json" } })).toEqual(
+      new Map([
+        ["a#build", 2],
+        ["b#build", 0.5],
+      ])
+    );
+  });
+
+  it("falls back to the usual priorities when the profile cannot be read", () => {
+    expect(getDurationWeights({ root, logger, durationPriority: { profile: "missing.json" } })).toBeUndefined();
+  });
+});
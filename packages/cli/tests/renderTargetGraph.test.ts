@@ -0,0 +1,95 @@
+import type { Target } from "@lage-run/target-graph";
+import { getCriticalPath, getTargetCacheStatuses, renderTargetGraph } from "../src/commands/info/renderTargetGraph.js";
+
+function createTarget(id: string, dependencies: string[], overrides: Partial<Target> = {}): Target {
+  const [packageName, task] = id.split("#");
+  return {
+    id,
+    label: `${packageName} - ${task}`,
+    cwd: `/repo/packages/${packageName}`,
+    task,
+    packageName,
+    type: "npmScript",
+    depSpecs: [],
+    dependencies,
+    dependents: [],
+    cache: true,
+    shouldRun: true,
+    weight: 1,
+    ...overrides,
+  };
+}
+
+// a#build <- b#build <- c#build, a#build <- a#test
+const targets = [
+  createTarget("a#build", [], { priority: 10 }),
+  createTarget("a#test", ["a#build"], { priority: 1 }),
+  createTarget("b#build", ["a#build"], { priority: 9 }),
+  createTarget("c#build", ["b#build"], { priority: 5, cache: false }),
+];
+
+describe("renderTargetGraph", () => {
+  it("follows the highest cumulative priorities along the critical path", () => {
+    expect(getCriticalPath(targets)).toEqual(["a#build", "b#build", "c#build"]);
+  });
+
+  it("falls back to the longest chain when targets have no priorities", () => {
+    const unprioritized = targets.map((target) => ({ ...target, priority: undefined }));
+    expect(getCriticalPath(unprioritized)).toEqual(["a#build", "b#build", "c#build"]);
+  });
+
+  it("renders dot, highlighting the critical path", () => {
+    expect(renderTargetGraph(targets, { format: "dot", colorBy: "task" })).toMatchInlineSnapshot(`
+      "digraph targets {
+        node [shape=box, style="rounded,filled", fillcolor="#ffffff"];
+        "a#build" [label="a#build", fillcolor="#aec7e8", color="#d62728", penwidth=2];
+        "a#test" [label="a#test", fillcolor="#ffbb78"];
+        "b#build" [label="b#build", fillcolor="#aec7e8", color="#d62728", penwidth=2];
+        "c#build" [label="c#build", fillcolor="#aec7e8", color="#d62728", penwidth=2];
+        "a#test" -> "a#build";
+        "b#build" -> "a#build" [color="#d62728", penwidth=2];
+        "c#build" -> "b#build" [color="#d62728", penwidth=2];
+      }
+      "
+    `);
+  });
+
+  it("renders mermaid, colored by cache status", () => {
+    const cacheStatuses = getTargetCacheStatuses(targets, {
+      id: "run",
+      timestamp: 0,
+      command: ["build"],
+      results: "success",
+      duration: 0,
+      workerRestarts: 0,
+      maxWorkerMemoryUsage: 0,
+      targets: { "a#build": { status: "skipped", duration: 0, attempts: 1 }, "b#build": { status: "success", duration: 0, attempts: 1 } },
+    });
+
+    expect(renderTargetGraph(targets, { format: "mermaid", colorBy: "cache", cacheStatuses })).toMatchInlineSnapshot(`
+      "graph LR
+        t0["a#build"]
+        t1["a#test"]
+        t2["b#build"]
+        t3["c#build"]
+        t1 --> t0
+        t2 --> t0
+        t3 --> t2
+        style t0 fill:#98df8a,stroke:#d62728,stroke-width:3px
+        style t1 fill:#ffffff
+        style t2 fill:#ffbb78,stroke:#d62728,stroke-width:3px
+        style t3 fill:#c7c7c7,stroke:#d62728,stroke-width:3px
+        linkStyle 1 stroke:#d62728,stroke-width:3px
+        linkStyle 2 stroke:#d62728,stroke-width:3px
+      "
+    `);
+  });
+
+  it("embeds the graph in a self-contained html page", () => {
+    const html = renderTargetGraph([createTarget("a#build", []), createTarget("</script>#build", [])], { format: "html" });
+
+    expect(html).toContain("<!DOCTYPE html>");
+    expect(html).not.toMatch(/<script src=|<link /);
+    expect(html).toContain('"id":"\\u003c/script>#build"');
+  });
+});
@@ -0,0 +1,168 @@
+import { LogLevel } from "@lage-run/logger";
+
+/**
+ * A minimal description of the shape of the lage config, used to validate `lage.config.js` at load time.
+ *
+ * Keep this in sync with `ConfigOptions`, `CacheOptions` and `TargetConfig` - the types cannot be checked at runtime.
+ */
+export type Schema =
+  | { type: "string" | "boolean" | "function" | "any" }
+  | { type: "number"; positive?: boolean }
+  | { type: "literal"; values: readonly (string | number | boolean)[] }
+  | { type: "array"; items: Schema }
+  | { type: "record"; values: Schema; keys?: { pattern: RegExp; message: string } }
+  | { type: "object"; properties: Record<string, Schema>; required?: string[] }
+  | { type: "tagged"; tag: string; variants: Record<string, Schema> }
+  | { type: "union"; schemas: Schema[] };
+
+const string: Schema = { type: "string" };
+const number: Schema = { type: "number" };
+const positiveNumber: Schema = { type: "number", positive: true };
+const boolean: Schema = { type: "boolean" };
+const func: Schema = { type: "function" };
+const any: Schema = { type: "any" };
+const stringArray: Schema = { type: "array", items: string };
+
+function literal(...values: (string | number | boolean)[]): Schema {
+  return { type: "literal", values };
+}
+
+function object(properties: Record<string, Schema>, required?: string[]): Schema {
+  return { type: "object", properties, required };
+}
+
+function union(...schemas: Schema[]): Schema {
+  return { type: "union", schemas };
+}
+
+const weight = union(number, func);
+
+const targetConfigSchema = object({
+  type: string,
+  deps: stringArray,
+  dependsOn: stringArray,
+  inputs: stringArray,
+  outputs: stringArray,
+  priority: number,
+  cache: boolean,
+  environmentGlob: stringArray,
+  env: stringArray,
+  passThroughEnv: stringArray,
+  maxWorkers: number,
+  weight,
+  options: { type: "record", values: any },
+  shouldRun: func,
+  stagedTarget: object({
+    type: string,
+    dependsOn: stringArray,
+    priority: number,
+    weight,
+    options: { type: "record", values: any },
+    threshold: number,
+  }),
+  retries: object({ count: number, backoff: number, exitCodes: { type: "array", items: number } }, ["count"]),
+  timeout: number,
+});
+
+const cacheStorageConfigSchema: Schema = {
+  type: "tagged",
+  tag: "provider",
+  variants: {
+    local: object({ provider: string }),
+    "local-skip": object({ provider: string }),
+    npm: object(
+      {
+        provider: string,
+        options: object({ npmPackageName: string, registryUrl: string, npmrcUserconfig: string }, ["npmPackageName", "registryUrl"]),
+      },
+      ["options"]
+    ),
+    "azure-blob": object(
+      {
+        provider: string,
+        options: object({ connectionString: string, container: string, maxSize: number, credential: any, containerClient: any }),
+      },
+      ["options"]
+    ),
+    "cloudflare-r2": object(
+      {
+        provider: string,
+        options: object({ accountId: string, bucket: string, apiToken: string, endpoint: string, region: string, maxSize: number }, [
+          "accountId",
+          "bucket",
+          "apiToken",
+        ]),
+      },
+      ["options"]
+    ),
+    http: object({ provider: string, options: object({ url: string, token: string, maxSize: number, timeout: number }, ["url"]) }, [
+      "options",
+    ]),
+  },
+};
+
+const cacheOptionsSchema = object({
+  // backfill options
+  cacheStorageConfig: cacheStorageConfigSchema,
+  outputGlob: stringArray,
+  clearOutput: boolean,
+  internalCacheFolder: string,
+  logFolder: string,
+  logLevel: literal("silly", "verbose", "info", "warn", "error", "mute"),
+  name: string,
+  mode: literal("READ_ONLY", "WRITE_ONLY", "READ_WRITE", "PASS"),
+  packageRoot: string,
+  producePerformanceLogs: boolean,
+  validateOutput: boolean,
+  incrementalCaching: boolean,
+  performanceReportName: string,
+
+  // lage options
+  writeRemoteCache: boolean,
+  skipLocalCache: boolean,
+  maxLocalCacheSize: positiveNumber,
+  integrity: boolean,
+  integrityKey: string,
+  compression: literal("none", "gzip", "brotli", "zstd"),
+  prefetchConcurrency: number,
+  environmentGlob: stringArray,
+  cacheKey: string,
+  env: stringArray,
+  passThroughEnv: stringArray,
+  strictEnv: boolean,
+});
+
+const pipelineEntrySchema = union(stringArray, targetConfigSchema);
+
+export const configSchema = object({
+  pipeline: { type: "record", values: pipelineEntrySchema },
+  cacheOptions: cacheOptionsSchema,
+  ignore: stringArray,
+  repoWideChanges: stringArray,
+  watchIgnore: stringArray,
+  npmClient: literal("npm", "yarn", "pnpm"),
+  priorities: { type: "array", items: object({ package: string, task: string, priority: number }, ["task", "priority"]) },
+  durationPriority: union(literal(false, "history"), object({ profile: string }, ["profile"])),
+  loggerOptions: object({
+    disp: { type: "record", values: string },
+    style: { type: "record", values: object({ fg: string, bg: string }) },
+    levels: { type: "record", values: literal(...Object.values(LogLevel)) },
+  }),
+  runners: { type: "record", values: object({ script: string, options: any }, ["script"]) },
+  workerIdleMemoryLimit: number,
+  concurrency: number,
+  allowNoTargetRuns: boolean,
+  enableTargetConfigMerging: boolean,
+});
+
+/**
+ * The pipeline of a package - in the `lage` key of its package.json, or in the `pipeline` of a `lage.config.js` next to it. It is keyed
+ * by task, as the entries only apply to the tasks of the package.
+ */
+export const packagePipelineSchema: Schema = {
+  type: "record",
+  values: pipelineEntrySchema,
+  keys: { pattern: /^[^#]+$/, message: "package pipelines are keyed by task name, without a package name" },
+};
+
+export const packageConfigSchema = object({ pipeline: packagePipelineSchema });
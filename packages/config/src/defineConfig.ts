@@ -0,0 +1,16 @@
+import type { ConfigOptions } from "./types/ConfigOptions.js";
+
+/**
+ * Identity function that gives type checking and completions for `lage.config.js`:
+ *
+ * ```js
+ * const { defineConfig } = require("lage");
+ *
+ * module.exports = defineConfig({
+ *   pipeline: { build: ["^build"] },
+ * });
+ * ```
+ */
+export function defineConfig(config: Partial<ConfigOptions>): Partial<ConfigOptions> {
+  return config;
+}
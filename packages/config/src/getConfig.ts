@@ -15,6 +15,7 @@ export async function getConfig(cwd: string): Promise<ConfigOptions> {
     npmClient: config?.npmClient ?? "npm",
     pipeline: config?.pipeline ?? {},
     priorities: config?.priorities ?? [],
+    durationPriority: config?.durationPriority ?? false,
     repoWideChanges: config?.repoWideChanges ?? [
       "lage.config.js",
       "package-lock.json",
@@ -23,6 +24,7 @@ export async function getConfig(cwd: string): Promise<ConfigOptions> {
       "lerna.json",
       "rush.json",
     ],
+    watchIgnore: config?.watchIgnore ?? ["**/node_modules/**", "**/dist/**", "**/build/**", "**/lib/**"],
     loggerOptions: config?.loggerOptions ?? {},
     runners: config?.runners ?? {},
     workerIdleMemoryLimit: config?.workerIdleMemoryLimit ?? os.totalmem(), // 0 means no limit,
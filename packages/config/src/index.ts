@@ -1,9 +1,15 @@
 export { getConfig } from "./getConfig.js";
 export { getConcurrency } from "./getConcurrency.js";
 export { getMaxWorkersPerTask, getMaxWorkersPerTaskFromOptions } from "./getMaxWorkersPerTask.js";
-export { readConfigFile } from "./readConfigFile.js";
+export { readConfigFile, findConfigFile } from "./readConfigFile.js";
+export type { ConfigFile } from "./readConfigFile.js";
+export { readPackageConfigs } from "./readPackageConfigs.js";
+export type { PackageConfig } from "./readPackageConfigs.js";
+export { defineConfig } from "./defineConfig.js";
+export { validateConfig, formatConfigValidationIssues } from "./validateConfig.js";
+export type { ConfigValidationIssue } from "./validateConfig.js";
 export type { PipelineDefinition } from "./types/PipelineDefinition.js";
 export type { ConfigOptions } from "./types/ConfigOptions.js";
-export type { CacheOptions, CloudflareR2CacheStorageConfig } from "./types/CacheOptions.js";
+export type { CacheCompression, CacheOptions, CloudflareR2CacheStorageConfig, HttpCacheStorageConfig } from "./types/CacheOptions.js";
 export type { LoggerOptions } from "./types/LoggerOptions.js";
 export type { Priority } from "./types/Priority.js";
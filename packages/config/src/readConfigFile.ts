@@ -1,13 +1,21 @@
 import { cosmiconfig } from "cosmiconfig";
 import { getWorkspaceRoot } from "workspace-tools";
 import type { ConfigOptions } from "./types/ConfigOptions.js";
+import { reportConfigValidationIssues, validateConfig } from "./validateConfig.js";
 
 const ConfigModuleName = "lage";
 
+export interface ConfigFile {
+  /** path of the config file that was found (e.g. `lage.config.js`, or the `package.json` with a `lage` key) */
+  filepath: string;
+  /** what the config file exports, not validated */
+  config: unknown;
+}
+
 /**
- * Read the lage config file if it exists, without filling in defaults.
+ * Find and load the lage config file if it exists, without validating it.
  */
-export async function readConfigFile(cwd: string): Promise<ConfigOptions | undefined> {
+export async function findConfigFile(cwd: string): Promise<ConfigFile | undefined> {
   // Verify presence of git
   const root = getWorkspaceRoot(cwd);
   if (!root) {
@@ -17,5 +25,26 @@ export async function readConfigFile(cwd: string): Promise<ConfigOptions | undef
   // Search for lage.config.js file
   const configExplorer = await cosmiconfig(ConfigModuleName);
   const results = await configExplorer.search(root ?? cwd);
-  return results?.config || undefined;
+
+  if (!results) {
+    return undefined;
+  }
+
+  // the config file may export a promise
+  return { filepath: results.filepath, config: await results.config };
+}
+
+/**
+ * Read the lage config file if it exists, without filling in defaults. Throws if the config is not valid, and warns about unknown options.
+ */
+export async function readConfigFile(cwd: string): Promise<ConfigOptions | undefined> {
+  const configFile = await findConfigFile(cwd);
+
+  if (!configFile?.config) {
+    return undefined;
+  }
+
+  reportConfigValidationIssues(configFile.filepath, validateConfig(configFile.config));
+
+  return configFile.config as ConfigOptions;
 }
@@ -0,0 +1,60 @@
+import { cosmiconfig } from "cosmiconfig";
+import fs from "fs";
+import path from "path";
+import type { PackageInfos } from "workspace-tools";
+import { packageConfigSchema, packagePipelineSchema } from "./configSchema.js";
+import type { PipelineDefinition } from "./types/PipelineDefinition.js";
+import { reportConfigValidationIssues, validateConfig } from "./validateConfig.js";
+
+/** config files that can sit next to the package.json of a package, in order of precedence */
+const PackageConfigFiles = ["lage.config.js", "lage.config.cjs"];
+
+export interface PackageConfig {
+  packageName: string;
+  /** path of the file defining the overrides: the package.json (in its `lage` key), or a `lage.config.js` next to it */
+  filepath: string;
+  /** pipeline entries for the tasks of the package, keyed by task name */
+  pipeline: PipelineDefinition;
+}
+
+/**
+ * Reads the pipeline overrides of the packages in the workspace, from the `lage` key of their package.json and from a `lage.config.js`
+ * next to it (which exports `{ pipeline }`). Throws if any of them is not valid, and warns about unknown options.
+ *
+ * @param root the workspace root - its own config (`lage.config.js` or the `lage` key of its package.json) is the root config, even if
+ *   the root is a package of the workspace
+ * @param packageInfos the packages of the workspace
+ * @returns the overrides in the order they should be applied, the ones from `lage.config.js` coming after the package.json of a package
+ */
+export async function readPackageConfigs(root: string, packageInfos: PackageInfos): Promise<PackageConfig[]> {
+  const configExplorer = cosmiconfig("lage");
+  const packageConfigs: PackageConfig[] = [];
+
+  for (const [packageName, packageInfo] of Object.entries(packageInfos)) {
+    const packageRoot = path.dirname(packageInfo.packageJsonPath);
+    if (path.resolve(packageRoot) === path.resolve(root)) {
+      continue;
+    }
+
+    if (packageInfo.lage) {
+      reportConfigValidationIssues(packageInfo.packageJsonPath, validateConfig(packageInfo.lage, packagePipelineSchema, "lage"));
+      packageConfigs.push({ packageName, filepath: packageInfo.packageJsonPath, pipeline: packageInfo.lage as PipelineDefinition });
+    }
+
+    const configFile = PackageConfigFiles.map((file) => path.join(packageRoot, file)).find((filepath) => fs.existsSync(filepath));
+
+    if (configFile) {
+      const results = await configExplorer.load(configFile);
+
+      // the config file may export a promise
+      const config = await results?.config;
+      reportConfigValidationIssues(configFile, validateConfig(config, packageConfigSchema));
+
+      if (config?.pipeline) {
+        packageConfigs.push({ packageName, filepath: configFile, pipeline: config.pipeline });
+      }
+    }
+  }
+
+  return packageConfigs;
+}
@@ -12,12 +12,45 @@ export interface CloudflareR2CacheStorageConfig {
   };
 }
 
+export interface HttpCacheStorageConfig {
+  provider: "http";
+  options: {
+    /**
+     * Base URL of the cache server - artifacts are stored at `<url>/<hash>` (e.g. the address of `lage cache serve`)
+     */
+    url: string;
+
+    /**
+     * Bearer token sent in the `Authorization` header
+     */
+    token?: string;
+
+    /**
+     * Maximum artifact size to download (in bytes)
+     */
+    maxSize?: number;
+
+    /**
+     * Request timeout (in milliseconds), defaults to 10 minutes
+     */
+    timeout?: number;
+  };
+}
+
+/**
+ * How artifacts are compressed in the remote cache. `zstd` needs a version of Node that has it in `zlib`, and falls back to `gzip`.
+ */
+export type CacheCompression = "none" | "gzip" | "brotli" | "zstd";
+
 export type CacheOptions = Omit<BackfillCacheOptions, "cacheStorageConfig"> & {
   /**
-   * Use this to specify a remote cache provider such as `'azure-blob'` or `'cloudflare-r2'`.
+   * Use this to specify a remote cache provider such as `'azure-blob'`, `'cloudflare-r2'` or `'http'`.
    * @see https://github.com/microsoft/backfill#configuration
    */
-  cacheStorageConfig?: Exclude<BackfillCacheOptions["cacheStorageConfig"], CustomStorageConfig> | CloudflareR2CacheStorageConfig;
+  cacheStorageConfig?:
+    | Exclude<BackfillCacheOptions["cacheStorageConfig"], CustomStorageConfig>
+    | CloudflareR2CacheStorageConfig
+    | HttpCacheStorageConfig;
 
   /**
    * Whether to write to the remote cache - useful for continuous integration systems to provide build-over-build cache.
@@ -30,12 +63,63 @@ export type CacheOptions = Omit<BackfillCacheOptions, "cacheStorageConfig"> & {
    */
   skipLocalCache?: boolean;
 
+  /**
+   * Maximum size of the local cache, in gigabytes (e.g. `5` or `0.5`). When set, `lage run` evicts the least recently used entries
+   * in the background once the local cache grows larger than this. `lage cache --prune-size <GB>` evicts them on demand.
+   */
+  maxLocalCacheSize?: number;
+
+  /**
+   * Adds an integrity manifest (a SHA-256 digest of every output) to each entry written to the remote cache, and checks it before
+   * restoring an entry from the remote cache. Entries that are missing the manifest or do not match it are treated as cache misses.
+   */
+  integrity?: boolean;
+
+  /**
+   * Key that signs the integrity manifests with an HMAC, so that only those who have the key can write entries that pass the check.
+   * Turns on `integrity`. It can also be set with the `LAGE_CACHE_INTEGRITY_KEY` environment variable, which is preferable to
+   * committing it to the config file.
+   */
+  integrityKey?: string;
+
+  /**
+   * Compresses the artifacts that are written to the `cloudflare-r2` and `http` remote caches, defaults to `"none"`. Artifacts record
+   * how they were compressed, so entries written with another compression (or none) can still be read.
+   */
+  compression?: CacheCompression;
+
+  /**
+   * How many entries of the remote cache `lage run` downloads at once into the local cache ahead of the targets that need them,
+   * defaults to 4. The targets are hashed as soon as the hashes of their dependencies are known, so that the downloads do not wait for
+   * the targets to be scheduled. `0` turns this off.
+   */
+  prefetchConcurrency?: number;
+
   /**
    * A list of globs to match files whose contents will determine the cache key in addition to the package file contents
    * The globs are relative to the root of the project.
    */
   environmentGlob?: string[];
 
+  /**
+   * Environment variables whose values are part of the hash of every target (e.g. `["NODE_ENV", "NEXT_PUBLIC_*"]`).
+   * Wildcards (`*`) are supported. Targets can declare more of them with their own `env` option.
+   */
+  env?: string[];
+
+  /**
+   * Environment variables that are passed through to every target when `strictEnv` is on, without being part of the hashes
+   * (e.g. `["GITHUB_TOKEN"]`). Wildcards (`*`) are supported. Targets can declare more of them with their own `passThroughEnv` option.
+   */
+  passThroughEnv?: string[];
+
+  /**
+   * Only pass the declared environment variables (`env` and `passThroughEnv` of the cache options and of the target) to the targets,
+   * along with a few system variables such as `PATH` and `HOME`. This makes sure that a target cannot depend on a variable that
+   * is not part of its hash.
+   */
+  strictEnv?: boolean;
+
   /**
    * The cache key is a custom string that will be concatenated with the package file contents and the environment glob contents
    * to generate the cache key.
@@ -34,12 +34,23 @@ export interface ConfigOptions {
   /** disables --since flag when any of this list of files changed */
   repoWideChanges: string[];
 
+  /** Which files to ignore when watching for changes with --watch (e.g. build outputs) */
+  watchIgnore: string[];
+
   /** Which NPM Client to use when running npm lifecycle scripts */
   npmClient: NpmClient;
 
   /** Optional priority to set on tasks in a package to make the scheduler give priority to tasks on the critical path for high priority tasks */
   priorities: Priority[];
 
+  /**
+   * Weights the critical path priorities of targets by how long they took in the past, so that the longest chains of targets
+   * (e.g. typecheck-heavy packages) start first. The durations only order targets of equal priority. Use "history" for the runs
+   * recorded by lage (see `lage history`), or the path of a profile written with `lage run --profile`. Without any past durations,
+   * targets are prioritized as usual.
+   */
+  durationPriority: false | "history" | { profile: string };
+
   /**
    * Options that will be sent to all log reporters.
    */
@@ -0,0 +1,252 @@
+import { configSchema, type Schema } from "./configSchema.js";
+
+// config files are read by several commands in the same process, only warn about them once
+const warnedConfigFiles = new Set<string>();
+
+export interface ConfigValidationIssue {
+  /** key path of the invalid value, e.g. `pipeline.build.dependsOn` */
+  path: string;
+  message: string;
+  /** unknown options are only warnings, so that configs with leftover options keep working */
+  severity: "error" | "warning";
+}
+
+function formatPath(path: string, key: string | number) {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return path ? `${path}.${key}` : key;
+  }
+
+  return `${path}[${JSON.stringify(key)}]`;
+}
+
+function levenshtein(a: string, b: string) {
+  const distances = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let previous = distances[0];
+    distances[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const current = distances[j];
+      distances[j] = Math.min(distances[j] + 1, distances[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+
+  return distances[b.length];
+}
+
+/**
+ * Finds the candidate closest to the given (misspelled) value, if any is close enough to be a likely typo
+ */
+export function didYouMean(value: string, candidates: string[]): string | undefined {
+  let suggestion: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(value.length / 3)) + 1;
+
+  for (const candidate of candidates) {
+    const distance = levenshtein(value.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      suggestion = candidate;
+    }
+  }
+
+  return suggestion;
+}
+
+function withSuggestion(message: string, value: string, candidates: string[]) {
+  const suggestion = didYouMean(value, candidates);
+  return suggestion ? `${message} - did you mean "${suggestion}"?` : message;
+}
+
+function describe(schema: Schema): string {
+  switch (schema.type) {
+    case "literal":
+      return schema.values.map((value) => JSON.stringify(value)).join(" or ");
+    case "array":
+      return `an array of ${describe(schema.items).replace(/^an? /, "")}s`;
+    case "record":
+    case "object":
+    case "tagged":
+      return "an object";
+    case "union":
+      return schema.schemas.map(describe).join(" or ");
+    case "any":
+      return "any value";
+    case "number":
+      return schema.positive ? "a positive number" : "a number";
+    default:
+      return `a ${schema.type}`;
+  }
+}
+
+function describeValue(value: unknown) {
+  if (value === null) {
+    return "null";
+  }
+
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+
+  return typeof value === "object" ? "an object" : `${typeof value} ${JSON.stringify(value) ?? ""}`.trim();
+}
+
+/**
+ * Whether the value has the right JS type for the schema, regardless of its content - used to pick the union member to report on
+ */
+function matchesType(schema: Schema, value: unknown): boolean {
+  switch (schema.type) {
+    case "literal":
+      return schema.values.some((literal) => typeof literal === typeof value);
+    case "array":
+      return Array.isArray(value);
+    case "record":
+    case "object":
+    case "tagged":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "union":
+      return schema.schemas.some((member) => matchesType(member, value));
+    case "any":
+      return true;
+    default:
+      return typeof value === schema.type;
+  }
+}
+
+function validate(schema: Schema, value: unknown, path: string, issues: ConfigValidationIssue[]) {
+  if (!matchesType(schema, value)) {
+    issues.push({ path, message: `expected ${describe(schema)}, got ${describeValue(value)}`, severity: "error" });
+    return;
+  }
+
+  switch (schema.type) {
+    case "number":
+      if (schema.positive && !(Number.isFinite(value) && (value as number) > 0)) {
+        issues.push({ path, message: `expected ${describe(schema)}, got ${value}`, severity: "error" });
+      }
+      break;
+
+    case "literal":
+      if (!schema.values.includes(value as string | number | boolean)) {
+        const message = `expected ${describe(schema)}, got ${JSON.stringify(value)}`;
+        const candidates = schema.values.filter((literal): literal is string => typeof literal === "string");
+        issues.push({ path, message: typeof value === "string" ? withSuggestion(message, value, candidates) : message, severity: "error" });
+      }
+      break;
+
+    case "array":
+      (value as unknown[]).forEach((item, index) => validate(schema.items, item, formatPath(path, index), issues));
+      break;
+
+    case "record":
+      for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        if (schema.keys && !schema.keys.pattern.test(key)) {
+          issues.push({ path: formatPath(path, key), message: schema.keys.message, severity: "error" });
+        } else {
+          validate(schema.values, item, formatPath(path, key), issues);
+        }
+      }
+      break;
+
+    case "object": {
+      const properties = Object.keys(schema.properties);
+
+      for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        if (schema.properties[key]) {
+          if (item !== undefined) {
+            validate(schema.properties[key], item, formatPath(path, key), issues);
+          }
+        } else {
+          issues.push({ path: formatPath(path, key), message: withSuggestion("unknown option", key, properties), severity: "warning" });
+        }
+      }
+
+      for (const key of schema.required ?? []) {
+        if ((value as Record<string, unknown>)[key] === undefined) {
+          issues.push({ path: formatPath(path, key), message: "is required", severity: "error" });
+        }
+      }
+      break;
+    }
+
+    case "tagged": {
+      const tag = (value as Record<string, unknown>)[schema.tag];
+      const tags = Object.keys(schema.variants);
+
+      if (typeof tag !== "string" || !schema.variants[tag]) {
+        const message = `expected ${tags.map((t) => JSON.stringify(t)).join(", ")}, got ${describeValue(tag)}`;
+        issues.push({
+          path: formatPath(path, schema.tag),
+          message: typeof tag === "string" ? withSuggestion(message, tag, tags) : message,
+          severity: "error",
+        });
+      } else {
+        validate(schema.variants[tag], value, path, issues);
+      }
+      break;
+    }
+
+    case "union": {
+      const members = schema.schemas.filter((member) => matchesType(member, value));
+      const memberIssues = members.map((member) => {
+        const found: ConfigValidationIssue[] = [];
+        validate(member, value, path, found);
+        return found;
+      });
+
+      if (memberIssues.every((found) => found.some((issue) => issue.severity === "error"))) {
+        // report on the member that came closest to matching
+        issues.push(...memberIssues.reduce((best, found) => (found.length < best.length ? found : best)));
+      } else {
+        issues.push(...memberIssues.find((found) => !found.some((issue) => issue.severity === "error"))!);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Validates a lage config (as exported by `lage.config.js`) against the shape of `ConfigOptions`, `TargetConfig` and `CacheOptions`.
+ *
+ * @param config the config to validate
+ * @param schema the schema to validate against - defaults to the schema of the root config
+ * @param path the key path of the config, when it is nested in a file (e.g. `lage` in a package.json)
+ * @returns the list of problems found, empty if the config is valid
+ */
+export function validateConfig(config: unknown, schema: Schema = configSchema, path = ""): ConfigValidationIssue[] {
+  const issues: ConfigValidationIssue[] = [];
+  validate(schema, config, path, issues);
+  return issues.map((issue) => ({ ...issue, path: issue.path || "(config)" }));
+}
+
+/**
+ * Formats the problems found in a config file, one per line
+ */
+export function formatConfigValidationIssues(filepath: string, issues: ConfigValidationIssue[]) {
+  const title = issues.some((issue) => issue.severity === "error")
+    ? `Invalid lage config in ${filepath}:`
+    : `Problems in the lage config ${filepath}:`;
+  return [title, ...issues.map((issue) => `  - ${issue.path}: ${issue.message}${issue.severity === "warning" ? " (warning)" : ""}`)].join(
+    "\n"
+  );
+}
+
+/**
+ * Throws if the problems found in a config file include errors, and warns (once per file) about the other ones
+ */
+export function reportConfigValidationIssues(filepath: string, issues: ConfigValidationIssue[]) {
+  if (issues.some((issue) => issue.severity === "error")) {
+    throw new Error(formatConfigValidationIssues(filepath, issues));
+  }
+
+  if (issues.length > 0 && !warnedConfigFiles.has(filepath)) {
+    warnedConfigFiles.add(filepath);
+    // eslint-disable-next-line no-console
+    console.warn(formatConfigValidationIssues(filepath, issues));
+  }
+}
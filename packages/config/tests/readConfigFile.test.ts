@@ -0,0 +1,47 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { readConfigFile } from "../src/readConfigFile";
+
+describe("readConfigFile", () => {
+  let root: string;
+
+  function writeConfig(content: string) {
+    fs.writeFileSync(path.join(root, "lage.config.js"), content);
+    return fs.realpathSync(path.join(root, "lage.config.js"));
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "read-config-file"));
+    fs.writeFileSync(path.join(root, "package.json"), JSON.stringify({ name: "root", private: true, workspaces: ["packages/*"] }));
+    fs.writeFileSync(path.join(root, "yarn.lock"), "");
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it("throws with every problem of an invalid config file", async () => {
+    const configFile = writeConfig(
+      `module.exports = { pipeline: { build: { dependOn: ["^build"], maxWorkers: "2" } }, npmClient: "yran" };`
+    );
+
+    await expect(readConfigFile(root)).rejects.toThrow(
+      [
+        `Invalid lage config in ${configFile}:`,
+        '  - pipeline.build.dependOn: unknown option - did you mean "dependsOn"? (warning)',
+        '  - pipeline.build.maxWorkers: expected a number, got string "2"',
+        '  - npmClient: expected "npm" or "yarn" or "pnpm", got "yran" - did you mean "yarn"?',
+      ].join("\n")
+    );
+  });
+
+  it("only warns about unknown options", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const configFile = writeConfig(`module.exports = { pipeline: { build: ["^build"] }, cache: true };`);
+
+    expect(await readConfigFile(root)).toEqual({ pipeline: { build: ["^build"] }, cache: true });
+    expect(warn).toHaveBeenCalledWith([`Problems in the lage config ${configFile}:`, "  - cache: unknown option (warning)"].join("\n"));
+  });
+});
@@ -0,0 +1,73 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { PackageInfos } from "workspace-tools";
+import { readPackageConfigs } from "../src/readPackageConfigs";
+
+describe("readPackageConfigs", () => {
+  let root: string;
+
+  function createPackage(name: string, lage?: unknown, configFile?: string): PackageInfos {
+    const packageRoot = path.join(root, "packages", name);
+    fs.mkdirSync(packageRoot, { recursive: true });
+
+    if (configFile) {
+      fs.writeFileSync(path.join(packageRoot, "lage.config.js"), configFile);
+    }
+
+    return { [name]: { name, version: "1.0.0", packageJsonPath: path.join(packageRoot, "package.json"), ...(lage ? { lage } : {}) } };
+  }
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "read-package-configs")));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("reads the lage key of package.json and the lage.config.js next to it, in that order", async () => {
+    const packageInfos = {
+      ...createPackage("a", { build: ["^build"] }, `module.exports = { pipeline: { build: { outputs: ["dist/**"] } } };`),
+      ...createPackage("b"),
+      ...createPackage("c", undefined, `module.exports = Promise.resolve({ pipeline: { test: { inputs: ["src/**"] } } });`),
+    };
+
+    expect(await readPackageConfigs(root, packageInfos)).toEqual([
+      { packageName: "a", filepath: path.join(root, "packages/a/package.json"), pipeline: { build: ["^build"] } },
+      { packageName: "a", filepath: path.join(root, "packages/a/lage.config.js"), pipeline: { build: { outputs: ["dist/**"] } } },
+      { packageName: "c", filepath: path.join(root, "packages/c/lage.config.js"), pipeline: { test: { inputs: ["src/**"] } } },
+    ]);
+  });
+
+  it("does not read the root config file as the config of a package", async () => {
+    fs.writeFileSync(path.join(root, "lage.config.js"), `module.exports = { pipeline: { "a#build": ["^build"] } };`);
+    const packageInfos = {
+      root: { name: "root", version: "1.0.0", packageJsonPath: path.join(root, "package.json"), lage: { pipeline: { "a#test": [] } } },
+    };
+
+    expect(await readPackageConfigs(root, packageInfos)).toEqual([]);
+  });
+
+  it("throws for pipeline entries of other packages", async () => {
+    const packageInfos = createPackage("a", { "b#build": ["^build"] });
+
+    await expect(readPackageConfigs(root, packageInfos)).rejects.toThrow(
+      [
+        `Invalid lage config in ${path.join(root, "packages/a/package.json")}:`,
+        '  - lage["b#build"]: package pipelines are keyed by task name, without a package name',
+      ].join("\n")
+    );
+  });
+
+  it("throws for invalid package config files", async () => {
+    const packageInfos = createPackage("a", undefined, `module.exports = { pipeline: { build: { outputs: "dist/**" } } };`);
+
+    await expect(readPackageConfigs(root, packageInfos)).rejects.toThrow(
+      [
+        `Invalid lage config in ${path.join(root, "packages/a/lage.config.js")}:`,
+        '  - pipeline.build.outputs: expected an array of strings, got string "dist/**"',
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { validateConfig } from "../src/validateConfig";
+
+describe("validateConfig", () => {
+  it("accepts a valid config", () => {
+    expect(
+      validateConfig({
+        pipeline: {
+          build: ["^build"],
+          "pkg-a#test": {
+            dependsOn: ["build"],
+            type: "worker",
+            weight: () => 2,
+            options: { worker: "worker.js" },
+            retries: { count: 2 },
+          },
+        },
+        npmClient: "yarn",
+        cacheOptions: {
+          outputGlob: ["lib/**"],
+          cacheStorageConfig: { provider: "http", options: { url: "http://localhost:3000" } },
+        },
+        priorities: [{ package: "pkg-a", task: "build", priority: 10 }],
+        durationPriority: "history",
+      })
+    ).toEqual([]);
+  });
+
+  it("accepts the log levels of the logger options", () => {
+    expect(validateConfig({ loggerOptions: { disp: { foo: "FOO" }, levels: { foo: 30 } } })).toEqual([]);
+    expect(validateConfig({ loggerOptions: { levels: { foo: "info" } } })).toEqual([
+      { path: "loggerOptions.levels.foo", message: 'expected 10 or 20 or 30 or 40 or 50, got string "info"', severity: "error" },
+    ]);
+  });
+
+  it("reports unknown options with suggestions", () => {
+    expect(validateConfig({ pipeline: { "pkg#build": { dependOn: ["^build"] } }, concurency: 2, foo: true })).toEqual([
+      { path: 'pipeline["pkg#build"].dependOn', message: 'unknown option - did you mean "dependsOn"?', severity: "warning" },
+      { path: "concurency", message: 'unknown option - did you mean "concurrency"?', severity: "warning" },
+      { path: "foo", message: "unknown option", severity: "warning" },
+    ]);
+  });
+
+  it("reports values of the wrong type", () => {
+    expect(validateConfig({ pipeline: { build: { maxWorkers: "4", dependsOn: "^build" } }, ignore: "*.md" })).toEqual([
+      { path: "pipeline.build.maxWorkers", message: 'expected a number, got string "4"', severity: "error" },
+      { path: "pipeline.build.dependsOn", message: 'expected an array of strings, got string "^build"', severity: "error" },
+      { path: "ignore", message: 'expected an array of strings, got string "*.md"', severity: "error" },
+    ]);
+  });
+
+  it("reports sizes that are not positive numbers", () => {
+    expect(validateConfig({ cacheOptions: { maxLocalCacheSize: 0 } })).toEqual([
+      { path: "cacheOptions.maxLocalCacheSize", message: "expected a positive number, got 0", severity: "error" },
+    ]);
+    expect(validateConfig({ cacheOptions: { maxLocalCacheSize: NaN } })).toEqual([
+      { path: "cacheOptions.maxLocalCacheSize", message: "expected a positive number, got NaN", severity: "error" },
+    ]);
+    expect(validateConfig({ cacheOptions: { maxLocalCacheSize: 0.5 } })).toEqual([]);
+  });
+
+  it("reports unknown literal values and cache providers", () => {
+    expect(validateConfig({ npmClient: "yran", cacheOptions: { cacheStorageConfig: { provider: "azure-blobs", options: {} } } })).toEqual([
+      { path: "npmClient", message: 'expected "npm" or "yarn" or "pnpm", got "yran" - did you mean "yarn"?', severity: "error" },
+      {
+        path: "cacheOptions.cacheStorageConfig.provider",
+        message:
+          'expected "local", "local-skip", "npm", "azure-blob", "cloudflare-r2", "http", got string "azure-blobs" - did you mean "azure-blob"?',
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("reports missing required options", () => {
+    expect(
+      validateConfig({ cacheOptions: { cacheStorageConfig: { provider: "http", options: {} } }, priorities: [{ task: "build" }] })
+    ).toEqual([
+      { path: "cacheOptions.cacheStorageConfig.options.url", message: "is required", severity: "error" },
+      { path: "priorities[0].priority", message: "is required", severity: "error" },
+    ]);
+  });
+
+  it("rejects a config that is not an object", () => {
+    expect(validateConfig(["build"])).toEqual([{ path: "(config)", message: "expected an object, got an array", severity: "error" }]);
+  });
+});
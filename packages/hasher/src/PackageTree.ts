@@ -22,7 +22,7 @@ interface PathNode {
 /**
  * Package Tree keeps a data structure to quickly find all files in a package.
  *
- * TODO: add a watcher to make sure the tree is up to date during a "watched" run.
+ * During a "watched" run, the watcher keeps the tree up to date with `addToPackageTree()` and `removeFromPackageTree()`.
  */
 export class PackageTree {
   #tree: PathNode = { children: {}, isPackage: true };
@@ -81,6 +81,9 @@ export class PackageTree {
     // key: path/to/package (packageRoot), value: array of a tuple of [file, hash]
     const packageFiles = this.#packageFiles;
 
+    // the set of files changed, so the memoized glob results are stale
+    this.#memoizedPackageFiles = {};
+
     for (const entry of filePaths) {
       const pathParts = entry.split(/[\\/]/);
 
@@ -108,6 +111,16 @@ export class PackageTree {
     }
   }
 
+  removeFromPackageTree(filePaths: string[]) {
+    const removed = new Set(filePaths);
+
+    this.#memoizedPackageFiles = {};
+
+    for (const [packageRoot, files] of Object.entries(this.#packageFiles)) {
+      this.#packageFiles[packageRoot] = files.filter((file) => !removed.has(file));
+    }
+  }
+
   getPackageFiles(packageName: string, patterns: string[]) {
     const { root, packageInfos } = this.options;
     const packagePath = path.relative(root, path.dirname(packageInfos[packageName].packageJsonPath)).replace(/\\/g, "/");
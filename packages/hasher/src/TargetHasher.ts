@@ -1,4 +1,4 @@
-import type { Target } from "@lage-run/target-graph";
+import { type Target, matchEnvVariables } from "@lage-run/target-graph";
 import { hash } from "glob-hasher";
 import { globAsync } from "@lage-run/globby";
 
@@ -26,6 +26,8 @@ import { getInputFiles } from "./getInputFiles.js";
 export interface TargetHasherOptions {
   root: string;
   environmentGlob: string[];
+  /** environment variables (or `*` wildcard patterns) whose values are part of the hash of every target */
+  env?: string[];
   cacheKey?: string;
   cliArgs?: string[];
   logger?: Logger;
@@ -47,13 +49,35 @@ export interface TargetManifest {
   >;
 }
 
+/**
+ * The components that went into a target's hash, written to `node_modules/.cache/lage/hashes/<target id>.json` so that a later run can
+ * explain why a target's hash changed.
+ */
+export interface TargetHashManifest {
+  hash: string;
+  /** hashes of the target's input files */
+  fileHashes: Record<string, string>;
+  /** hashes of the environment glob files */
+  globalFileHashes: Record<string, string>;
+  /** hashes of the values of the declared environment variables - the values themselves are not recorded as they may be secrets */
+  envHashes: Record<string, string>;
+  /** workspace packages the target's package depends on */
+  internalDependencies: string[];
+  /** external dependencies (and their transitive dependencies) resolved from the lockfile, as `name@version` */
+  externalDependencies: string[];
+  /** hashes of the upstream targets, keyed by target id */
+  targetDependencies: Record<string, string>;
+  cliArgs: string[];
+  cacheKey: string;
+}
+
 /**
  * TargetHasher is a class that can be used to generate a hash of a target.
  *
  * Currently, it encapsulates the use of `backfill-hasher` to generate a hash.
  */
 export class TargetHasher {
-  targetHashesLog: Record<string, { fileHashes: Record<string, string>; globalFileHashes: Record<string, string> }> = {};
+  targetHashesLog: Record<string, TargetHashManifest> = {};
   targetHashesDirectory: string;
 
   logger: Logger | undefined;
@@ -164,6 +188,17 @@ export class TargetHasher {
   }
 
   async hash(target: Target): Promise<string> {
+    const { hash, manifest } = await this.computeHash(target, this.targetHashes);
+    this.targetHashesLog[target.id] = manifest;
+    return hash;
+  }
+
+  /**
+   * Computes the hash of a target without recording it in the hasher: the hashes of its dependencies are read from `targetHashes`, and
+   * its own hash is added to it. This lets the hashes be computed ahead of the run (e.g. to prefetch cache entries) without touching the
+   * hashes of the run.
+   */
+  async computeHash(target: Target, targetHashes: Record<string, string>): Promise<{ hash: string; manifest: TargetHashManifest }> {
     this.ensureInitialized();
 
     const { root } = this.options;
@@ -176,9 +211,25 @@ export class TargetHasher {
       const files = await globAsync(target.inputs, { cwd: root });
       const fileFashes = hash(files, { cwd: root }) ?? {};
 
-      const hashes = Object.values(fileFashes) as string[];
-
-      return hashStrings(hashes);
+      const envHashes = this.getEnvHashes(target);
+      const hashes = [...(Object.values(fileFashes) as string[]), ...this.getEnvHashStrings(envHashes)];
+
+      const rootHashString = hashStrings(hashes);
+
+      return {
+        hash: rootHashString,
+        manifest: {
+          hash: rootHashString,
+          fileHashes: fileFashes as Record<string, string>,
+          globalFileHashes: {},
+          envHashes,
+          internalDependencies: [],
+          externalDependencies: [],
+          targetDependencies: {},
+          cliArgs: [],
+          cacheKey: "",
+        },
+      };
     }
 
     // 1. add hash of target's inputs
@@ -201,13 +252,16 @@ export class TargetHasher {
     const fileHashes = this.fileHasher.hash(files) ?? {}; // this list is sorted by file name
 
     // get target hashes
-    const targetDepHashes = target.dependencies?.sort().map((targetDep) => this.targetHashes[targetDep]);
+    const targetDependencies = target.dependencies?.sort() ?? [];
+    const targetDepHashes = targetDependencies.map((targetDep) => targetHashes[targetDep]);
 
     const globalFileHashes = await this.getEnvironmentGlobHashes(root, target);
+    const envHashes = this.getEnvHashes(target);
 
     const combinedHashes = [
       // Environmental hashes
       ...Object.values(globalFileHashes),
+      ...this.getEnvHashStrings(envHashes),
       `${target.id}|${JSON.stringify(this.options.cliArgs)}`,
       this.options.cacheKey || "",
 
@@ -221,21 +275,52 @@ export class TargetHasher {
 
     const hashString = hashStrings(combinedHashes);
 
-    this.targetHashes[target.id] = hashString;
-
-    this.targetHashesLog[target.id] = { fileHashes, globalFileHashes };
+    targetHashes[target.id] = hashString;
+
+    return {
+      hash: hashString,
+      manifest: {
+        hash: hashString,
+        fileHashes,
+        globalFileHashes,
+        envHashes,
+        internalDependencies: [...internalDeps].sort(),
+        externalDependencies: [...externalDeps].sort(),
+        targetDependencies: Object.fromEntries(
+          targetDependencies.filter((targetDep) => targetHashes[targetDep]).map((targetDep) => [targetDep, targetHashes[targetDep]])
+        ),
+        cliArgs: this.options.cliArgs ?? [],
+        cacheKey: this.options.cacheKey || "",
+      },
+    };
+  }
 
-    return hashString;
+  getTargetHashesManifestPath(id: string) {
+    return path.join(this.targetHashesDirectory, `${id}.json`);
   }
 
   writeTargetHashesManifest() {
-    for (const [id, { fileHashes, globalFileHashes }] of Object.entries(this.targetHashesLog)) {
-      const targetHashesManifestPath = path.join(this.targetHashesDirectory, `${id}.json`);
+    for (const [id, manifest] of Object.entries(this.targetHashesLog)) {
+      const targetHashesManifestPath = this.getTargetHashesManifestPath(id);
       if (!fs.existsSync(path.dirname(targetHashesManifestPath))) {
         fs.mkdirSync(path.dirname(targetHashesManifestPath), { recursive: true });
       }
-      fs.writeFileSync(targetHashesManifestPath, JSON.stringify({ fileHashes, globalFileHashes }), "utf-8");
+      fs.writeFileSync(targetHashesManifestPath, JSON.stringify(manifest), "utf-8");
+    }
+  }
+
+  /**
+   * Reads the manifest written by a previous run for the given target. Manifests written by older versions only contain
+   * `fileHashes` and `globalFileHashes`.
+   */
+  readTargetHashesManifest(id: string): Partial<TargetHashManifest> | undefined {
+    const targetHashesManifestPath = this.getTargetHashesManifestPath(id);
+
+    if (!fs.existsSync(targetHashesManifestPath)) {
+      return undefined;
     }
+
+    return JSON.parse(fs.readFileSync(targetHashesManifestPath, "utf-8"));
   }
 
   async getEnvironmentGlobHashes(root: string, target: Target) {
@@ -246,6 +331,19 @@ export class TargetHasher {
     return globalFileHashes;
   }
 
+  /**
+   * Hashes the values of the environment variables declared by the cache options and the target, keyed by variable name
+   */
+  getEnvHashes(target: Target): Record<string, string> {
+    const env = matchEnvVariables([...(this.options.env ?? []), ...(target.env ?? [])]);
+    return Object.fromEntries(Object.entries(env).map(([name, value]) => [name, hashStrings(value)]));
+  }
+
+  private getEnvHashStrings(envHashes: Record<string, string>) {
+    // include the names so that moving a value from one variable to another changes the hash
+    return Object.entries(envHashes).map(([name, valueHash]) => `${name}=${valueHash}`);
+  }
+
   async cleanup() {
     this.writeTargetHashesManifest();
     await this.fileHasher.writeManifest();
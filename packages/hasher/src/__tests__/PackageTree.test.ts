@@ -75,4 +75,31 @@ describe("PackageTree", () => {
     expect(files2).toHaveLength(1);
     expect(allFiles2).toHaveLength(3);
   });
+
+  test("can add and remove files of a monorepo", async () => {
+    const monorepo = new Monorepo("monorepo-updated");
+    await monorepo.init(path.join(fixturesPath, "monorepo"));
+    const packageRoot = monorepo.root;
+
+    const packageInfos = getPackageInfos(packageRoot);
+
+    const packageTree = new PackageTree({
+      includeUntracked: true,
+      root: packageRoot,
+      packageInfos,
+    });
+
+    await packageTree.initialize();
+
+    expect(packageTree.getPackageFiles("package-a", ["**/*.ts"])).toHaveLength(1);
+
+    packageTree.addToPackageTree(["packages/package-a/src/added.ts"]);
+
+    expect(packageTree.getPackageFiles("package-a", ["**/*.ts"])).toContain("packages/package-a/src/added.ts");
+    expect(packageTree.getPackageFiles("package-a", ["**/*.ts"])).toHaveLength(2);
+
+    packageTree.removeFromPackageTree(["packages/package-a/src/added.ts"]);
+
+    expect(packageTree.getPackageFiles("package-a", ["**/*.ts"])).toHaveLength(1);
+  });
 });
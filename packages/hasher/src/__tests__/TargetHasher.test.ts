@@ -172,4 +172,78 @@ describe("The main Hasher class", () => {
 
     monorepo1.cleanup();
   });
+
+  it("creates different hashes when a declared environment variable changes", async () => {
+    const monorepo1 = await setupFixture("monorepo");
+    const hasher = new TargetHasher({ root: monorepo1.root, environmentGlob: [], env: ["LAGE_TEST_GLOBAL"] });
+    const target = createTarget(monorepo1.root, "package-a", "build");
+    target.env = ["LAGE_TEST_PUBLIC_*"];
+
+    const hash = await getHash(hasher, target);
+
+    process.env.LAGE_TEST_PUBLIC_URL = "https://example.com";
+    const hash2 = await getHash(hasher, target);
+
+    process.env.LAGE_TEST_GLOBAL = "1";
+    const hash3 = await getHash(hasher, target);
+
+    // undeclared variables are not part of the hash
+    process.env.LAGE_TEST_UNDECLARED = "1";
+    const hash4 = await getHash(hasher, target);
+
+    const manifest = hasher.readTargetHashesManifest(target.id)!;
+
+    delete process.env.LAGE_TEST_PUBLIC_URL;
+    delete process.env.LAGE_TEST_GLOBAL;
+    delete process.env.LAGE_TEST_UNDECLARED;
+
+    expect(hash).not.toEqual(hash2);
+    expect(hash2).not.toEqual(hash3);
+    expect(hash3).toEqual(hash4);
+    expect(Object.keys(manifest.envHashes!)).toEqual(["LAGE_TEST_GLOBAL", "LAGE_TEST_PUBLIC_URL"]);
+    expect(Object.values(manifest.envHashes!)).not.toContain("https://example.com");
+
+    monorepo1.cleanup();
+  });
+
+  it("records the components of the hash in the target manifest", async () => {
+    const monorepo1 = await setupFixture("monorepo-with-deps");
+    const hasher = new TargetHasher({ root: monorepo1.root, environmentGlob: [], cliArgs: ["--coverage"], cacheKey: "v1" });
+    const target = createTarget(monorepo1.root, "package-a", "build");
+
+    const hash = await getHash(hasher, target);
+
+    const manifest = hasher.readTargetHashesManifest(target.id)!;
+
+    expect(manifest.hash).toBe(hash);
+    expect(Object.keys(manifest.fileHashes!).length).toBeGreaterThan(0);
+    expect(manifest.internalDependencies).toEqual(["package-b"]);
+    expect(manifest.cliArgs).toEqual(["--coverage"]);
+    expect(manifest.cacheKey).toBe("v1");
+
+    monorepo1.cleanup();
+  });
+
+  it("computes hashes without recording them in the hasher", async () => {
+    const monorepo1 = await setupFixture("monorepo-with-deps");
+    const hasher = new TargetHasher({ root: monorepo1.root, environmentGlob: [] });
+    await hasher.initialize();
+
+    const dependency = createTarget(monorepo1.root, "package-b", "build");
+    const target = { ...createTarget(monorepo1.root, "package-a", "build"), dependencies: [dependency.id] };
+
+    const targetHashes: Record<string, string> = {};
+    const { hash: dependencyHash } = await hasher.computeHash(dependency, targetHashes);
+    const { hash, manifest } = await hasher.computeHash(target, targetHashes);
+
+    expect(targetHashes).toEqual({ [dependency.id]: dependencyHash, [target.id]: hash });
+    expect(manifest.targetDependencies).toEqual({ [dependency.id]: dependencyHash });
+    expect(hasher.targetHashes).toEqual({});
+    expect(hasher.targetHashesLog).toEqual({});
+
+    await hasher.hash(dependency);
+    expect(await hasher.hash(target)).toBe(hash);
+
+    monorepo1.cleanup();
+  });
 });
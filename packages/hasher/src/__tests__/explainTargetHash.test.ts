@@ -0,0 +1,83 @@
+import { explainTargetHash } from "../explainTargetHash";
+import type { TargetHashManifest } from "../TargetHasher";
+
+function createManifest(overrides: Partial<TargetHashManifest> = {}): TargetHashManifest {
+  return {
+    hash: "hash",
+    fileHashes: { "packages/a/src/index.ts": "1", "packages/a/package.json": "2" },
+    globalFileHashes: { "lage.config.js": "3" },
+    envHashes: { NODE_ENV: "7" },
+    internalDependencies: ["b"],
+    externalDependencies: ["react@18.2.0"],
+    targetDependencies: { "b#build": "4" },
+    cliArgs: [],
+    cacheKey: "",
+    ...overrides,
+  };
+}
+
+describe("explainTargetHash", () => {
+  it("reports nothing when the manifests are the same", () => {
+    const explanation = explainTargetHash(createManifest(), createManifest());
+
+    expect(explanation).toEqual({
+      previousHash: "hash",
+      currentHash: "hash",
+      files: { added: [], removed: [], changed: [] },
+      environment: { added: [], removed: [], changed: [] },
+      env: { added: [], removed: [], changed: [] },
+      internalDependencies: { added: [], removed: [] },
+      externalDependencies: { added: [], removed: [] },
+      targetDependencies: { added: [], removed: [], changed: [] },
+      unknown: [],
+    });
+  });
+
+  it("lists exactly which inputs changed", () => {
+    const previous = createManifest({ hash: "old" });
+    const current = createManifest({
+      hash: "new",
+      fileHashes: { "packages/a/src/index.ts": "changed", "packages/a/src/new.ts": "5" },
+      globalFileHashes: { "lage.config.js": "changed" },
+      envHashes: { NODE_ENV: "changed", NEXT_PUBLIC_URL: "8" },
+      externalDependencies: ["react@18.3.0"],
+      targetDependencies: { "b#build": "changed", "c#build": "6" },
+      cliArgs: ["--coverage"],
+      cacheKey: "v2",
+    });
+
+    const explanation = explainTargetHash(previous, current);
+
+    expect(explanation.previousHash).toBe("old");
+    expect(explanation.currentHash).toBe("new");
+    expect(explanation.files).toEqual({
+      added: ["packages/a/src/new.ts"],
+      removed: ["packages/a/package.json"],
+      changed: ["packages/a/src/index.ts"],
+    });
+    expect(explanation.environment.changed).toEqual(["lage.config.js"]);
+    expect(explanation.env).toEqual({ added: ["NEXT_PUBLIC_URL"], removed: [], changed: ["NODE_ENV"] });
+    expect(explanation.internalDependencies).toEqual({ added: [], removed: [] });
+    expect(explanation.externalDependencies).toEqual({ added: ["react@18.3.0"], removed: ["react@18.2.0"] });
+    expect(explanation.targetDependencies).toEqual({ added: ["c#build"], removed: [], changed: ["b#build"] });
+    expect(explanation.cliArgs).toEqual({ previous: [], current: ["--coverage"] });
+    expect(explanation.cacheKey).toEqual({ previous: "", current: "v2" });
+  });
+
+  it("flags the components missing from manifests written by older versions", () => {
+    const { fileHashes, globalFileHashes } = createManifest();
+
+    const explanation = explainTargetHash({ fileHashes, globalFileHashes }, createManifest());
+
+    expect(explanation.previousHash).toBeUndefined();
+    expect(explanation.unknown).toEqual([
+      "internalDependencies",
+      "externalDependencies",
+      "targetDependencies",
+      "cliArgs",
+      "cacheKey",
+      "envHashes",
+    ]);
+    expect(explanation.externalDependencies).toEqual({ added: [], removed: [] });
+  });
+});
@@ -0,0 +1,107 @@
+import type { TargetHashManifest } from "./TargetHasher.js";
+
+export interface HashRecordChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface HashListChanges {
+  added: string[];
+  removed: string[];
+}
+
+export interface TargetHashExplanation {
+  previousHash: string | undefined;
+  currentHash: string;
+
+  /** input files of the target */
+  files: HashRecordChanges;
+
+  /** files matched by the environment globs */
+  environment: HashRecordChanges;
+
+  /** declared environment variables */
+  env: HashRecordChanges;
+
+  /** workspace packages the target's package depends on */
+  internalDependencies: HashListChanges;
+
+  /** lockfile-resolved external dependencies, as `name@version` */
+  externalDependencies: HashListChanges;
+
+  /** upstream targets whose hash changed */
+  targetDependencies: HashRecordChanges;
+
+  /** set when the task args changed */
+  cliArgs?: { previous: string[]; current: string[] };
+
+  /** set when the cache key changed */
+  cacheKey?: { previous: string; current: string };
+
+  /** components that were not recorded in the previous manifest (e.g. it was written by an older version of lage) */
+  unknown: (keyof TargetHashManifest)[];
+}
+
+function diffRecords(previous: Record<string, string> = {}, current: Record<string, string>): HashRecordChanges {
+  const changes: HashRecordChanges = { added: [], removed: [], changed: [] };
+
+  for (const [key, value] of Object.entries(current)) {
+    if (!(key in previous)) {
+      changes.added.push(key);
+    } else if (previous[key] !== value) {
+      changes.changed.push(key);
+    }
+  }
+
+  for (const key of Object.keys(previous)) {
+    if (!(key in current)) {
+      changes.removed.push(key);
+    }
+  }
+
+  return changes;
+}
+
+function diffLists(previous: string[] = [], current: string[]): HashListChanges {
+  const previousSet = new Set(previous);
+  const currentSet = new Set(current);
+
+  return {
+    added: current.filter((item) => !previousSet.has(item)),
+    removed: previous.filter((item) => !currentSet.has(item)),
+  };
+}
+
+/**
+ * Compares the hash manifest of a target from a previous run with the current one, listing exactly which of the hash inputs changed.
+ */
+export function explainTargetHash(previous: Partial<TargetHashManifest>, current: TargetHashManifest): TargetHashExplanation {
+  const unknown: (keyof TargetHashManifest)[] = (
+    ["fileHashes", "globalFileHashes", "internalDependencies", "externalDependencies", "targetDependencies", "cliArgs", "cacheKey"] as const
+  ).filter((key) => previous[key] === undefined);
+
+  // manifests written before environment variables could be declared did not record them, which only matters if some are declared now
+  if (previous.envHashes === undefined && Object.keys(current.envHashes).length > 0) {
+    unknown.push("envHashes");
+  }
+
+  const previousCliArgs = previous.cliArgs ?? current.cliArgs;
+  const previousCacheKey = previous.cacheKey ?? current.cacheKey;
+
+  return {
+    previousHash: previous.hash,
+    currentHash: current.hash,
+    files: diffRecords(previous.fileHashes ?? current.fileHashes, current.fileHashes),
+    environment: diffRecords(previous.globalFileHashes ?? current.globalFileHashes, current.globalFileHashes),
+    env: diffRecords(previous.envHashes ?? current.envHashes, current.envHashes),
+    internalDependencies: diffLists(previous.internalDependencies ?? current.internalDependencies, current.internalDependencies),
+    externalDependencies: diffLists(previous.externalDependencies ?? current.externalDependencies, current.externalDependencies),
+    targetDependencies: diffRecords(previous.targetDependencies ?? current.targetDependencies, current.targetDependencies),
+    ...(JSON.stringify(previousCliArgs) !== JSON.stringify(current.cliArgs) && {
+      cliArgs: { previous: previousCliArgs, current: current.cliArgs },
+    }),
+    ...(previousCacheKey !== current.cacheKey && { cacheKey: { previous: previousCacheKey, current: current.cacheKey } }),
+    unknown,
+  };
+}
@@ -1,4 +1,7 @@
 export { TargetHasher } from "./TargetHasher.js";
+export type { TargetHashManifest } from "./TargetHasher.js";
+export { explainTargetHash } from "./explainTargetHash.js";
+export type { TargetHashExplanation, HashRecordChanges, HashListChanges } from "./explainTargetHash.js";
 export { PackageTree } from "./PackageTree.js";
 export { getInputFiles } from "./getInputFiles.js";
 export { FileHasher } from "./FileHasher.js";
@@ -6,4 +6,12 @@ function registerWorker(_fn) {
   console.warn("registerWorker is deprecated, it is no longer necessary!");
 }
 
-export { registerWorker };
+/**
+ * Identity function that gives type checking and completions for lage.config.js (see `defineConfig` of `@lage-run/config`).
+ * It is defined here rather than imported so that the main entry point stays free of the config loading dependencies.
+ **/
+function defineConfig(config) {
+  return config;
+}
+
+export { registerWorker, defineConfig };
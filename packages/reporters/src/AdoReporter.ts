@@ -85,7 +85,7 @@ export class AdoReporter implements Reporter {
     const data = entry.data!;
 
     if (isTargetStatusLogEntry(data)) {
-      const { target, hash, duration } = data;
+      const { target, hash, duration, attempt } = data;
       const { packageName, task } = target;
 
       const normalizedArgs = this.options.grouped
@@ -96,7 +96,13 @@ export class AdoReporter implements Reporter {
 
       switch (data.status) {
         case "running":
-          return this.logStream.write(format(entry.level, normalizedArgs.prefix, colorFn(`${colors.ok("➔")} start ${pkgTask}`)));
+          return this.logStream.write(
+            format(
+              entry.level,
+              normalizedArgs.prefix,
+              colorFn(`${colors.ok("➔")} start ${pkgTask}${attempt ? ` (attempt ${attempt})` : ""}`)
+            )
+          );
 
         case "success":
           return this.logStream.write(
@@ -116,6 +122,15 @@ export class AdoReporter implements Reporter {
         case "aborted":
           return this.logStream.write(format(entry.level, normalizedArgs.prefix, colorFn(`${colors.warn("-")} aborted ${pkgTask}`)));
 
+        case "timedOut":
+          return this.logStream.write(
+            format(
+              entry.level,
+              normalizedArgs.prefix,
+              colorFn(`${colors.error("⧗")} timed out ${pkgTask} - ${formatDuration(hrToSeconds(duration!))}`)
+            )
+          );
+
         case "queued":
           return this.logStream.write(format(entry.level, normalizedArgs.prefix, colorFn(`${colors.warn("…")} aborted ${pkgTask}`)));
       }
@@ -141,7 +156,13 @@ export class AdoReporter implements Reporter {
     this.groupedEntries.get(id)?.push(entry);
 
     if (isTargetStatusLogEntry(data)) {
-      if (data.status === "success" || data.status === "failed" || data.status === "skipped" || data.status === "aborted") {
+      if (
+        data.status === "success" ||
+        data.status === "failed" ||
+        data.status === "skipped" ||
+        data.status === "aborted" ||
+        data.status === "timedOut"
+      ) {
         const { status, duration } = data;
         this.logStream.write(
           `##[group] ${colors.pkg(data.target.packageName ?? "<root>")} ${colors.task(data.target.task)} ${status}${
@@ -161,7 +182,7 @@ export class AdoReporter implements Reporter {
 
   summarize(schedulerRunSummary: SchedulerRunSummary) {
     const { targetRuns, targetRunByStatus, duration } = schedulerRunSummary;
-    const { failed, aborted, skipped, success, pending } = targetRunByStatus;
+    const { failed, aborted, skipped, success, pending, timedOut } = targetRunByStatus;
 
     const statusColorFn: {
       [status in TargetStatus]: chalk.Chalk;
@@ -172,6 +193,7 @@ export class AdoReporter implements Reporter {
       running: chalk.yellow,
       pending: chalk.gray,
       aborted: chalk.red,
+      timedOut: chalk.redBright,
       queued: chalk.magenta,
     };
 
@@ -189,32 +211,39 @@ export class AdoReporter implements Reporter {
             LogLevel.info,
             getTaskLogPrefix(target.packageName || "[GLOBAL]", target.task),
             colorFn(
-              `${wrappedTarget.status}${wrappedTarget.duration ? `, took ${formatDuration(hrToSeconds(wrappedTarget.duration))}` : ""}`
+              `${wrappedTarget.status}${wrappedTarget.duration ? `, took ${formatDuration(hrToSeconds(wrappedTarget.duration))}` : ""}${
+                (wrappedTarget.attempts ?? 1) > 1 ? `, ${wrappedTarget.attempts} attempts` : ""
+              }`
             )
           )
         );
       }
 
       this.logStream.write(
-        `[Tasks Count] success: ${success.length}, skipped: ${skipped.length}, pending: ${pending.length}, aborted: ${aborted.length}\n`
+        `[Tasks Count] success: ${success.length}, skipped: ${skipped.length}, pending: ${pending.length}, aborted: ${aborted.length}${
+          timedOut.length > 0 ? `, timed out: ${timedOut.length}` : ""
+        }\n`
       );
     } else {
       this.logStream.write("Nothing has been run.\n");
     }
 
-    if (failed && failed.length > 0) {
+    const failedOrTimedOut = [...(failed ?? []), ...(timedOut ?? [])];
+
+    if (failedOrTimedOut.length > 0) {
       let packagesMessage = `##vso[task.logissue type=error]Your build failed on the following packages => `;
 
-      for (const targetId of failed) {
+      for (const targetId of failedOrTimedOut) {
         const target = targetRuns.get(targetId)?.target;
 
         if (target) {
           const { packageName, task } = target;
           const taskLogs = this.logEntries.get(targetId);
+          const label = timedOut?.includes(targetId) ? "TIMED OUT" : "ERROR DETECTED";
 
           packagesMessage += `[${packageName} ${task}], `;
 
-          this.logStream.write(`##[error] [${chalk.magenta(packageName)} ${chalk.cyan(task)}] ${chalk.redBright("ERROR DETECTED")}\n`);
+          this.logStream.write(`##[error] [${chalk.magenta(packageName)} ${chalk.cyan(task)}] ${chalk.redBright(label)}\n`);
 
           if (taskLogs) {
             for (const entry of taskLogs) {
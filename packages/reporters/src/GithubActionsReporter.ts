@@ -0,0 +1,201 @@
+import { formatDuration, hrToSeconds } from "@lage-run/format-hrtime";
+import { isTargetStatusLogEntry } from "./isTargetStatusLogEntry.js";
+import { LogLevel } from "@lage-run/logger";
+import ansiRegex from "ansi-regex";
+import fs from "fs";
+import type { Reporter, LogEntry } from "@lage-run/logger";
+import type { SchedulerRunSummary, TargetRun } from "@lage-run/scheduler-types";
+import type { Target } from "@lage-run/target-graph";
+import type { TargetMessageEntry, TargetStatusEntry } from "./types/TargetLogEntry.js";
+import type { Writable } from "stream";
+import { slowestTargetRuns } from "./slowestTargetRuns.js";
+import { formatBytes } from "./formatBytes.js";
+
+export interface GithubActionsReporterOptions {
+  logLevel?: LogLevel;
+
+  /** the file to append the Markdown run summary to, defaults to `$GITHUB_STEP_SUMMARY` */
+  stepSummaryFile?: string;
+}
+
+/** how many of the last lines of output of a failed target go in its annotation */
+const MAX_ANNOTATION_LINES = 20;
+
+const MAX_SUMMARY_TARGETS = 10;
+
+const stripAnsiRegex = ansiRegex();
+
+function stripAnsi(message: string) {
+  return message.replace(stripAnsiRegex, "");
+}
+
+// see https://docs.github.com/en/actions/using-workflows/workflow-commands-for-github-actions
+function escapeData(data: string) {
+  return data.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+function escapeProperty(property: string) {
+  return escapeData(property).replace(/:/g, "%3A").replace(/,/g, "%2C");
+}
+
+function getTargetLabel(target: Target) {
+  return `${target.packageName ?? "<root>"} ${target.task}`;
+}
+
+function formatTargetDuration(targetRun: TargetRun) {
+  return targetRun.duration ? formatDuration(hrToSeconds(targetRun.duration)) : "-";
+}
+
+/**
+ * Reporter for GitHub Actions: the output of each target is a collapsible `::group::`, failed targets are `::error` annotations, and
+ * a Markdown summary of the run is added to the job summary (`$GITHUB_STEP_SUMMARY`).
+ */
+export class GithubActionsReporter implements Reporter {
+  logStream: Writable = process.stdout;
+
+  private logEntries = new Map<string, LogEntry<TargetStatusEntry | TargetMessageEntry>[]>();
+
+  constructor(private options: GithubActionsReporterOptions = {}) {
+    options.logLevel = options.logLevel || LogLevel.info;
+  }
+
+  log(entry: LogEntry<any>) {
+    if (entry.data?.target?.hidden) {
+      return;
+    }
+
+    if (entry.data?.target) {
+      return this.logTargetEntry(entry);
+    }
+
+    if (this.options.logLevel! >= entry.level && entry.msg?.trim() !== "") {
+      const command = entry.level === LogLevel.error ? "::error::" : entry.level === LogLevel.warn ? "::warning::" : "";
+      this.logStream.write(`${command}${command ? escapeData(entry.msg) : entry.msg}\n`);
+    }
+  }
+
+  private logTargetEntry(entry: LogEntry<TargetStatusEntry | TargetMessageEntry>) {
+    const data = entry.data!;
+    const { id } = data.target;
+
+    if (!this.logEntries.has(id)) {
+      this.logEntries.set(id, []);
+    }
+
+    this.logEntries.get(id)!.push(entry);
+
+    if (!isTargetStatusLogEntry(data)) {
+      return;
+    }
+
+    const { status, duration, target } = data;
+
+    if (status !== "success" && status !== "failed" && status !== "skipped" && status !== "aborted" && status !== "timedOut") {
+      return;
+    }
+
+    const output = this.getTargetOutput(id);
+
+    this.logStream.write(
+      `::group::${getTargetLabel(target)} ${status}${duration && status !== "skipped" ? `, took ${formatDuration(hrToSeconds(duration))}` : ""}\n`
+    );
+    for (const line of output) {
+      this.logStream.write(`${line}\n`);
+    }
+    this.logStream.write("::endgroup::\n");
+
+    if (status === "failed" || status === "timedOut") {
+      const title = `${getTargetLabel(target)} ${status === "timedOut" ? "timed out" : "failed"}`;
+      const message = output.slice(-MAX_ANNOTATION_LINES).join("\n") || title;
+      this.logStream.write(`::error title=${escapeProperty(title)}::${escapeData(message)}\n`);
+    }
+  }
+
+  /** the output of a target (and the messages logged about it) so far, without the status entries */
+  private getTargetOutput(id: string) {
+    return (this.logEntries.get(id) ?? [])
+      .filter((entry) => !isTargetStatusLogEntry(entry.data) && entry.level <= Math.max(this.options.logLevel!, LogLevel.verbose))
+      .map((entry) => stripAnsi(entry.msg));
+  }
+
+  summarize(schedulerRunSummary: SchedulerRunSummary) {
+    const { targetRuns, targetRunByStatus, duration } = schedulerRunSummary;
+    const { failed, aborted, skipped, success, pending, timedOut } = targetRunByStatus;
+
+    if (targetRuns.size > 0) {
+      this.logStream.write(
+        `[Tasks Count] success: ${success.length}, skipped: ${skipped.length}, pending: ${pending.length}, aborted: ${aborted.length}${
+          timedOut.length > 0 ? `, timed out: ${timedOut.length}` : ""
+        }, failed: ${failed.length}\n`
+      );
+    } else {
+      this.logStream.write("Nothing has been run.\n");
+    }
+
+    this.logStream.write(`Took a total of ${formatDuration(hrToSeconds(duration))} to complete\n`);
+
+    const stepSummaryFile = this.options.stepSummaryFile ?? process.env.GITHUB_STEP_SUMMARY;
+
+    if (stepSummaryFile) {
+      fs.appendFileSync(stepSummaryFile, this.renderStepSummary(schedulerRunSummary));
+    }
+  }
+
+  /**
+   * Renders the Markdown summary of the run: its result, the cache hit rate, time saved and bandwidth, the failed targets and the slowest
+   * targets
+   */
+  renderStepSummary(schedulerRunSummary: SchedulerRunSummary) {
+    const { targetRuns, targetRunByStatus, duration, results, cacheStats } = schedulerRunSummary;
+    const { failed, skipped, success, timedOut } = targetRunByStatus;
+    const visibleRuns = [...targetRuns.values()].filter((targetRun) => !targetRun.target.hidden);
+    const isVisible = (id: string) => !targetRuns.get(id)?.target.hidden;
+
+    // without the cache stats of the scheduler, every completed target counts as a lookup
+    const hits = cacheStats?.hits ?? skipped.filter(isVisible).length;
+    const lookups = cacheStats?.lookups ?? hits + [...success, ...failed, ...timedOut].filter(isVisible).length;
+
+    const lines = [
+      "## lage run summary",
+      "",
+      `**${results === "success" ? "✅ Succeeded" : "❌ Failed"}** - ${visibleRuns.length} targets in ${formatDuration(
+        hrToSeconds(duration)
+      )}`,
+      "",
+      lookups > 0 ? `**Cache hit rate:** ${Math.round((hits / lookups) * 100)}% (${hits} of ${lookups} targets)` : "",
+    ];
+
+    if (cacheStats && cacheStats.timeSavedHits > 0) {
+      lines.push("", `**Time saved by the cache:** ~${formatDuration(String(cacheStats.timeSaved / 1000))}`);
+    }
+
+    if (cacheStats && (cacheStats.remoteHits > 0 || cacheStats.remoteBytesPut > 0)) {
+      lines.push(
+        "",
+        `**Remote cache:** ${cacheStats.remoteHits} ${cacheStats.remoteHits === 1 ? "hit" : "hits"}, ${formatBytes(
+          cacheStats.remoteBytesFetched
+        )} downloaded, ${formatBytes(cacheStats.remoteBytesPut)} uploaded`
+      );
+    }
+
+    const failedRuns = [...failed, ...timedOut].filter(isVisible).map((id) => targetRuns.get(id)!);
+
+    if (failedRuns.length > 0) {
+      lines.push("", "### Failures", "");
+      for (const targetRun of failedRuns) {
+        lines.push(`- \`${getTargetLabel(targetRun.target)}\` ${targetRun.status === "timedOut" ? "timed out" : "failed"}`);
+      }
+    }
+
+    const slowestRuns = slowestTargetRuns(visibleRuns).slice(0, MAX_SUMMARY_TARGETS);
+
+    if (slowestRuns.length > 0) {
+      lines.push("", "### Slowest targets", "", "| Target | Status | Duration |", "| --- | --- | --- |");
+      for (const targetRun of slowestRuns) {
+        lines.push(`| \`${getTargetLabel(targetRun.target)}\` | ${targetRun.status} | ${formatTargetDuration(targetRun)} |`);
+      }
+    }
+
+    return lines.join("\n") + "\n";
+  }
+}
@@ -0,0 +1,188 @@
+import ansiRegex from "ansi-regex";
+import chalk from "chalk";
+import fs from "fs";
+import path from "path";
+import type { LogEntry, Reporter } from "@lage-run/logger";
+import type { SchedulerRunSummary, TargetRun } from "@lage-run/scheduler-types";
+import { getStartTargetId } from "@lage-run/target-graph";
+import type { Writable } from "stream";
+import { isTargetStatusLogEntry } from "./isTargetStatusLogEntry.js";
+
+export interface JUnitReporterOptions {
+  /** defaults to junit.xml in the current directory */
+  outputFile?: string;
+
+  /** whether each test suite holds the targets of a package (one test case per task) or of a task (one test case per package) */
+  groupBy?: "package" | "task";
+}
+
+interface TestCase {
+  name: string;
+  classname: string;
+  time: string;
+  result?: { element: "failure" | "skipped"; message: string };
+  stdout: string;
+  stderr: string;
+}
+
+const stripAnsiRegex = ansiRegex();
+
+// characters that are not allowed anywhere in an XML 1.0 document
+// eslint-disable-next-line no-control-regex
+const invalidXmlCharsRegex = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+function escapeXml(text: string) {
+  return text
+    .replace(stripAnsiRegex, "")
+    .replace(invalidXmlCharsRegex, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatSeconds(duration: [number, number] | undefined) {
+  return (duration ? duration[0] + duration[1] / 1e9 : 0).toFixed(3);
+}
+
+function getResult(targetRun: TargetRun): TestCase["result"] {
+  switch (targetRun.status) {
+    case "success":
+      return undefined;
+    case "skipped":
+      return { element: "skipped", message: "cache hit" };
+    case "failed":
+      return { element: "failure", message: (targetRun.attempts ?? 1) > 1 ? `failed after ${targetRun.attempts} attempts` : "failed" };
+    case "timedOut":
+      return { element: "failure", message: "timed out" };
+    case "aborted":
+      return { element: "skipped", message: "aborted" };
+    default:
+      return { element: "skipped", message: "not run" };
+  }
+}
+
+/**
+ * Writes the results of a run as a JUnit XML report, one test case per target, so that CI systems (Jenkins, GitLab, CircleCI...) can
+ * show them in their test dashboards. Cache hits are reported as skipped.
+ */
+export class JUnitReporter implements Reporter {
+  logStream: Writable | undefined;
+  consoleLogStream: Writable = process.stdout;
+
+  private outputFile: string;
+
+  /** the output of each target, as logged by the scheduler */
+  private outputs = new Map<string, string[]>();
+
+  constructor(private options: JUnitReporterOptions = {}) {
+    this.outputFile = options.outputFile ?? "junit.xml";
+  }
+
+  log(entry: LogEntry<any>) {
+    const target = entry.data?.target;
+
+    if (!target || target.hidden || isTargetStatusLogEntry(entry.data) || !entry.msg) {
+      return;
+    }
+
+    if (!this.outputs.has(target.id)) {
+      this.outputs.set(target.id, []);
+    }
+
+    this.outputs.get(target.id)!.push(entry.msg);
+  }
+
+  summarize(schedulerRunSummary: SchedulerRunSummary) {
+    const { groupBy = "package" } = this.options;
+    const suites = new Map<string, TestCase[]>();
+
+    for (const targetRun of schedulerRunSummary.targetRuns.values()) {
+      const { target } = targetRun;
+
+      if (target.hidden || target.id === getStartTargetId()) {
+        continue;
+      }
+
+      const packageName = target.packageName ?? "<root>";
+      const suiteName = groupBy === "package" ? packageName : target.task;
+
+      // the worker result has the stdout and stderr of the target apart, it is only there when the target succeeded
+      const result = targetRun.result as { stdoutBuffer?: string; stderrBuffer?: string } | undefined;
+
+      const testCase: TestCase = {
+        name: groupBy === "package" ? target.task : packageName,
+        classname: suiteName,
+        time: formatSeconds(targetRun.duration),
+        result: getResult(targetRun),
+        stdout: result?.stdoutBuffer ?? (this.outputs.get(target.id) ?? []).join("\n"),
+        stderr: result?.stderrBuffer ?? "",
+      };
+
+      suites.set(suiteName, [...(suites.get(suiteName) ?? []), testCase]);
+    }
+
+    this.write(this.renderReport(suites, schedulerRunSummary.duration));
+  }
+
+  private renderReport(suites: Map<string, TestCase[]>, duration: [number, number]) {
+    const count = (testCases: TestCase[], element: "failure" | "skipped") =>
+      testCases.filter((testCase) => testCase.result?.element === element).length;
+
+    const allTestCases = [...suites.values()].flat();
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="lage" tests="${allTestCases.length}" failures="${count(allTestCases, "failure")}" errors="0" skipped="${count(
+        allTestCases,
+        "skipped"
+      )}" time="${formatSeconds(duration)}">`,
+    ];
+
+    for (const [suiteName, testCases] of [...suites].sort(([a], [b]) => a.localeCompare(b))) {
+      const time = testCases.reduce((total, testCase) => total + parseFloat(testCase.time), 0).toFixed(3);
+
+      lines.push(
+        `  <testsuite name="${escapeXml(suiteName)}" tests="${testCases.length}" failures="${count(
+          testCases,
+          "failure"
+        )}" errors="0" skipped="${count(testCases, "skipped")}" time="${time}">`
+      );
+
+      for (const testCase of testCases.sort((a, b) => a.name.localeCompare(b.name))) {
+        lines.push(
+          `    <testcase name="${escapeXml(testCase.name)}" classname="${escapeXml(testCase.classname)}" time="${testCase.time}">`
+        );
+
+        if (testCase.result) {
+          lines.push(`      <${testCase.result.element} message="${escapeXml(testCase.result.message)}"/>`);
+        }
+
+        if (testCase.stdout) {
+          lines.push(`      <system-out>${escapeXml(testCase.stdout)}</system-out>`);
+        }
+
+        if (testCase.stderr) {
+          lines.push(`      <system-err>${escapeXml(testCase.stderr)}</system-err>`);
+        }
+
+        lines.push("    </testcase>");
+      }
+
+      lines.push("  </testsuite>");
+    }
+
+    lines.push("</testsuites>");
+    return lines.join("\n") + "\n";
+  }
+
+  private write(report: string) {
+    if (this.logStream) {
+      this.logStream.write(report);
+    } else {
+      fs.mkdirSync(path.dirname(path.resolve(this.outputFile)), { recursive: true });
+      fs.writeFileSync(this.outputFile, report);
+    }
+
+    this.consoleLogStream.write(chalk.blueBright(`\nJUnit report written to ${chalk.underline(this.outputFile)}\n`));
+  }
+}
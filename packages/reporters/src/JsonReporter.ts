@@ -31,6 +31,7 @@ export class JsonReporter implements Reporter {
         task: targetRun.target.task,
         duration: hrToSeconds(targetRun.duration),
         status: targetRun.status,
+        attempts: targetRun.attempts,
       });
     }
 
@@ -43,6 +44,10 @@ export class JsonReporter implements Reporter {
     summary.duration = hrToSeconds(duration);
     summary.taskStats = taskStats;
 
+    if (schedulerRunSummary.cacheStats) {
+      summary.cacheStats = schedulerRunSummary.cacheStats;
+    }
+
     console.log(JSON.stringify({ summary }));
   }
 }
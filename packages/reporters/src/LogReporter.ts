@@ -11,6 +11,7 @@ import type { TargetMessageEntry, TargetStatusEntry } from "./types/TargetLogEnt
 import type { Writable } from "stream";
 import crypto from "crypto";
 import { formatBytes } from "./formatBytes.js";
+import { formatCacheStats } from "./formatCacheStats.js";
 import { slowestTargetRuns } from "./slowestTargetRuns.js";
 
 const colors = {
@@ -143,10 +144,10 @@ export class LogReporter implements Reporter {
     const data = entry.data!;
 
     if (isTargetStatusLogEntry(data)) {
-      const { hash, duration } = data;
+      const { hash, duration, attempt } = data;
       switch (data.status) {
         case "running":
-          return this.printEntry(entry, colorFn(`${colors.ok("➔")} start`));
+          return this.printEntry(entry, colorFn(`${colors.ok("➔")} start${attempt ? ` (attempt ${attempt})` : ""}`));
 
         case "success":
           return this.printEntry(entry, colorFn(`${colors.ok("✓")} done - ${formatDuration(hrToSeconds(duration!))}`));
@@ -160,6 +161,9 @@ export class LogReporter implements Reporter {
         case "aborted":
           return this.printEntry(entry, colorFn(`${colors.warn("-")} aborted`));
 
+        case "timedOut":
+          return this.printEntry(entry, colorFn(`${colors.error("⧗")} timed out - ${formatDuration(hrToSeconds(duration!))}`));
+
         case "queued":
           return this.printEntry(entry, colorFn(`${colors.warn("…")} queued`));
       }
@@ -176,7 +180,11 @@ export class LogReporter implements Reporter {
 
     if (
       isTargetStatusLogEntry(data) &&
-      (data.status === "success" || data.status === "failed" || data.status === "skipped" || data.status === "aborted")
+      (data.status === "success" ||
+        data.status === "failed" ||
+        data.status === "skipped" ||
+        data.status === "aborted" ||
+        data.status === "timedOut")
     ) {
       const entries = this.logEntries.get(id)! as LogEntry<TargetStatusEntry>[];
 
@@ -196,7 +204,7 @@ export class LogReporter implements Reporter {
 
   summarize(schedulerRunSummary: SchedulerRunSummary) {
     const { targetRuns, targetRunByStatus, duration } = schedulerRunSummary;
-    const { failed, aborted, skipped, success, pending } = targetRunByStatus;
+    const { failed, aborted, skipped, success, pending, timedOut } = targetRunByStatus;
 
     const statusColorFn: {
       [status in TargetStatus]: chalk.Chalk;
@@ -207,6 +215,7 @@ export class LogReporter implements Reporter {
       running: chalk.yellow,
       pending: chalk.gray,
       aborted: chalk.red,
+      timedOut: chalk.redBright,
       queued: chalk.magenta,
     };
 
@@ -233,13 +242,15 @@ export class LogReporter implements Reporter {
               hasDurations
                 ? `, took ${formatDuration(hrToSeconds(wrappedTarget.duration))}, queued for ${formatDuration(hrToSeconds(queueDuration))}`
                 : ""
-            }`
+            }${(wrappedTarget.attempts ?? 1) > 1 ? `, ${wrappedTarget.attempts} attempts` : ""}`
           )}`
         );
       }
 
       this.print(
-        `success: ${success.length}, skipped: ${skipped.length}, pending: ${pending.length}, aborted: ${aborted.length}, failed: ${failed.length}`
+        `success: ${success.length}, skipped: ${skipped.length}, pending: ${pending.length}, aborted: ${aborted.length}, failed: ${failed.length}${
+          timedOut.length > 0 ? `, timed out: ${timedOut.length}` : ""
+        }`
       );
 
       this.print(
@@ -247,21 +258,28 @@ export class LogReporter implements Reporter {
           schedulerRunSummary.maxWorkerMemoryUsage
         )}`
       );
+
+      for (const line of formatCacheStats(schedulerRunSummary.cacheStats)) {
+        this.print(line);
+      }
     } else {
       this.print("Nothing has been run.");
     }
 
     this.hr();
 
-    if (failed && failed.length > 0) {
-      for (const targetId of failed) {
+    const failedOrTimedOut = [...(failed ?? []), ...(timedOut ?? [])];
+
+    if (failedOrTimedOut.length > 0) {
+      for (const targetId of failedOrTimedOut) {
         const target = targetRuns.get(targetId)?.target;
 
         if (target) {
           const { packageName, task } = target;
           const failureLogs = this.logEntries.get(targetId);
+          const label = timedOut?.includes(targetId) ? "TIMED OUT" : "ERROR DETECTED";
 
-          this.print(`[${colors.pkg(packageName ?? "<root>")} ${colors.task(task)}] ${colors[LogLevel.error]("ERROR DETECTED")}`);
+          this.print(`[${colors.pkg(packageName ?? "<root>")} ${colors.task(task)}] ${colors[LogLevel.error](label)}`);
 
           if (failureLogs) {
             for (const entry of failureLogs) {
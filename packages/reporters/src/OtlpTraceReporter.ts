@@ -0,0 +1,265 @@
+import chalk from "chalk";
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import https from "https";
+import os from "os";
+import path from "path";
+import type { Reporter } from "@lage-run/logger";
+import type {
+  SchedulerRunSummary,
+  TargetCacheStats,
+  TargetCacheTransfer,
+  TargetPhaseTiming,
+  TargetRunTimings,
+} from "@lage-run/scheduler-types";
+import { getStartTargetId } from "@lage-run/target-graph";
+import type { Writable } from "stream";
+
+export interface OtlpTraceReporterOptions {
+  /** OTLP/HTTP traces endpoint, e.g. http://localhost:4318/v1/traces */
+  endpoint?: string;
+
+  /** extra headers for the endpoint, e.g. for authentication */
+  headers?: Record<string, string>;
+
+  /** writes the OTLP/JSON trace to this file */
+  outputFile?: string;
+
+  serviceName?: string;
+  serviceVersion?: string;
+
+  /** in milliseconds */
+  timeout?: number;
+}
+
+type AttributeValue = { stringValue: string } | { intValue: string } | { boolValue: boolean };
+
+interface Span {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: { key: string; value: AttributeValue }[];
+  status: { code: number; message?: string };
+}
+
+const DEFAULT_TIMEOUT = 10000;
+
+// https://opentelemetry.io/docs/specs/otel/trace/api/#spankind and #set-status
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_CODE_OK = 1;
+const STATUS_CODE_ERROR = 2;
+
+const NS_PER_SECOND = BigInt(1e9);
+
+function hrtimeToNs(hrtime: [number, number]) {
+  return BigInt(hrtime[0]) * NS_PER_SECOND + BigInt(hrtime[1]);
+}
+
+function nsToHrtime(ns: bigint): [number, number] {
+  const positive = ns > BigInt(0) ? ns : BigInt(0);
+  return [Number(positive / NS_PER_SECOND), Number(positive % NS_PER_SECOND)];
+}
+
+function toAttributes(attributes: Record<string, string | number | boolean | undefined>) {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value:
+        typeof value === "boolean"
+          ? { boolValue: value }
+          : typeof value === "number"
+            ? { intValue: String(value) }
+            : { stringValue: value },
+    }));
+}
+
+/**
+ * Exports the run as an OpenTelemetry trace, in the OTLP/JSON format: a span for the run, with a span for each target (and its queued,
+ * running, hashing, cache fetch and cache put phases). The trace is sent to an OTLP/HTTP endpoint and/or written to a file.
+ */
+export class OtlpTraceReporter implements Reporter {
+  consoleLogStream: Writable = process.stdout;
+
+  private exportPromise: Promise<void> | undefined;
+
+  constructor(private options: OtlpTraceReporterOptions) {}
+
+  log() {
+    // pass
+  }
+
+  summarize(schedulerRunSummary: SchedulerRunSummary) {
+    const trace = this.createTrace(schedulerRunSummary);
+    const { outputFile, endpoint } = this.options;
+
+    if (outputFile) {
+      fs.mkdirSync(path.dirname(path.resolve(outputFile)), { recursive: true });
+      fs.writeFileSync(outputFile, JSON.stringify(trace));
+      this.consoleLogStream.write(chalk.blueBright(`\nTrace written to ${chalk.underline(outputFile)}\n`));
+    }
+
+    if (endpoint) {
+      this.exportPromise = this.send(endpoint, JSON.stringify(trace)).catch((error) => {
+        this.consoleLogStream.write(chalk.yellow(`\nUnable to export the trace to ${endpoint}: ${error.message ?? error}\n`));
+      });
+    }
+  }
+
+  async cleanup() {
+    await this.exportPromise;
+  }
+
+  /**
+   * Creates the OTLP/JSON `ExportTraceServiceRequest` of the run
+   */
+  createTrace(schedulerRunSummary: SchedulerRunSummary) {
+    const { targetRuns, startTime, duration, results, workerRestarts } = schedulerRunSummary;
+    const traceId = crypto.randomBytes(16).toString("hex");
+
+    // spans need wall-clock times, the run records process.hrtime() values
+    const nowNs = BigInt(Date.now()) * BigInt(1e6);
+    const nowHrNs = hrtimeToNs(process.hrtime());
+    const toUnixNano = (hrtime: [number, number]) => String(nowNs - nowHrNs + hrtimeToNs(hrtime));
+    const endOf = (timing: TargetPhaseTiming) => String(BigInt(toUnixNano(timing.startTime)) + hrtimeToNs(timing.duration));
+
+    const spans: Span[] = [];
+    const addSpan = (
+      name: string,
+      timing: TargetPhaseTiming,
+      parentSpanId: string | undefined,
+      attributes: Record<string, string | number | boolean | undefined>,
+      error?: string
+    ) => {
+      const spanId = crypto.randomBytes(8).toString("hex");
+      spans.push({
+        traceId,
+        spanId,
+        ...(parentSpanId && { parentSpanId }),
+        name,
+        kind: SPAN_KIND_INTERNAL,
+        startTimeUnixNano: toUnixNano(timing.startTime),
+        endTimeUnixNano: endOf(timing),
+        attributes: toAttributes(attributes),
+        status: error ? { code: STATUS_CODE_ERROR, message: error } : { code: STATUS_CODE_OK },
+      });
+      return spanId;
+    };
+
+    const runSpanId = addSpan(
+      "lage run",
+      { startTime, duration },
+      undefined,
+      { "lage.results": results, "lage.targets": targetRuns.size, "lage.worker_restarts": workerRestarts },
+      results === "success" ? undefined : results
+    );
+
+    for (const targetRun of targetRuns.values()) {
+      const { target, status, queueTime, threadId } = targetRun;
+
+      // targets that never started have no timings
+      if (target.hidden || target.id === getStartTargetId() || hrtimeToNs(targetRun.startTime) === BigInt(0)) {
+        continue;
+      }
+
+      const result = targetRun.result as { hash?: string; timings?: TargetRunTimings; cache?: TargetCacheStats } | undefined;
+      const runEndNs = hrtimeToNs(targetRun.startTime) + hrtimeToNs(targetRun.duration);
+      const targetStart = hrtimeToNs(queueTime) > BigInt(0) ? queueTime : targetRun.startTime;
+
+      const attributes = {
+        "lage.target.id": target.id,
+        "lage.package": target.packageName,
+        "lage.task": target.task,
+        "lage.hash": result?.hash,
+        "lage.cache.hit": status === "skipped",
+        "lage.cache.tier": result?.cache?.fetch?.tier,
+        "lage.status": status,
+        "lage.attempts": targetRun.attempts ?? 1,
+        "thread.id": threadId,
+      };
+
+      const targetSpanId = addSpan(
+        target.id,
+        { startTime: targetStart, duration: nsToHrtime(runEndNs - hrtimeToNs(targetStart)) },
+        runSpanId,
+        attributes,
+        status === "failed" || status === "timedOut" ? status : undefined
+      );
+
+      if (targetStart !== targetRun.startTime) {
+        const queuedDuration = nsToHrtime(hrtimeToNs(targetRun.startTime) - hrtimeToNs(queueTime));
+        addSpan("queued", { startTime: queueTime, duration: queuedDuration }, targetSpanId, { "lage.target.id": target.id });
+      }
+
+      addSpan("running", { startTime: targetRun.startTime, duration: targetRun.duration }, targetSpanId, {
+        "lage.target.id": target.id,
+        "thread.id": threadId,
+      });
+
+      const phases: [string, TargetPhaseTiming | undefined, TargetCacheTransfer | undefined][] = [
+        ["hash", result?.timings?.hash, undefined],
+        ["cache fetch", result?.timings?.cacheFetch, result?.cache?.fetch],
+        ["cache put", result?.timings?.cachePut, result?.cache?.put],
+      ];
+
+      for (const [name, timing, transfer] of phases) {
+        if (timing) {
+          addSpan(name, timing, targetSpanId, {
+            "lage.target.id": target.id,
+            "lage.hash": result?.hash,
+            "lage.cache.tier": transfer?.tier,
+            "lage.cache.bytes": transfer?.bytes,
+            "thread.id": threadId,
+          });
+        }
+      }
+    }
+
+    return {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toAttributes({
+              "service.name": this.options.serviceName ?? "lage",
+              "service.version": this.options.serviceVersion,
+              "host.name": os.hostname(),
+            }),
+          },
+          scopeSpans: [{ scope: { name: "lage" }, spans }],
+        },
+      ],
+    };
+  }
+
+  private send(endpoint: string, body: string): Promise<void> {
+    const { headers, timeout = DEFAULT_TIMEOUT } = this.options;
+    const url = new URL(endpoint);
+    const client = url.protocol === "https:" ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const request = client.request(
+        url,
+        { method: "POST", timeout, headers: { ...headers, "Content-Type": "application/json", "Content-Length": Buffer.byteLength(body) } },
+        (response) => {
+          response.resume();
+          response.on("end", () => {
+            if (response.statusCode && response.statusCode >= 200 && response.statusCode < 300) {
+              resolve();
+            } else {
+              reject(new Error(`the endpoint responded with ${response.statusCode}`));
+            }
+          });
+        }
+      );
+
+      request.on("timeout", () => request.destroy(new Error(`timed out after ${timeout}ms`)));
+      request.on("error", reject);
+      request.end(body);
+    });
+  }
+}
@@ -11,6 +11,7 @@ import chalk from "chalk";
 import type { Writable } from "stream";
 import { formatDuration, hrToSeconds, hrtimeDiff } from "@lage-run/format-hrtime";
 import { formatBytes } from "./formatBytes.js";
+import { formatCacheStats } from "./formatCacheStats.js";
 import { slowestTargetRuns } from "./slowestTargetRuns.js";
 
 const colors = {
@@ -110,6 +111,7 @@ export class ProgressReporter implements Reporter {
             break;
 
           case "failed":
+          case "timedOut":
             reporterTask.complete({ status: "fail" });
             break;
         }
@@ -127,7 +129,7 @@ export class ProgressReporter implements Reporter {
 
   summarize(schedulerRunSummary: SchedulerRunSummary) {
     const { targetRuns, targetRunByStatus, duration } = schedulerRunSummary;
-    const { failed, aborted, skipped, success, pending, running, queued } = targetRunByStatus;
+    const { failed, aborted, skipped, success, pending, running, queued, timedOut } = targetRunByStatus;
 
     // If we are printing summary, and there are still some running / queued tasks - report them as aborted
     for (const wrappedTarget of running.concat(queued)) {
@@ -146,6 +148,7 @@ export class ProgressReporter implements Reporter {
       running: chalk.yellow,
       pending: chalk.gray,
       aborted: chalk.red,
+      timedOut: chalk.redBright,
       queued: chalk.magenta,
     };
 
@@ -179,13 +182,15 @@ export class ProgressReporter implements Reporter {
               hasDurations
                 ? `, took ${formatDuration(hrToSeconds(wrappedTarget.duration))}, queued for ${formatDuration(hrToSeconds(queueDuration))}`
                 : ""
-            }`
+            }${(wrappedTarget.attempts ?? 1) > 1 ? `, ${wrappedTarget.attempts} attempts` : ""}`
           )}`
         );
       }
 
       this.print(
-        `success: ${success.length}, skipped: ${skipped.length}, pending: ${pending.length}, aborted: ${aborted.length}, failed: ${failed.length}`
+        `success: ${success.length}, skipped: ${skipped.length}, pending: ${pending.length}, aborted: ${aborted.length}, failed: ${failed.length}${
+          timedOut.length > 0 ? `, timed out: ${timedOut.length}` : ""
+        }`
       );
 
       this.print(
@@ -193,6 +198,10 @@ export class ProgressReporter implements Reporter {
           schedulerRunSummary.maxWorkerMemoryUsage
         )}`
       );
+
+      for (const line of formatCacheStats(schedulerRunSummary.cacheStats)) {
+        this.print(line);
+      }
     } else {
       this.print("Nothing has been run.");
     }
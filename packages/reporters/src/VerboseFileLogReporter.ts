@@ -83,13 +83,14 @@ export class VerboseFileLogReporter implements Reporter {
     const data = entry.data!;
 
     if (isTargetStatusLogEntry(data)) {
-      const { hash, duration, status } = data;
+      const { hash, duration, status, attempt } = data;
       const statusMessages = {
-        running: "➔ start",
+        running: `➔ start${attempt ? ` (attempt ${attempt})` : ""}`,
         success: `✓ done - ${duration && formatDuration(hrToSeconds(duration))}`,
         failed: "✖ fail",
         skipped: `» skip - ${hash}`,
         aborted: "- aborted",
+        timedOut: `⧗ timed out - ${duration && formatDuration(hrToSeconds(duration))}`,
         queued: "… queued",
       };
 
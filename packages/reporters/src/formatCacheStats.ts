@@ -0,0 +1,32 @@
+import { formatDuration } from "@lage-run/format-hrtime";
+import type { CacheRunStats } from "@lage-run/scheduler-types";
+import { formatBytes } from "./formatBytes.js";
+
+function formatMs(ms: number) {
+  return formatDuration(String(ms / 1000));
+}
+
+/**
+ * Formats the cache hit rate, the time spent on and saved by the cache, and the remote cache bandwidth of a run, one line each
+ */
+export function formatCacheStats(cacheStats: CacheRunStats | undefined): string[] {
+  if (!cacheStats || cacheStats.lookups === 0) {
+    return [];
+  }
+
+  const { lookups, hits, localHits, remoteHits, hashTime, fetchTime, putTime, timeSaved, timeSavedHits } = cacheStats;
+  const { remoteBytesFetched, remoteBytesPut } = cacheStats;
+
+  const lines = [
+    `cache hit rate: ${Math.round((hits / lookups) * 100)}% (${hits} of ${lookups} targets, local: ${localHits}, remote: ${remoteHits})${
+      timeSavedHits > 0 ? `, time saved: ~${formatMs(timeSaved)}` : ""
+    }`,
+    `cache time: hashing ${formatMs(hashTime)}, fetching ${formatMs(fetchTime)}, saving ${formatMs(putTime)}`,
+  ];
+
+  if (remoteHits > 0 || remoteBytesPut > 0) {
+    lines.push(`remote cache bandwidth: ${formatBytes(remoteBytesFetched)} downloaded, ${formatBytes(remoteBytesPut)} uploaded`);
+  }
+
+  return lines;
+}
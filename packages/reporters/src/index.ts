@@ -1,7 +1,13 @@
 export { AdoReporter } from "./AdoReporter.js";
+export { GithubActionsReporter } from "./GithubActionsReporter.js";
+export type { GithubActionsReporterOptions } from "./GithubActionsReporter.js";
 export { JsonReporter } from "./JsonReporter.js";
 export { LogReporter } from "./LogReporter.js";
 export { ChromeTraceEventsReporter } from "./ChromeTraceEventsReporter.js";
+export { JUnitReporter } from "./JUnitReporter.js";
+export type { JUnitReporterOptions } from "./JUnitReporter.js";
+export { OtlpTraceReporter } from "./OtlpTraceReporter.js";
+export type { OtlpTraceReporterOptions } from "./OtlpTraceReporter.js";
 export { ProgressReporter } from "./ProgressReporter.js";
 export { VerboseFileLogReporter } from "./VerboseFileLogReporter.js";
 export type { TargetStatusEntry, TargetMessageEntry } from "./types/TargetLogEntry.js";
@@ -6,6 +6,7 @@ export interface TargetStatusEntry {
   status: TargetStatus;
   duration?: [number, number];
   hash?: string;
+  attempt?: number;
 }
 
 export interface TargetMessageEntry {
@@ -41,6 +41,7 @@ describe("ChromeTraceEventsReporter", () => {
         aborted: [],
         skipped: [],
         queued: [],
+        timedOut: [],
       },
       targetRuns: new Map([
         [aBuildTarget.id, { target: aBuildTarget, status: "failed", duration: [60, 0], startTime: [0, 0], queueTime: [0, 0], threadId: 1 }],
@@ -0,0 +1,172 @@
+import { LogLevel } from "@lage-run/logger";
+import { GithubActionsReporter } from "../src/GithubActionsReporter";
+import streams from "memory-streams";
+import type { TargetMessageEntry, TargetStatusEntry } from "../src/types/TargetLogEntry";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+function createTarget(packageName: string, task: string) {
+  return {
+    id: `${packageName}#${task}`,
+    cwd: `/repo/root/packages/${packageName}`,
+    dependencies: [],
+    dependents: [],
+    depSpecs: [],
+    packageName,
+    task,
+    label: `${packageName} - ${task}`,
+  };
+}
+
+describe("GithubActionsReporter", () => {
+  const aBuildTarget = createTarget("a", "build");
+  const aTestTarget = createTarget("a", "test");
+  const bBuildTarget = createTarget("b", "build");
+
+  it("groups the output of each target and annotates failures", () => {
+    const writer = new streams.WritableStream();
+
+    const reporter = new GithubActionsReporter({ logLevel: LogLevel.info });
+    reporter.logStream = writer;
+
+    reporter.log({
+      data: { target: aBuildTarget, status: "running" } as TargetStatusEntry,
+      level: LogLevel.verbose,
+      msg: "",
+      timestamp: 0,
+    });
+    reporter.log({ data: { target: aBuildTarget, pid: 1 } as TargetMessageEntry, level: LogLevel.verbose, msg: "compiling", timestamp: 1 });
+    reporter.log({
+      data: { target: aBuildTarget, status: "success", duration: [2, 0] } as TargetStatusEntry,
+      level: LogLevel.info,
+      msg: "",
+      timestamp: 2,
+    });
+    reporter.log({ data: { target: aTestTarget, pid: 1 } as TargetMessageEntry, level: LogLevel.verbose, msg: "50% passed", timestamp: 3 });
+    reporter.log({
+      data: { target: aTestTarget, pid: 1 } as TargetMessageEntry,
+      level: LogLevel.verbose,
+      msg: "\u001b[31mexpected 1 to be 2\u001b[39m",
+      timestamp: 4,
+    });
+    reporter.log({
+      data: { target: aTestTarget, status: "failed", duration: [1, 0] } as TargetStatusEntry,
+      level: LogLevel.error,
+      msg: "",
+      timestamp: 5,
+    });
+
+    writer.end();
+
+    expect(writer.toString()).toMatchInlineSnapshot(`
+      "::group::a build success, took 2.00s
+      compiling
+      ::endgroup::
+      ::group::a test failed, took 1.00s
+      50% passed
+      expected 1 to be 2
+      ::endgroup::
+      ::error title=a test failed::50%25 passed%0Aexpected 1 to be 2
+      "
+    `);
+  });
+
+  it("writes a markdown summary of the run to the step summary file", () => {
+    const stepSummaryFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "github-actions-reporter")), "summary.md");
+    const reporter = new GithubActionsReporter({ stepSummaryFile });
+    reporter.logStream = new streams.WritableStream();
+
+    reporter.summarize({
+      duration: [100, 0],
+      startTime: [0, 0],
+      results: "failed",
+      targetRunByStatus: {
+        success: [bBuildTarget.id],
+        failed: [aTestTarget.id],
+        pending: [],
+        running: [],
+        aborted: [],
+        skipped: [aBuildTarget.id],
+        queued: [],
+        timedOut: [],
+      },
+      targetRuns: new Map<string, any>([
+        [aBuildTarget.id, { target: aBuildTarget, status: "skipped", duration: [0, 0], startTime: [0, 0], queueTime: [0, 0], threadId: 1 }],
+        [aTestTarget.id, { target: aTestTarget, status: "failed", duration: [10, 0], startTime: [0, 0], queueTime: [0, 0], threadId: 1 }],
+        [
+          bBuildTarget.id,
+          { target: bBuildTarget, status: "success", duration: [30, 0], startTime: [0, 0], queueTime: [0, 0], threadId: 1 },
+        ],
+      ]),
+      maxWorkerMemoryUsage: 0,
+      workerRestarts: 0,
+    });
+
+    expect(fs.readFileSync(stepSummaryFile, "utf-8")).toMatchInlineSnapshot(`
+      "## lage run summary
+
+      **❌ Failed** - 3 targets in 1m 40.00s
+
+      **Cache hit rate:** 33% (1 of 3 targets)
+
+      ### Failures
+
+      - \`a test\` failed
+
+      ### Slowest targets
+
+      | Target | Status | Duration |
+      | --- | --- | --- |
+      | \`b build\` | success | 30.00s |
+      | \`a test\` | failed | 10.00s |
+      "
+    `);
+
+    fs.rmSync(path.dirname(stepSummaryFile), { recursive: true, force: true });
+  });
+
+  it("shows the hit rate, time saved and remote cache bandwidth from the cache stats of the run", () => {
+    const reporter = new GithubActionsReporter();
+
+    const markdown = reporter.renderStepSummary({
+      duration: [10, 0],
+      startTime: [0, 0],
+      results: "success",
+      targetRunByStatus: {
+        success: [bBuildTarget.id],
+        failed: [],
+        pending: [],
+        running: [],
+        aborted: [],
+        skipped: [aBuildTarget.id, aTestTarget.id],
+        queued: [],
+        timedOut: [],
+      },
+      targetRuns: new Map<string, any>([
+        [aBuildTarget.id, { target: aBuildTarget, status: "skipped", duration: [0, 0], startTime: [0, 0], queueTime: [0, 0], threadId: 1 }],
+        [aTestTarget.id, { target: aTestTarget, status: "skipped", duration: [0, 0], startTime: [0, 0], queueTime: [0, 0], threadId: 1 }],
+        [bBuildTarget.id, { target: bBuildTarget, status: "success", duration: [8, 0], startTime: [0, 0], queueTime: [0, 0], threadId: 1 }],
+      ]),
+      maxWorkerMemoryUsage: 0,
+      workerRestarts: 0,
+      cacheStats: {
+        lookups: 3,
+        hits: 2,
+        localHits: 1,
+        remoteHits: 1,
+        hashTime: 300,
+        fetchTime: 1200,
+        putTime: 400,
+        timeSaved: 75_000,
+        timeSavedHits: 2,
+        remoteBytesFetched: 3 * 1024 * 1024,
+        remoteBytesPut: 1024 * 1024,
+      },
+    });
+
+    expect(markdown).toContain("**Cache hit rate:** 67% (2 of 3 targets)");
+    expect(markdown).toContain("**Time saved by the cache:** ~1m 15.00s");
+    expect(markdown).toContain("**Remote cache:** 1 hit, 3.00 MB downloaded, 1.00 MB uploaded");
+  });
+});
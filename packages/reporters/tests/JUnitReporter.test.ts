@@ -0,0 +1,121 @@
+import { LogLevel } from "@lage-run/logger";
+import { JUnitReporter } from "../src/JUnitReporter";
+import streams from "memory-streams";
+import type { TargetMessageEntry, TargetStatusEntry } from "../src/types/TargetLogEntry";
+
+function createTarget(packageName: string, task: string) {
+  return {
+    id: `${packageName}#${task}`,
+    cwd: `/repo/root/packages/${packageName}`,
+    dependencies: [],
+    dependents: [],
+    depSpecs: [],
+    packageName,
+    task,
+    label: `${packageName} - ${task}`,
+  };
+}
+
+function createTargetRun(target: ReturnType<typeof createTarget>, status: TargetStatusEntry["status"], seconds: number, result?: unknown) {
+  return {
+    target,
+    status,
+    duration: [seconds, 0] as [number, number],
+    startTime: [0, 0],
+    queueTime: [0, 0],
+    threadId: 1,
+    result,
+  };
+}
+
+describe("JUnitReporter", () => {
+  const aBuildTarget = createTarget("a", "build");
+  const aTestTarget = createTarget("a", "test");
+  const bBuildTarget = createTarget("b", "build");
+
+  function summarize(reporter: JUnitReporter) {
+    reporter.summarize({
+      duration: [100, 0],
+      startTime: [0, 0],
+      results: "failed",
+      targetRunByStatus: {
+        success: [bBuildTarget.id],
+        failed: [aTestTarget.id],
+        pending: [],
+        running: [],
+        aborted: [],
+        skipped: [aBuildTarget.id],
+        queued: [],
+        timedOut: [],
+      },
+      targetRuns: new Map<string, any>([
+        [aBuildTarget.id, createTargetRun(aBuildTarget, "skipped", 0)],
+        [aTestTarget.id, createTargetRun(aTestTarget, "failed", 10)],
+        [bBuildTarget.id, createTargetRun(bBuildTarget, "success", 30.5, { stdoutBuffer: "built b", stderrBuffer: "warning: <b>" })],
+      ]),
+      maxWorkerMemoryUsage: 0,
+      workerRestarts: 0,
+    });
+  }
+
+  function createReporter(groupBy?: "package" | "task") {
+    const reporter = new JUnitReporter({ outputFile: "junit.xml", groupBy });
+    const writer = new streams.WritableStream();
+    reporter.logStream = writer;
+    reporter.consoleLogStream = new streams.WritableStream();
+    return { reporter, writer };
+  }
+
+  it("writes a test case per target grouped by package, with the target output", () => {
+    const { reporter, writer } = createReporter();
+
+    reporter.log({
+      data: { target: aTestTarget, status: "running" } as TargetStatusEntry,
+      level: LogLevel.verbose,
+      msg: "test",
+      timestamp: 0,
+    });
+    reporter.log({
+      data: { target: aTestTarget, pid: 1 } as TargetMessageEntry,
+      level: LogLevel.verbose,
+      msg: "\u001b[31mexpected 1 to be 2\u001b[39m",
+      timestamp: 1,
+    });
+
+    summarize(reporter);
+    writer.end();
+
+    expect(writer.toString()).toMatchInlineSnapshot(`
+      "<?xml version="1.0" encoding="UTF-8"?>
+      <testsuites name="lage" tests="3" failures="1" errors="0" skipped="1" time="100.000">
+        <testsuite name="a" tests="2" failures="1" errors="0" skipped="1" time="10.000">
+          <testcase name="build" classname="a" time="0.000">
+            <skipped message="cache hit"/>
+          </testcase>
+          <testcase name="test" classname="a" time="10.000">
+            <failure message="failed"/>
+            <system-out>expected 1 to be 2</system-out>
+          </testcase>
+        </testsuite>
+        <testsuite name="b" tests="1" failures="0" errors="0" skipped="0" time="30.500">
+          <testcase name="build" classname="b" time="30.500">
+            <system-out>built b</system-out>
+            <system-err>warning: &lt;b&gt;</system-err>
+          </testcase>
+        </testsuite>
+      </testsuites>
+      "
+    `);
+  });
+
+  it("can group the test cases by task", () => {
+    const { reporter, writer } = createReporter("task");
+
+    summarize(reporter);
+    writer.end();
+
+    expect(writer.toString()).toMatch(/<testsuite name="build" tests="2" failures="0" errors="0" skipped="1" time="30.500">/);
+    expect(writer.toString()).toMatch(/<testcase name="a" classname="build" time="0.000">/);
+    expect(writer.toString()).toMatch(/<testsuite name="test" tests="1" failures="1" errors="0" skipped="0" time="10.000">/);
+  });
+});
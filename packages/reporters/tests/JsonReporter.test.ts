@@ -397,6 +397,7 @@ describe("JsonReporter", () => {
         aborted: [],
         skipped: [],
         queued: [],
+        timedOut: [],
       },
       targetRuns: new Map([
         [aBuildTarget.id, { target: aBuildTarget, status: "failed", duration: [60, 0], startTime: [1, 0], queueTime: [0, 0] }],
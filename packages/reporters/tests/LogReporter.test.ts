@@ -44,6 +44,32 @@ describe("LogReporter", () => {
     `);
   });
 
+  it("records a timed out target status entry", () => {
+    const writer = new streams.WritableStream();
+
+    const reporter = new LogReporter({ grouped: false, logLevel: LogLevel.verbose });
+    reporter.logStream = writer;
+
+    reporter.log({
+      data: {
+        target: createTarget("a", "task"),
+        status: "timedOut",
+        duration: [60, 0],
+        startTime: [0, 0],
+      } as TargetStatusEntry,
+      level: LogLevel.verbose,
+      msg: "test message",
+      timestamp: 0,
+    });
+
+    writer.end();
+
+    expect(writer.toString()).toMatchInlineSnapshot(`
+      "a task ⧗ timed out - 60.00s
+      "
+    `);
+  });
+
   it("records a target message entry", () => {
     const writer = new streams.WritableStream();
 
@@ -270,6 +296,7 @@ describe("LogReporter", () => {
         aborted: [],
         skipped: [],
         queued: [],
+        timedOut: [],
       },
       targetRuns: new Map([
         [
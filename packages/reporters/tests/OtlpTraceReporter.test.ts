@@ -0,0 +1,152 @@
+import { OtlpTraceReporter } from "../src/OtlpTraceReporter";
+import streams from "memory-streams";
+import http from "http";
+import type { AddressInfo } from "net";
+import type { SchedulerRunSummary } from "@lage-run/scheduler-types";
+
+function createTarget(packageName: string, task: string) {
+  return {
+    id: `${packageName}#${task}`,
+    cwd: `/repo/root/packages/${packageName}`,
+    dependencies: [],
+    dependents: [],
+    depSpecs: [],
+    packageName,
+    task,
+    label: `${packageName} - ${task}`,
+  };
+}
+
+function createSummary(): SchedulerRunSummary {
+  const aBuildTarget = createTarget("a", "build");
+  const bBuildTarget = createTarget("b", "build");
+
+  return {
+    duration: [10, 0],
+    startTime: [100, 0],
+    results: "failed",
+    targetRunByStatus: {
+      success: [],
+      failed: [bBuildTarget.id],
+      pending: [],
+      running: [],
+      aborted: [],
+      skipped: [aBuildTarget.id],
+      queued: [],
+      timedOut: [],
+    },
+    targetRuns: new Map<string, any>([
+      [
+        aBuildTarget.id,
+        {
+          target: aBuildTarget,
+          status: "skipped",
+          queueTime: [100, 0],
+          startTime: [101, 0],
+          duration: [1, 0],
+          threadId: 1,
+          result: {
+            hash: "abc",
+            skipped: true,
+            timings: { hash: { startTime: [101, 0], duration: [0, 5e8] }, cacheFetch: { startTime: [101, 5e8], duration: [0, 5e8] } },
+          },
+        },
+      ],
+      [
+        bBuildTarget.id,
+        { target: bBuildTarget, status: "failed", queueTime: [0, 0], startTime: [102, 0], duration: [3, 0], threadId: 2, attempts: 2 },
+      ],
+    ]),
+    maxWorkerMemoryUsage: 0,
+    workerRestarts: 0,
+  };
+}
+
+function getAttribute(span: any, key: string) {
+  return span.attributes.find((attribute) => attribute.key === key)?.value;
+}
+
+describe("OtlpTraceReporter", () => {
+  it("creates spans for the run, the targets and their phases", () => {
+    const reporter = new OtlpTraceReporter({});
+    const trace = reporter.createTrace(createSummary());
+    const spans = trace.resourceSpans[0].scopeSpans[0].spans;
+
+    expect(spans.map((span) => span.name)).toEqual([
+      "lage run",
+      "a#build",
+      "queued",
+      "running",
+      "hash",
+      "cache fetch",
+      "b#build",
+      "running",
+    ]);
+
+    const [run, aBuild, queued, , hash, , bBuild] = spans;
+    expect(spans.every((span) => span.traceId === run.traceId)).toBe(true);
+    expect(run.status).toEqual({ code: 2, message: "failed" });
+    expect(aBuild.parentSpanId).toBe(run.spanId);
+    expect(queued.parentSpanId).toBe(aBuild.spanId);
+    expect(hash.parentSpanId).toBe(aBuild.spanId);
+
+    // the target span lasts from when it was queued until it is done
+    expect(BigInt(aBuild.endTimeUnixNano) - BigInt(aBuild.startTimeUnixNano)).toBe(BigInt(2e9));
+    expect(BigInt(hash.endTimeUnixNano) - BigInt(hash.startTimeUnixNano)).toBe(BigInt(5e8));
+    expect(BigInt(hash.startTimeUnixNano) - BigInt(run.startTimeUnixNano)).toBe(BigInt(1e9));
+
+    expect(getAttribute(aBuild, "lage.package")).toEqual({ stringValue: "a" });
+    expect(getAttribute(aBuild, "lage.task")).toEqual({ stringValue: "build" });
+    expect(getAttribute(aBuild, "lage.hash")).toEqual({ stringValue: "abc" });
+    expect(getAttribute(aBuild, "lage.cache.hit")).toEqual({ boolValue: true });
+    expect(getAttribute(aBuild, "thread.id")).toEqual({ intValue: "1" });
+
+    expect(bBuild.status).toEqual({ code: 2, message: "failed" });
+    expect(getAttribute(bBuild, "lage.cache.hit")).toEqual({ boolValue: false });
+    expect(getAttribute(bBuild, "lage.attempts")).toEqual({ intValue: "2" });
+    expect(getAttribute(aBuild, "lage.attempts")).toEqual({ intValue: "1" });
+  });
+
+  it("sends the trace to an OTLP/HTTP endpoint", async () => {
+    const requests: { url?: string; headers: http.IncomingHttpHeaders; body: any }[] = [];
+    const collector = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        requests.push({ url: request.url, headers: request.headers, body: JSON.parse(body) });
+        response.end("{}");
+      });
+    });
+    await new Promise<void>((resolve) => collector.listen(0, "127.0.0.1", resolve));
+
+    try {
+      const reporter = new OtlpTraceReporter({
+        endpoint: `http://127.0.0.1:${(collector.address() as AddressInfo).port}/v1/traces`,
+        headers: { Authorization: "Bearer secret" },
+      });
+      reporter.consoleLogStream = new streams.WritableStream();
+
+      reporter.summarize(createSummary());
+      await reporter.cleanup();
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].url).toBe("/v1/traces");
+      expect(requests[0].headers["content-type"]).toBe("application/json");
+      expect(requests[0].headers.authorization).toBe("Bearer secret");
+      expect(requests[0].body.resourceSpans[0].scopeSpans[0].spans).toHaveLength(8);
+    } finally {
+      await new Promise((resolve) => collector.close(resolve));
+    }
+  });
+
+  it("reports when the endpoint cannot be reached", async () => {
+    const consoleWriter = new streams.WritableStream();
+    const reporter = new OtlpTraceReporter({ endpoint: "http://127.0.0.1:1/v1/traces" });
+    reporter.consoleLogStream = consoleWriter;
+
+    reporter.summarize(createSummary());
+    await reporter.cleanup();
+
+    expect(consoleWriter.toString()).toContain("Unable to export the trace to http://127.0.0.1:1/v1/traces");
+  });
+});
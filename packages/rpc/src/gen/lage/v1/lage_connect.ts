@@ -1,9 +1,19 @@
-// @generated by protoc-gen-connect-es v1.4.0 with parameter "target=ts"
+// @generated by protoc-gen-connect-es v1.6.1 with parameter "target=ts"
 // @generated from file lage/v1/lage.proto (package connectrpc.lage.v1, syntax proto3)
 /* eslint-disable */
 // @ts-nocheck
 
-import { PingRequest, PingResponse, RunTargetRequest, RunTargetResponse } from "./lage_pb.js";
+import {
+  GetStatusRequest,
+  GetStatusResponse,
+  PingRequest,
+  PingResponse,
+  RunTargetRequest,
+  RunTargetResponse,
+  RunTargetStreamResponse,
+  ShutdownRequest,
+  ShutdownResponse,
+} from "./lage_pb.js";
 import { MethodKind } from "@bufbuild/protobuf";
 
 /**
@@ -21,6 +31,17 @@ export const LageService = {
       O: RunTargetResponse,
       kind: MethodKind.Unary,
     },
+    /**
+     * runs a target like RunTarget, streaming its status and output as it runs
+     *
+     * @generated from rpc connectrpc.lage.v1.LageService.RunTargetStream
+     */
+    runTargetStream: {
+      name: "RunTargetStream",
+      I: RunTargetRequest,
+      O: RunTargetStreamResponse,
+      kind: MethodKind.ServerStreaming,
+    },
     /**
      * a ping function to check if the server is up
      *
@@ -32,5 +53,27 @@ export const LageService = {
       O: PingResponse,
       kind: MethodKind.Unary,
     },
+    /**
+     * reports the worker pool stats, the queued and running targets and the memory usage of the server
+     *
+     * @generated from rpc connectrpc.lage.v1.LageService.GetStatus
+     */
+    getStatus: {
+      name: "GetStatus",
+      I: GetStatusRequest,
+      O: GetStatusResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * stops the server once the response is sent, rather than waiting for it to time out
+     *
+     * @generated from rpc connectrpc.lage.v1.LageService.Shutdown
+     */
+    shutdown: {
+      name: "Shutdown",
+      I: ShutdownRequest,
+      O: ShutdownResponse,
+      kind: MethodKind.Unary,
+    },
   },
 } as const;
@@ -1,4 +1,4 @@
-// @generated by protoc-gen-es v1.10.0 with parameter "target=ts"
+// @generated by protoc-gen-es v1.10.1 with parameter "target=ts"
 // @generated from file lage/v1/lage.proto (package connectrpc.lage.v1, syntax proto3)
 /* eslint-disable */
 // @ts-nocheck
@@ -164,6 +164,84 @@ export class RunTargetResponse extends Message<RunTargetResponse> {
   }
 }
 
+/**
+ * an event of a streamed target run: status transitions and output chunks as they happen, then the results
+ *
+ * @generated from message connectrpc.lage.v1.RunTargetStreamResponse
+ */
+export class RunTargetStreamResponse extends Message<RunTargetStreamResponse> {
+  /**
+   * @generated from oneof connectrpc.lage.v1.RunTargetStreamResponse.event
+   */
+  event:
+    | {
+        /**
+         * queued, running, success or failed
+         *
+         * @generated from field: string status = 1;
+         */
+        value: string;
+        case: "status";
+      }
+    | {
+        /**
+         * @generated from field: string stdout = 2;
+         */
+        value: string;
+        case: "stdout";
+      }
+    | {
+        /**
+         * @generated from field: string stderr = 3;
+         */
+        value: string;
+        case: "stderr";
+      }
+    | {
+        /**
+         * the last event, its stdout and stderr are left empty since they were already streamed
+         *
+         * @generated from field: connectrpc.lage.v1.RunTargetResponse result = 4;
+         */
+        value: RunTargetResponse;
+        case: "result";
+      }
+    | { case: undefined; value?: undefined } = { case: undefined };
+
+  constructor(data?: PartialMessage<RunTargetStreamResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "connectrpc.lage.v1.RunTargetStreamResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "status", kind: "scalar", T: 9 /* ScalarType.STRING */, oneof: "event" },
+    { no: 2, name: "stdout", kind: "scalar", T: 9 /* ScalarType.STRING */, oneof: "event" },
+    { no: 3, name: "stderr", kind: "scalar", T: 9 /* ScalarType.STRING */, oneof: "event" },
+    { no: 4, name: "result", kind: "message", T: RunTargetResponse, oneof: "event" },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): RunTargetStreamResponse {
+    return new RunTargetStreamResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): RunTargetStreamResponse {
+    return new RunTargetStreamResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): RunTargetStreamResponse {
+    return new RunTargetStreamResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(
+    a: RunTargetStreamResponse | PlainMessage<RunTargetStreamResponse> | undefined,
+    b: RunTargetStreamResponse | PlainMessage<RunTargetStreamResponse> | undefined
+  ): boolean {
+    return proto3.util.equals(RunTargetStreamResponse, a, b);
+  }
+}
+
 /**
  * @generated from message connectrpc.lage.v1.PingRequest
  */
@@ -231,3 +309,270 @@ export class PingResponse extends Message<PingResponse> {
     return proto3.util.equals(PingResponse, a, b);
   }
 }
+
+/**
+ * @generated from message connectrpc.lage.v1.GetStatusRequest
+ */
+export class GetStatusRequest extends Message<GetStatusRequest> {
+  constructor(data?: PartialMessage<GetStatusRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "connectrpc.lage.v1.GetStatusRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => []);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): GetStatusRequest {
+    return new GetStatusRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): GetStatusRequest {
+    return new GetStatusRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): GetStatusRequest {
+    return new GetStatusRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(
+    a: GetStatusRequest | PlainMessage<GetStatusRequest> | undefined,
+    b: GetStatusRequest | PlainMessage<GetStatusRequest> | undefined
+  ): boolean {
+    return proto3.util.equals(GetStatusRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message connectrpc.lage.v1.TargetStatus
+ */
+export class TargetStatus extends Message<TargetStatus> {
+  /**
+   * @generated from field: string id = 1;
+   */
+  id = "";
+
+  /**
+   * @generated from field: optional string package_name = 2;
+   */
+  packageName?: string;
+
+  /**
+   * @generated from field: string task = 3;
+   */
+  task = "";
+
+  /**
+   * queued or running
+   *
+   * @generated from field: string status = 4;
+   */
+  status = "";
+
+  /**
+   * @generated from field: int32 thread_id = 5;
+   */
+  threadId = 0;
+
+  /**
+   * in milliseconds, since the target was queued
+   *
+   * @generated from field: double elapsed = 6;
+   */
+  elapsed = 0;
+
+  constructor(data?: PartialMessage<TargetStatus>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "connectrpc.lage.v1.TargetStatus";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "package_name", kind: "scalar", T: 9 /* ScalarType.STRING */, opt: true },
+    { no: 3, name: "task", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 4, name: "status", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 5, name: "thread_id", kind: "scalar", T: 5 /* ScalarType.INT32 */ },
+    { no: 6, name: "elapsed", kind: "scalar", T: 1 /* ScalarType.DOUBLE */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): TargetStatus {
+    return new TargetStatus().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): TargetStatus {
+    return new TargetStatus().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): TargetStatus {
+    return new TargetStatus().fromJsonString(jsonString, options);
+  }
+
+  static equals(
+    a: TargetStatus | PlainMessage<TargetStatus> | undefined,
+    b: TargetStatus | PlainMessage<TargetStatus> | undefined
+  ): boolean {
+    return proto3.util.equals(TargetStatus, a, b);
+  }
+}
+
+/**
+ * @generated from message connectrpc.lage.v1.GetStatusResponse
+ */
+export class GetStatusResponse extends Message<GetStatusResponse> {
+  /**
+   * whether the first RunTarget request initialized the target graph and the worker pool
+   *
+   * @generated from field: bool initialized = 1;
+   */
+  initialized = false;
+
+  /**
+   * @generated from field: int32 max_workers = 2;
+   */
+  maxWorkers = 0;
+
+  /**
+   * @generated from field: int32 worker_restarts = 3;
+   */
+  workerRestarts = 0;
+
+  /**
+   * @generated from field: double max_worker_memory_usage = 4;
+   */
+  maxWorkerMemoryUsage = 0;
+
+  /**
+   * @generated from field: repeated connectrpc.lage.v1.TargetStatus targets = 5;
+   */
+  targets: TargetStatus[] = [];
+
+  /**
+   * memory usage of the server process, in bytes
+   *
+   * @generated from field: double rss = 6;
+   */
+  rss = 0;
+
+  /**
+   * @generated from field: double heap_used = 7;
+   */
+  heapUsed = 0;
+
+  /**
+   * @generated from field: double heap_total = 8;
+   */
+  heapTotal = 0;
+
+  /**
+   * in seconds
+   *
+   * @generated from field: double uptime = 9;
+   */
+  uptime = 0;
+
+  constructor(data?: PartialMessage<GetStatusResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "connectrpc.lage.v1.GetStatusResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "initialized", kind: "scalar", T: 8 /* ScalarType.BOOL */ },
+    { no: 2, name: "max_workers", kind: "scalar", T: 5 /* ScalarType.INT32 */ },
+    { no: 3, name: "worker_restarts", kind: "scalar", T: 5 /* ScalarType.INT32 */ },
+    { no: 4, name: "max_worker_memory_usage", kind: "scalar", T: 1 /* ScalarType.DOUBLE */ },
+    { no: 5, name: "targets", kind: "message", T: TargetStatus, repeated: true },
+    { no: 6, name: "rss", kind: "scalar", T: 1 /* ScalarType.DOUBLE */ },
+    { no: 7, name: "heap_used", kind: "scalar", T: 1 /* ScalarType.DOUBLE */ },
+    { no: 8, name: "heap_total", kind: "scalar", T: 1 /* ScalarType.DOUBLE */ },
+    { no: 9, name: "uptime", kind: "scalar", T: 1 /* ScalarType.DOUBLE */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): GetStatusResponse {
+    return new GetStatusResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): GetStatusResponse {
+    return new GetStatusResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): GetStatusResponse {
+    return new GetStatusResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(
+    a: GetStatusResponse | PlainMessage<GetStatusResponse> | undefined,
+    b: GetStatusResponse | PlainMessage<GetStatusResponse> | undefined
+  ): boolean {
+    return proto3.util.equals(GetStatusResponse, a, b);
+  }
+}
+
+/**
+ * @generated from message connectrpc.lage.v1.ShutdownRequest
+ */
+export class ShutdownRequest extends Message<ShutdownRequest> {
+  constructor(data?: PartialMessage<ShutdownRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "connectrpc.lage.v1.ShutdownRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => []);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): ShutdownRequest {
+    return new ShutdownRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): ShutdownRequest {
+    return new ShutdownRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): ShutdownRequest {
+    return new ShutdownRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(
+    a: ShutdownRequest | PlainMessage<ShutdownRequest> | undefined,
+    b: ShutdownRequest | PlainMessage<ShutdownRequest> | undefined
+  ): boolean {
+    return proto3.util.equals(ShutdownRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message connectrpc.lage.v1.ShutdownResponse
+ */
+export class ShutdownResponse extends Message<ShutdownResponse> {
+  constructor(data?: PartialMessage<ShutdownResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "connectrpc.lage.v1.ShutdownResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => []);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): ShutdownResponse {
+    return new ShutdownResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): ShutdownResponse {
+    return new ShutdownResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): ShutdownResponse {
+    return new ShutdownResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(
+    a: ShutdownResponse | PlainMessage<ShutdownResponse> | undefined,
+    b: ShutdownResponse | PlainMessage<ShutdownResponse> | undefined
+  ): boolean {
+    return proto3.util.equals(ShutdownResponse, a, b);
+  }
+}
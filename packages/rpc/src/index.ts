@@ -2,3 +2,11 @@ export { createServer } from "./createServer.js";
 export { createClient, type LageClient } from "./createClient.js";
 export type { ILageService } from "./types/ILageService.js";
 export { ConnectError, Code } from "@connectrpc/connect";
+export type { PartialMessage } from "@bufbuild/protobuf";
+export type {
+  RunTargetRequest,
+  RunTargetResponse,
+  RunTargetStreamResponse,
+  GetStatusResponse,
+  TargetStatus,
+} from "./gen/lage/v1/lage_pb.js";
@@ -0,0 +1,89 @@
+import os from "os";
+import type { RunnerResult, TargetRunner, TargetRunnerOptions } from "./types/TargetRunner.js";
+import type { Target } from "@lage-run/target-graph";
+import { getRunnerEnv, type StrictEnvOptions } from "./getRunnerEnv.js";
+import { spawnTargetProcess } from "./spawnTargetProcess.js";
+
+export interface CommandRunnerOptions extends StrictEnvOptions {
+  taskArgs: string[];
+  nodeOptions?: string;
+}
+
+/**
+ * Runs the command given in the target options (`options.command`) directly in the target's cwd, without going through npm.
+ *
+ * The command can be given as:
+ * 1. an array of arguments, e.g. `["prettier", "--write", "."]` - spawned without a shell
+ * 2. a string, e.g. `"prettier --write . && eslint ."` - run in a shell
+ *
+ * Any task args (from the command line and `options.taskArgs`) are appended to the command.
+ *
+ * This class deals with these concepts:
+ *
+ * 1. Spawning the command.
+ * 2. Handling exit & error events from child process.
+ * 3. Stream stdout & stderr from child process to a logger.
+ * 4. Handling the abort controller signal - kills the child process if started.
+ * 5. injecting these environment variables into the child process (on top of `process.env`, or only its declared variables when
+ *    `strictEnv` is on):
+ *    - `options.env` of the target
+ *    - LAGE_PACKAGE_NAME - the name of the package
+ *    - LAGE_TASK - the name of the task
+ *    - LAGE_WEIGHT - the weight of the target
+ *    - NODE_OPTIONS - the node options to use when spawning the child process
+ *    - FORCE_COLOR - set to "1" detect that this is a TTY
+ */
+export class CommandRunner implements TargetRunner {
+  static gracefulKillTimeout = 2500;
+
+  constructor(private options: CommandRunnerOptions) {}
+
+  private getCommand(target: Target): { file: string; args: string[]; shell: boolean } {
+    const command: string | string[] | undefined = target.options?.command;
+    const taskArgs = [...this.options.taskArgs, ...(target.options?.taskArgs ?? [])];
+
+    if (typeof command === "string" && command.trim()) {
+      return { file: [command, ...taskArgs].join(" "), args: [], shell: true };
+    }
+
+    if (Array.isArray(command) && command.length > 0) {
+      const [file, ...args] = command;
+
+      // This is required for Windows due to https://nodejs.org/en/blog/vulnerability/april-2024-security-releases-2
+      return { file, args: [...args, ...taskArgs], shell: os.platform() === "win32" };
+    }
+
+    throw new Error(`Command Runner: target ${target.id} has no "command" in its options`);
+  }
+
+  async shouldRun(target: Target) {
+    return !!target.options?.command && (target.shouldRun ?? true);
+  }
+
+  async run(runOptions: TargetRunnerOptions): Promise<RunnerResult> {
+    const { target, weight, abortSignal } = runOptions;
+    const { nodeOptions } = this.options;
+
+    const { file, args, shell } = this.getCommand(target);
+    const commandNodeOptions = [nodeOptions, target.options?.nodeOptions].filter((str) => str).join(" ");
+
+    return await spawnTargetProcess({
+      runnerName: "Command Runner",
+      file,
+      args,
+      cwd: target.cwd,
+      shell,
+      env: {
+        ...(process.stdout.isTTY && { FORCE_COLOR: "1" }), // allow user env to override this
+        ...getRunnerEnv(target, this.options),
+        ...(commandNodeOptions && { NODE_OPTIONS: commandNodeOptions }),
+        ...target.options?.env,
+        LAGE_PACKAGE_NAME: target.packageName,
+        LAGE_TASK: target.task,
+        LAGE_WEIGHT: String(weight),
+      },
+      abortSignal,
+      gracefulKillTimeout: CommandRunner.gracefulKillTimeout,
+    });
+  }
+}
@@ -1,11 +1,12 @@
 import { join } from "path";
 import { readFile } from "fs/promises";
-import { spawn, type ChildProcess } from "child_process";
 import os from "os";
 import type { RunnerResult, TargetRunner, TargetRunnerOptions } from "./types/TargetRunner.js";
 import type { Target } from "@lage-run/target-graph";
+import { getRunnerEnv, type StrictEnvOptions } from "./getRunnerEnv.js";
+import { spawnTargetProcess } from "./spawnTargetProcess.js";
 
-export interface NpmScriptRunnerOptions {
+export interface NpmScriptRunnerOptions extends StrictEnvOptions {
   taskArgs: string[];
   nodeOptions: string;
   npmCmd: string;
@@ -23,7 +24,8 @@ export interface NpmScriptRunnerOptions {
  * 3. Handling exit & error events from child process.
  * 4. Stream stdout & stderr from child process to a logger.
  * 5. Handling the abort controller signal - kills the child process if started.
- * 6. injecting these environment variables into the child process:
+ * 6. injecting these environment variables into the child process (on top of `process.env`, or only its declared variables when
+ *    `strictEnv` is on):
  *    - LAGE_PACKAGE_NAME - the name of the package
  *    - LAGE_TASK - the name of the task
  *    - NODE_OPTIONS - the node options to use when spawning the child process
@@ -58,43 +60,6 @@ export class NpmScriptRunner implements TargetRunner {
     const { nodeOptions, npmCmd, taskArgs } = this.options;
     const task = target.options?.script ?? target.task;
 
-    let childProcess: ChildProcess | undefined;
-
-    /**
-     * Handling abort signal from the abort controller. Gracefully kills the process,
-     * will be handled by exit handler separately to resolve the promise.
-     */
-    if (abortSignal) {
-      if (abortSignal.aborted) {
-        return { exitCode: 1 };
-      }
-
-      const abortSignalHandler = () => {
-        abortSignal.removeEventListener("abort", abortSignalHandler);
-        if (childProcess && !childProcess.killed) {
-          const pid = childProcess.pid;
-
-          process.stdout.write(`Abort signal detected, attempting to killing process id ${pid}\n`);
-
-          childProcess.kill("SIGTERM");
-
-          // wait for "gracefulKillTimeout" to make sure everything is terminated via SIGKILL
-          const t = setTimeout(() => {
-            if (childProcess && !childProcess.killed) {
-              childProcess.kill("SIGKILL");
-            }
-          }, NpmScriptRunner.gracefulKillTimeout);
-
-          // Remember that even this timeout needs to be unref'ed, otherwise the process will hang due to this timeout
-          if (t.unref) {
-            t.unref();
-          }
-        }
-      };
-
-      abortSignal.addEventListener("abort", abortSignalHandler);
-    }
-
     /**
      * Actually spawn the npm client to run the task
      */
@@ -103,57 +68,23 @@ export class NpmScriptRunner implements TargetRunner {
     const npmRunArgs = this.getNpmArgs(task, args);
     const npmRunNodeOptions = [nodeOptions, target.options?.nodeOptions].filter((str) => str).join(" ");
 
-    return await new Promise<RunnerResult>((resolve, reject) => {
-      childProcess = spawn(npmCmd, npmRunArgs, {
-        cwd: target.cwd,
-        stdio: ["inherit", "pipe", "pipe"],
-        // This is required for Windows due to https://nodejs.org/en/blog/vulnerability/april-2024-security-releases-2
-        ...(os.platform() === "win32" && { shell: true }),
-        env: {
-          ...(process.stdout.isTTY && { FORCE_COLOR: "1" }), // allow user env to override this
-          ...process.env,
-          ...(npmRunNodeOptions && { NODE_OPTIONS: npmRunNodeOptions }),
-          LAGE_PACKAGE_NAME: target.packageName,
-          LAGE_TASK: target.task,
-          LAGE_WEIGHT: String(weight),
-        },
-      });
-
-      let exitHandled = false;
-
-      const handleChildProcessExit = (code: number) => {
-        childProcess?.off("exit", handleChildProcessExit);
-        childProcess?.off("error", handleChildProcessExit);
-
-        if (exitHandled) {
-          return;
-        }
-
-        exitHandled = true;
-
-        childProcess?.stdout?.destroy();
-        childProcess?.stderr?.destroy();
-        childProcess?.stdin?.destroy();
-
-        if (code === 0) {
-          return resolve({ exitCode: code });
-        }
-
-        reject({ exitCode: code, error: new Error(`NPM Script Runner: ${npmCmd} ${npmRunArgs.join(" ")} exited with code ${code}`) });
-      };
-
-      const { pid } = childProcess;
-
-      process.stdout.write(`Running ${[npmCmd, ...npmRunArgs].join(" ")}, pid: ${pid}\n`);
-
-      const stdout = childProcess.stdout!;
-      const stderr = childProcess.stderr!;
-
-      stdout.pipe(process.stdout);
-      stderr.pipe(process.stderr);
-
-      childProcess.on("exit", handleChildProcessExit);
-      childProcess.on("error", () => handleChildProcessExit(1));
+    return await spawnTargetProcess({
+      runnerName: "NPM Script Runner",
+      file: npmCmd,
+      args: npmRunArgs,
+      cwd: target.cwd,
+      // This is required for Windows due to https://nodejs.org/en/blog/vulnerability/april-2024-security-releases-2
+      shell: os.platform() === "win32",
+      env: {
+        ...(process.stdout.isTTY && { FORCE_COLOR: "1" }), // allow user env to override this
+        ...getRunnerEnv(target, this.options),
+        ...(npmRunNodeOptions && { NODE_OPTIONS: npmRunNodeOptions }),
+        LAGE_PACKAGE_NAME: target.packageName,
+        LAGE_TASK: target.task,
+        LAGE_WEIGHT: String(weight),
+      },
+      abortSignal,
+      gracefulKillTimeout: NpmScriptRunner.gracefulKillTimeout,
     });
   }
 }
@@ -0,0 +1,62 @@
+import { matchEnvVariables, type Target } from "@lage-run/target-graph";
+
+export interface StrictEnvOptions {
+  /**
+   * Only pass the declared environment variables (and the system ones) to the target
+   */
+  strictEnv?: boolean;
+
+  /**
+   * Environment variables (or `*` wildcard patterns) declared for every target - part of the hash
+   */
+  env?: string[];
+
+  /**
+   * Environment variables (or `*` wildcard patterns) passed through to every target - not part of the hash
+   */
+  passThroughEnv?: string[];
+}
+
+/**
+ * Variables that the npm client, the shell and most tools need to work at all - always passed through in strict mode
+ */
+const systemEnv = [
+  "PATH",
+  "PATHEXT",
+  "HOME",
+  "USER",
+  "USERNAME",
+  "USERPROFILE",
+  "APPDATA",
+  "LOCALAPPDATA",
+  "PROGRAMDATA",
+  "SYSTEMROOT",
+  "SYSTEMDRIVE",
+  "WINDIR",
+  "COMSPEC",
+  "TEMP",
+  "TMP",
+  "TMPDIR",
+  "SHELL",
+  "TERM",
+  "LANG",
+  "LC_*",
+];
+
+/**
+ * Gets the environment the runners start the target's process with (before adding the LAGE_* variables): the whole `process.env`,
+ * or only its declared variables in strict mode.
+ */
+export function getRunnerEnv(target: Target, options: StrictEnvOptions): NodeJS.ProcessEnv {
+  if (!options.strictEnv) {
+    return process.env;
+  }
+
+  return matchEnvVariables([
+    ...systemEnv,
+    ...(options.env ?? []),
+    ...(options.passThroughEnv ?? []),
+    ...(target.env ?? []),
+    ...(target.passThroughEnv ?? []),
+  ]);
+}
@@ -1,6 +1,8 @@
 export { NpmScriptRunner } from "./NpmScriptRunner.js";
+export { CommandRunner } from "./CommandRunner.js";
 export { WorkerRunner } from "./WorkerRunner.js";
 export { NoOpRunner } from "./NoOpRunner.js";
 export { TargetRunnerPicker } from "./TargetRunnerPicker.js";
 export type { TargetRunner, TargetRunnerOptions } from "./types/TargetRunner.js";
 export type { TargetRunnerPickerOptions } from "./types/TargetRunnerPickerOptions.js";
+export type { StrictEnvOptions } from "./getRunnerEnv.js";
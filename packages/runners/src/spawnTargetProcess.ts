@@ -0,0 +1,108 @@
+import { spawn, type ChildProcess } from "child_process";
+import type { RunnerResult } from "./types/TargetRunner.js";
+
+export interface SpawnTargetProcessOptions {
+  /** name of the runner, used in the error of a failed process (e.g. "NPM Script Runner") */
+  runnerName: string;
+  file: string;
+  args: string[];
+  cwd: string;
+  shell: boolean;
+  env: NodeJS.ProcessEnv;
+  abortSignal?: AbortSignal;
+  /** how long to wait after SIGTERM before the process is killed with SIGKILL, in milliseconds */
+  gracefulKillTimeout: number;
+}
+
+/**
+ * Spawns the process of a target and waits for it to exit, for the runners that run targets in child processes:
+ *
+ * 1. Streams stdout & stderr of the child process to the ones of this process.
+ * 2. Handles the exit & error events of the child process - resolves on exit code 0, rejects with the exit code otherwise.
+ * 3. Handles the abort signal - kills the child process with SIGTERM, then with SIGKILL if it has not exited after
+ *    `gracefulKillTimeout`. The exit handler then settles the promise.
+ */
+export async function spawnTargetProcess(options: SpawnTargetProcessOptions): Promise<RunnerResult> {
+  const { runnerName, file, args, cwd, shell, env, abortSignal, gracefulKillTimeout } = options;
+  const commandLine = [file, ...args].join(" ");
+
+  if (abortSignal?.aborted) {
+    return { exitCode: 1 };
+  }
+
+  let childProcess: ChildProcess | undefined;
+
+  const abortSignalHandler = () => {
+    abortSignal?.removeEventListener("abort", abortSignalHandler);
+    if (childProcess && !childProcess.killed) {
+      const pid = childProcess.pid;
+
+      process.stdout.write(`Abort signal detected, attempting to killing process id ${pid}\n`);
+
+      childProcess.kill("SIGTERM");
+
+      // wait for "gracefulKillTimeout" to make sure everything is terminated via SIGKILL
+      // ("killed" is already true once SIGTERM has been sent, so check whether the process has actually exited instead)
+      const t = setTimeout(() => {
+        if (childProcess && childProcess.exitCode === null && childProcess.signalCode === null) {
+          childProcess.kill("SIGKILL");
+        }
+      }, gracefulKillTimeout);
+
+      // Remember that even this timeout needs to be unref'ed, otherwise the process will hang due to this timeout
+      if (t.unref) {
+        t.unref();
+      }
+    }
+  };
+
+  abortSignal?.addEventListener("abort", abortSignalHandler);
+
+  return await new Promise<RunnerResult>((resolve, reject) => {
+    childProcess = spawn(file, args, {
+      cwd,
+      stdio: ["inherit", "pipe", "pipe"],
+      shell,
+      env,
+    });
+
+    let exitHandled = false;
+
+    const handleChildProcessExit = (code: number) => {
+      childProcess?.off("exit", handleChildProcessExit);
+      childProcess?.off("error", handleChildProcessError);
+      abortSignal?.removeEventListener("abort", abortSignalHandler);
+
+      if (exitHandled) {
+        return;
+      }
+
+      exitHandled = true;
+
+      childProcess?.stdout?.destroy();
+      childProcess?.stderr?.destroy();
+      childProcess?.stdin?.destroy();
+
+      if (code === 0) {
+        return resolve({ exitCode: code });
+      }
+
+      reject({ exitCode: code, error: new Error(`${runnerName}: ${commandLine} exited with code ${code}`) });
+    };
+
+    const handleChildProcessError = () => handleChildProcessExit(1);
+
+    const { pid } = childProcess;
+
+    process.stdout.write(`Running ${commandLine}, pid: ${pid}\n`);
+
+    const stdout = childProcess.stdout!;
+    const stderr = childProcess.stderr!;
+
+    stdout.pipe(process.stdout);
+    stderr.pipe(process.stderr);
+
+    childProcess.on("exit", handleChildProcessExit);
+    childProcess.on("error", handleChildProcessError);
+  });
+}
@@ -2,3 +2,5 @@ export type { TargetRunSummary, SchedulerRunSummary, SchedulerRunResults } from
 export type { TargetRun } from "./types/TargetRun.js";
 export type { TargetScheduler } from "./types/TargetScheduler.js";
 export type { TargetStatus } from "./types/TargetStatus.js";
+export type { TargetPhaseTiming, TargetRunTimings } from "./types/TargetRunTimings.js";
+export type { CacheRunStats, CacheTier, TargetCacheStats, TargetCacheTransfer } from "./types/CacheRunStats.js";
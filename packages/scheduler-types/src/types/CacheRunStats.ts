@@ -0,0 +1,44 @@
+export type CacheTier = "local" | "remote";
+
+export interface TargetCacheTransfer {
+  /** the tier that served the hit (fetch), or the farthest tier that was written to (put) */
+  tier?: CacheTier;
+  /** size of the cache entry, in bytes */
+  bytes?: number;
+}
+
+/**
+ * What the cache did for a target run: `fetch` is set on a cache hit, `put` when the outputs of the target were saved to the cache
+ */
+export interface TargetCacheStats {
+  fetch?: TargetCacheTransfer;
+  put?: TargetCacheTransfer;
+}
+
+/**
+ * Cache statistics of a whole run
+ */
+export interface CacheRunStats {
+  /** number of targets that were looked up in the cache */
+  lookups: number;
+  hits: number;
+  localHits: number;
+  remoteHits: number;
+
+  /** time spent hashing targets, in milliseconds, summed over all targets */
+  hashTime: number;
+  /** time spent fetching from the cache, in milliseconds, summed over all targets */
+  fetchTime: number;
+  /** time spent saving to the cache, in milliseconds, summed over all targets */
+  putTime: number;
+
+  /** estimated time saved by the cache hits (how long the targets took in previous runs, minus the time of the hits), in milliseconds */
+  timeSaved: number;
+  /** number of hits that `timeSaved` could be estimated for, i.e. that have a previous run to compare with */
+  timeSavedHits: number;
+
+  /** bytes downloaded from the remote cache */
+  remoteBytesFetched: number;
+  /** bytes uploaded to the remote cache */
+  remoteBytesPut: number;
+}
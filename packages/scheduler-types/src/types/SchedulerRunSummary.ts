@@ -1,3 +1,4 @@
+import type { CacheRunStats } from "./CacheRunStats.js";
 import type { TargetRun } from "./TargetRun.js";
 import type { TargetStatus } from "./TargetStatus.js";
 
@@ -16,4 +17,5 @@ export interface SchedulerRunSummary<TTargetRunResult = unknown> {
   error?: string;
   workerRestarts: number;
   maxWorkerMemoryUsage: number;
+  cacheStats?: CacheRunStats;
 }
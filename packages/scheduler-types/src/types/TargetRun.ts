@@ -8,5 +8,7 @@ export interface TargetRun<TResult = unknown> {
   target: Target;
   status: TargetStatus;
   threadId: number;
+  /** number of times the target has been attempted, including retries - 1 when unset */
+  attempts?: number;
   result?: TResult;
 }
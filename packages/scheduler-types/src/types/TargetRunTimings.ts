@@ -0,0 +1,17 @@
+export interface TargetPhaseTiming {
+  /** process.hrtime() at the start of the phase */
+  startTime: [number, number];
+  duration: [number, number];
+}
+
+/**
+ * Timings of the phases of a target run in the worker, besides running the target itself
+ */
+export interface TargetRunTimings {
+  /** getting the hash of the target from the main thread */
+  hash?: TargetPhaseTiming;
+  /** looking up (and restoring) the outputs of the target in the cache */
+  cacheFetch?: TargetPhaseTiming;
+  /** saving the outputs of the target to the cache */
+  cachePut?: TargetPhaseTiming;
+}
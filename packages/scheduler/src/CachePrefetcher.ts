@@ -0,0 +1,124 @@
+import { getExecutionOrder } from "@lage-run/target-graph";
+
+import type { CacheProvider } from "@lage-run/cache";
+import type { Logger } from "@lage-run/logger";
+import type { Target } from "@lage-run/target-graph";
+import type { TargetHasher } from "@lage-run/hasher";
+
+export interface CachePrefetcherOptions {
+  cacheProvider: CacheProvider;
+  hasher: TargetHasher;
+  logger: Logger;
+  /** how many entries are downloaded at once */
+  concurrency: number;
+}
+
+interface PrefetchEntry {
+  hash: string;
+  target: Target;
+}
+
+/**
+ * Gets the remote cache entries of a run into the local cache ahead of the scheduler: the targets are hashed in topological order, as
+ * soon as the hashes of their dependencies are known, and their entries are downloaded by a bounded queue in the background. A target
+ * that is scheduled while its entry is being downloaded waits for the download (see `claim()`), and then finds the entry locally.
+ *
+ * The hashes are speculative: they are computed before the targets run, so they miss the inputs that upstream targets generate, and
+ * the downloads of such targets are wasted. They are kept apart from the hashes of the run, which are computed when the targets run.
+ */
+export class CachePrefetcher {
+  #queue: PrefetchEntry[] = [];
+  #downloads = new Map<string, Promise<void>>();
+  #prefetched = new Set<string>();
+  #claimed = new Set<string>();
+  #hashes: Record<string, string> = {};
+  #hashing: Promise<void> | undefined;
+  #stopped = false;
+
+  constructor(private options: CachePrefetcherOptions) {}
+
+  /**
+   * Starts hashing the targets and downloading their entries, without waiting for either
+   */
+  start(targets: Target[]) {
+    this.#hashing = this.hashTargets(targets).catch((error) => {
+      this.options.logger.verbose(`Cache prefetch stopped: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+
+  /**
+   * Called when a target asks for its hash: a queued download of the entry is dropped (the target fetches it itself), and a download
+   * in progress is waited for
+   */
+  async claim(hash: string) {
+    this.#claimed.add(hash);
+    this.#queue = this.#queue.filter((entry) => entry.hash !== hash);
+    await this.#downloads.get(hash);
+  }
+
+  /**
+   * Whether the entry of a hash is in the local cache because it was downloaded ahead of its target
+   */
+  isPrefetched(hash: string) {
+    return this.#prefetched.has(hash);
+  }
+
+  /**
+   * Stops hashing and starting downloads, and waits for the downloads in progress
+   */
+  async stop() {
+    this.#stopped = true;
+    this.#queue = [];
+    await this.#hashing;
+    await Promise.all(this.#downloads.values());
+  }
+
+  private async hashTargets(targets: Target[]) {
+    const { hasher } = this.options;
+
+    // a cycle stops the prefetch where it is, the scheduler reports it on its own
+    for (const target of getExecutionOrder(targets, { onCycle: "stop" }).flat()) {
+      if (this.#stopped) {
+        return;
+      }
+
+      // targets without cache are not hashed when they run either, so their dependents are hashed without them
+      if (!target.cache) {
+        continue;
+      }
+
+      const { hash } = await hasher.computeHash(target, this.#hashes);
+
+      if (!this.#claimed.has(hash) && !this.#downloads.has(hash) && !this.#prefetched.has(hash)) {
+        this.#queue.push({ hash, target });
+        this.next();
+      }
+    }
+  }
+
+  /** starts the next downloads of the queue, as long as there is room for them */
+  private next() {
+    const { cacheProvider, concurrency, logger } = this.options;
+
+    while (!this.#stopped && this.#downloads.size < concurrency && this.#queue.length > 0) {
+      const { hash, target } = this.#queue.shift()!;
+
+      const download = cacheProvider.prefetch!(hash, target)
+        .then((hit) => {
+          if (hit) {
+            this.#prefetched.add(hash);
+          }
+          logger.silly(`Cache prefetch: ${hash} ${hit}`, { target });
+        })
+        .catch((error) => {
+          logger.silly(`Cache prefetch failed: ${error instanceof Error ? error.message : String(error)}`, { target });
+        })
+        .finally(() => {
+          this.#downloads.delete(hash);
+          this.next();
+        });
+
+      this.#downloads.set(hash, download);
+    }
+  }
+}
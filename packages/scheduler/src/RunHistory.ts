@@ -0,0 +1,151 @@
+import fs from "fs";
+import path from "path";
+import { getCacheDirectoryRoot } from "@lage-run/cache";
+import { getStartTargetId } from "@lage-run/target-graph";
+import type { CacheRunStats, SchedulerRunResults, SchedulerRunSummary, TargetStatus } from "@lage-run/scheduler-types";
+
+const DEFAULT_MAX_ENTRIES = 50;
+
+export interface RunHistoryTargetEntry {
+  status: TargetStatus;
+  /** in milliseconds */
+  duration: number;
+  attempts: number;
+}
+
+export interface RunHistoryEntry {
+  id: string;
+  /** when the run started, in milliseconds since the epoch */
+  timestamp: number;
+  /** the tasks and arguments of the run, e.g. ["build", "test", "--", "--coverage"] */
+  command: string[];
+  results: SchedulerRunResults;
+  /** in milliseconds */
+  duration: number;
+  workerRestarts: number;
+  maxWorkerMemoryUsage: number;
+  cacheStats?: CacheRunStats;
+  targets: Record<string, RunHistoryTargetEntry>;
+}
+
+export interface RunHistoryOptions {
+  root: string;
+
+  /** how many runs to keep, the oldest ones are removed when a run is recorded */
+  maxEntries?: number;
+}
+
+function hrtimeToMs(hrtime: [number, number]) {
+  return Math.round(hrtime[0] * 1e3 + hrtime[1] / 1e6);
+}
+
+/**
+ * RunHistory keeps a rolling history of run summaries in `node_modules/.cache/lage/history`, one JSON file per run,
+ * so that runs can be compared with each other later.
+ */
+export class RunHistory {
+  historyDirectory: string;
+
+  constructor(private options: RunHistoryOptions) {
+    this.historyDirectory = path.join(getCacheDirectoryRoot(options.root), "history");
+  }
+
+  createEntry(summary: SchedulerRunSummary, command: string[], timestamp = Date.now() - hrtimeToMs(summary.duration)): RunHistoryEntry {
+    const targets: Record<string, RunHistoryTargetEntry> = {};
+
+    for (const [id, targetRun] of summary.targetRuns) {
+      if (id === getStartTargetId() || targetRun.target.hidden) {
+        continue;
+      }
+
+      targets[id] = {
+        status: targetRun.status,
+        duration: hrtimeToMs(targetRun.duration),
+        attempts: targetRun.attempts ?? 1,
+      };
+    }
+
+    return {
+      // ids sort in chronological order, the pid keeps concurrent runs apart
+      id: `${new Date(timestamp).toISOString().replace(/[-:.]/g, "")}-${process.pid}`,
+      timestamp,
+      command,
+      results: summary.results,
+      duration: hrtimeToMs(summary.duration),
+      workerRestarts: summary.workerRestarts,
+      maxWorkerMemoryUsage: summary.maxWorkerMemoryUsage,
+      ...(summary.cacheStats && { cacheStats: summary.cacheStats }),
+      targets,
+    };
+  }
+
+  record(summary: SchedulerRunSummary, command: string[]): RunHistoryEntry {
+    const entry = this.createEntry(summary, command);
+
+    fs.mkdirSync(this.historyDirectory, { recursive: true });
+    fs.writeFileSync(path.join(this.historyDirectory, `${entry.id}.json`), JSON.stringify(entry), "utf-8");
+
+    this.prune();
+
+    return entry;
+  }
+
+  /**
+   * Lists the ids of the recorded runs, the most recent first
+   */
+  list(): string[] {
+    if (!fs.existsSync(this.historyDirectory)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(this.historyDirectory)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => path.basename(file, ".json"))
+      .sort()
+      .reverse();
+  }
+
+  read(id: string): RunHistoryEntry | undefined {
+    const entryPath = path.join(this.historyDirectory, `${id}.json`);
+
+    if (!fs.existsSync(entryPath)) {
+      return undefined;
+    }
+
+    return JSON.parse(fs.readFileSync(entryPath, "utf-8"));
+  }
+
+  /**
+   * Gets the average duration (in milliseconds) of each target that ran successfully in the most recent runs. Cache hits are left out,
+   * since they say nothing about how long a target takes.
+   */
+  getTargetDurations(maxEntries = 10): Map<string, number> {
+    const durations = new Map<string, number[]>();
+
+    for (const id of this.list().slice(0, maxEntries)) {
+      const entry = this.read(id);
+
+      for (const [targetId, target] of Object.entries(entry?.targets ?? {})) {
+        if (target.status === "success") {
+          durations.set(targetId, [...(durations.get(targetId) ?? []), target.duration]);
+        }
+      }
+    }
+
+    return new Map(
+      [...durations].map(([targetId, targetDurations]) => [
+        targetId,
+        targetDurations.reduce((total, duration) => total + duration, 0) / targetDurations.length,
+      ])
+    );
+  }
+
+  private prune() {
+    const { maxEntries = DEFAULT_MAX_ENTRIES } = this.options;
+
+    for (const id of this.list().slice(maxEntries)) {
+      fs.rmSync(path.join(this.historyDirectory, `${id}.json`), { force: true });
+    }
+  }
+}
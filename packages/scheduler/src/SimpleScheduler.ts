@@ -1,6 +1,10 @@
 import { AggregatedPool } from "@lage-run/worker-threads-pool";
 import { formatBytes } from "./formatBytes.js";
 import { categorizeTargetRuns } from "./categorizeTargetRuns.js";
+import { getCacheRunStats } from "./getCacheRunStats.js";
+import { RunHistory } from "./RunHistory.js";
+import { CachePrefetcher } from "./CachePrefetcher.js";
+import { createCache, hasRemoteCacheConfig } from "./cache/createCacheProvider.js";
 import { getStartTargetId, sortTargetsByPriority } from "@lage-run/target-graph";
 import { WrappedTarget } from "./WrappedTarget.js";
 import { TargetRunnerPicker } from "@lage-run/runners";
@@ -12,7 +16,7 @@ import type { TargetScheduler, SchedulerRunResults, SchedulerRunSummary, TargetR
 import type { Pool } from "@lage-run/worker-threads-pool";
 import type { TargetRunnerPickerOptions } from "@lage-run/runners";
 import type { TargetHasher } from "@lage-run/hasher";
-import type { CacheOptions } from "@lage-run/cache";
+import type { CacheOptions, CacheProvider } from "@lage-run/cache";
 import type { MessagePort } from "worker_threads";
 
 export interface SimpleSchedulerOptions {
@@ -30,11 +34,15 @@ export interface SimpleSchedulerOptions {
   };
   maxWorkersPerTask: Map<string, number>;
   pool?: Pool; // for testing
+  cacheProvider?: CacheProvider; // for testing, the cache provider of the prefetcher
   workerIdleMemoryLimit: number; // in bytes
   hasher: TargetHasher;
+  targetTimeout?: number; // in milliseconds, applied to targets without their own "timeout"
   onMessage?: (message: any, postMessage: MessagePort["postMessage"]) => void;
 }
 
+const DEFAULT_PREFETCH_CONCURRENCY = 4;
+
 /**
  * Simple scheduler that runs all targets in a promise graph using p-graph library.
  *
@@ -42,6 +50,7 @@ export interface SimpleSchedulerOptions {
  * 1. Can cache results of target runs via the cache provider.
  * 2. Takes a TargetRunner, a CacheProvider, a TargetHasher and a Logger as constructor parameters (dependency injection).
  * 3. Directly constructs new WrappedTarget, which provides the call to caching and logging.
+ * 4. Downloads the remote cache entries of the targets ahead of them with a CachePrefetcher.
  *
  * Roadmap / future enhancements:
  * 1. Allow for multiple kinds of runner (currently only ONE is supported, and it is applied to all targets)
@@ -132,6 +141,7 @@ export class SimpleScheduler implements TargetScheduler<WorkerResult> {
           abortController,
           pool,
           hasher: this.options.hasher,
+          targetTimeout: this.options.targetTimeout,
           onMessage: this.options.onMessage,
         });
       }
@@ -139,6 +149,15 @@ export class SimpleScheduler implements TargetScheduler<WorkerResult> {
       this.targetRuns.set(target.id, targetRun);
     }
 
+    // only awaited when there is something to prefetch, so that nothing else happens before the targets are scheduled
+    const prefetcher = this.shouldPrefetch() ? await this.createPrefetcher() : undefined;
+
+    for (const targetRun of this.targetRuns.values()) {
+      targetRun.options.prefetcher = prefetcher;
+    }
+
+    prefetcher?.start([...this.targetRuns.values()].filter((targetRun) => !targetRun.successful).map((targetRun) => targetRun.target));
+
     let results: SchedulerRunResults = "failed";
     let error: string | undefined;
     let duration: [number, number] = [0, 0];
@@ -149,11 +168,14 @@ export class SimpleScheduler implements TargetScheduler<WorkerResult> {
     } catch (e) {
       error = e instanceof Error ? e.message : String(e);
     } finally {
+      await prefetcher?.stop();
+
       duration = process.hrtime(startTime);
       targetRunByStatus = categorizeTargetRuns(this.targetRuns.values());
 
       if (
         targetRunByStatus.failed.length +
+          targetRunByStatus.timedOut.length +
           targetRunByStatus.aborted.length +
           targetRunByStatus.pending.length +
           targetRunByStatus.running.length ===
@@ -167,6 +189,16 @@ export class SimpleScheduler implements TargetScheduler<WorkerResult> {
 
     await this.options.hasher.cleanup();
 
+    // the time saved by the cache hits is estimated from how long the targets took in the previous runs
+    let targetDurations: Map<string, number> | undefined;
+    if (targetRunByStatus.skipped.length > 0) {
+      try {
+        targetDurations = new RunHistory({ root }).getTargetDurations();
+      } catch (e) {
+        logger.verbose(`Unable to read the run history to estimate the time saved by the cache: ${e}`);
+      }
+    }
+
     return {
       targetRunByStatus,
       targetRuns: this.targetRuns,
@@ -176,9 +208,49 @@ export class SimpleScheduler implements TargetScheduler<WorkerResult> {
       error,
       workerRestarts: poolStats.workerRestarts, // number of times a worker was restarted due to memory usage
       maxWorkerMemoryUsage: poolStats.maxWorkerMemoryUsage, // max memory usage of a worker in bytes
+      cacheStats: getCacheRunStats(this.targetRuns.values(), targetDurations),
     };
   }
 
+  /**
+   * Whether to download the remote cache entries of a run ahead of its targets - they go into the local cache
+   */
+  private shouldPrefetch() {
+    const { shouldCache, shouldResetCache, workerData } = this.options;
+
+    return (
+      shouldCache &&
+      !shouldResetCache &&
+      !workerData.skipLocalCache &&
+      this.getPrefetchConcurrency() > 0 &&
+      (!!this.options.cacheProvider || hasRemoteCacheConfig(workerData.cacheOptions))
+    );
+  }
+
+  private getPrefetchConcurrency() {
+    return this.options.workerData.cacheOptions?.prefetchConcurrency ?? DEFAULT_PREFETCH_CONCURRENCY;
+  }
+
+  private async createPrefetcher(): Promise<CachePrefetcher | undefined> {
+    const { workerData, logger, hasher } = this.options;
+
+    const cacheProvider =
+      this.options.cacheProvider ??
+      (
+        await createCache({
+          root: workerData.root,
+          logger,
+          cacheOptions: workerData.cacheOptions,
+          skipLocalCache: false,
+          cliArgs: workerData.taskArgs,
+        })
+      ).cacheProvider;
+
+    return cacheProvider.prefetch
+      ? new CachePrefetcher({ cacheProvider, hasher, logger, concurrency: this.getPrefetchConcurrency() })
+      : undefined;
+  }
+
   /**
    * Used by consumers of the scheduler to notify that the inputs to the target has changed
    * @param targetId
@@ -271,6 +343,7 @@ export class SimpleScheduler implements TargetScheduler<WorkerResult> {
         completed:
           targetRunByStatus.aborted.length +
           targetRunByStatus.failed.length +
+          targetRunByStatus.timedOut.length +
           targetRunByStatus.skipped.length +
           targetRunByStatus.success.length,
         total,
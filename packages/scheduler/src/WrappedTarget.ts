@@ -1,5 +1,6 @@
 import { bufferTransform } from "./bufferTransform.js";
 import { getLageOutputCacheLocation } from "./getLageOutputCacheLocation.js";
+import { getRetryDelay, shouldRetry } from "./retryPolicy.js";
 import { type LogEntry, LogLevel } from "@lage-run/logger";
 
 import fs from "fs";
@@ -7,11 +8,12 @@ import path from "path";
 import { mkdir, writeFile } from "fs/promises";
 
 import type { Pool } from "@lage-run/worker-threads-pool";
-import type { TargetRun, TargetStatus } from "@lage-run/scheduler-types";
+import type { TargetCacheStats, TargetRun, TargetRunTimings, TargetStatus } from "@lage-run/scheduler-types";
 import { getStartTargetId, type Target } from "@lage-run/target-graph";
 import type { Logger } from "@lage-run/logger";
 import type { TargetHasher } from "@lage-run/hasher";
 import type { MessagePort } from "worker_threads";
+import type { CachePrefetcher } from "./CachePrefetcher.js";
 
 export interface WrappedTargetOptions {
   root: string;
@@ -22,6 +24,8 @@ export interface WrappedTargetOptions {
   abortController: AbortController;
   pool: Pool;
   hasher: TargetHasher;
+  targetTimeout?: number; // in milliseconds, applied when the target does not define its own "timeout"
+  prefetcher?: CachePrefetcher;
   onMessage?: (message: any, postMessage: MessagePort["postMessage"]) => void;
 }
 
@@ -32,6 +36,8 @@ export interface WorkerResult {
   hash: string;
   value: unknown;
   id: string;
+  timings?: TargetRunTimings;
+  cache?: TargetCacheStats;
 }
 
 /**
@@ -40,6 +46,8 @@ export interface WorkerResult {
  * 2. Logging
  * 3. Abort signal
  * 4. Continue on error
+ * 5. Retries of failed attempts
+ * 6. Timeouts
  */
 export class WrappedTarget implements TargetRun<WorkerResult> {
   #status: TargetStatus = "pending";
@@ -49,6 +57,8 @@ export class WrappedTarget implements TargetRun<WorkerResult> {
   duration: [number, number] = [0, 0];
   target: Target;
   threadId = 0;
+  attempts = 0;
+  timedOut = false;
 
   get result() {
     return this.#result;
@@ -100,7 +110,12 @@ export class WrappedTarget implements TargetRun<WorkerResult> {
       this.threadId = threadId;
       this.#status = "running";
       this.startTime = process.hrtime();
-      this.options.logger.info("", { target: this.target, status: "running", threadId });
+      this.options.logger.info("", {
+        target: this.target,
+        status: "running",
+        threadId,
+        ...(this.attempts > 1 && { attempt: this.attempts }),
+      });
     }
   }
 
@@ -128,6 +143,20 @@ export class WrappedTarget implements TargetRun<WorkerResult> {
     }
   }
 
+  onTimeout() {
+    this.#status = "timedOut";
+    this.options.logger.info("", {
+      target: this.target,
+      status: "timedOut",
+      duration: this.duration,
+      threadId: this.threadId,
+    });
+
+    if (!this.options.continueOnError && this.options.abortController) {
+      this.options.abortController.abort();
+    }
+  }
+
   onSkipped(hash?: string | undefined) {
     this.#status = "skipped";
 
@@ -154,7 +183,12 @@ export class WrappedTarget implements TargetRun<WorkerResult> {
     }
 
     try {
-      this.#result = await this.runInPool();
+      this.#result = await this.runInPoolWithRetries();
+
+      // the worker found the entries downloaded by the prefetcher in the local cache, but they came from the remote cache
+      if (this.#result.cache?.fetch && this.options.prefetcher?.isPrefetched(this.#result.hash)) {
+        this.#result.cache.fetch.tier = "remote";
+      }
 
       const cacheEnabled = target.cache && shouldCache && this.#result.hash;
       // Save output if cache is enabled & cache is hit
@@ -193,7 +227,9 @@ export class WrappedTarget implements TargetRun<WorkerResult> {
         logger.error(String(e), { target });
       }
 
-      if (abortSignal.aborted) {
+      if (this.timedOut) {
+        this.onTimeout();
+      } else if (abortSignal.aborted) {
         this.onAbort();
       } else {
         this.onFail();
@@ -203,68 +239,138 @@ export class WrappedTarget implements TargetRun<WorkerResult> {
     }
   }
 
-  private async runInPool(): Promise<WorkerResult> {
-    const { target, logger, abortController, pool } = this.options;
+  /**
+   * Runs the target in the pool, re-queuing it after a failed attempt as long as the target's retry policy allows it.
+   */
+  private async runInPoolWithRetries(): Promise<WorkerResult> {
+    const { target, logger, abortController } = this.options;
     const abortSignal = abortController.signal;
 
-    let releaseStdout: any;
-    let releaseStderr: any;
+    this.attempts = 0;
 
-    const bufferStdout = bufferTransform();
-    const bufferStderr = bufferTransform();
+    for (;;) {
+      this.attempts++;
 
-    let msgHandler: (data: LogEntry<any> & { type: string }) => void;
+      try {
+        return await this.runInPool();
+      } catch (e) {
+        if (abortSignal.aborted || !shouldRetry(target.retries, this.attempts, e)) {
+          throw e;
+        }
 
-    const result = await (pool.exec(
-      { target },
-      target.weight ?? 1,
-      (worker, stdout, stderr) => {
-        const postMessage = worker.postMessage.bind(worker);
-
-        msgHandler = (data) => {
-          if (data.type === "log") {
-            logger.log(data.level, data.msg, { target, threadId: worker.threadId });
-          } else if (data.type === "hash") {
-            this.options.hasher.hash(target).then((hash) => {
-              worker.postMessage({ type: "hash", hash });
-            });
-          } else if (this.options.onMessage) {
-            this.options.onMessage(data, postMessage);
-          }
-        };
+        const delay = getRetryDelay(target.retries!, this.attempts);
+        logger.warn(`Attempt ${this.attempts} failed, retrying${delay > 0 ? ` in ${delay}ms` : ""}`, { target, attempt: this.attempts });
 
-        worker.on("message", msgHandler);
+        this.onQueued();
 
-        const threadId = worker.threadId;
+        if (delay > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
 
-        this.onStart(threadId);
+        if (abortSignal.aborted) {
+          throw e;
+        }
+      }
+    }
+  }
 
-        stdout.pipe(bufferStdout.transform);
-        stderr.pipe(bufferStderr.transform);
+  private async runInPool(): Promise<WorkerResult> {
+    const { target, logger, abortController, pool } = this.options;
+    const timeout = target.timeout ?? this.options.targetTimeout;
 
-        const releaseStdoutStream = logger.stream(LogLevel.verbose, stdout, { target, threadId });
+    // Each attempt gets its own abort controller so a timeout only aborts this target, while an abort of the whole run still propagates
+    const attemptAbortController = new AbortController();
+    const abortSignal = attemptAbortController.signal;
+    const onAbort = () => attemptAbortController.abort();
+    abortController.signal.addEventListener("abort", onAbort);
 
-        releaseStdout = () => {
-          releaseStdoutStream();
-          stdout.unpipe(bufferStdout.transform);
-        };
+    let timeoutHandle: NodeJS.Timeout | undefined;
+    this.timedOut = false;
 
-        const releaseStderrStream = logger.stream(LogLevel.verbose, stderr, { target, threadId });
+    let releaseStdout: any;
+    let releaseStderr: any;
+
+    const bufferStdout = bufferTransform();
+    const bufferStderr = bufferTransform();
+
+    let msgHandler: (data: LogEntry<any> & { type: string }) => void;
 
-        releaseStderr = () => {
-          releaseStderrStream();
-          stderr.unpipe(bufferStderr.transform);
-        };
-      },
-      (worker) => {
-        worker.off("message", msgHandler);
-        this.duration = process.hrtime(this.startTime);
-        releaseStdout();
-        releaseStderr();
-      },
-      abortSignal,
-      target.priority
-    ) as Promise<{ value?: unknown; skipped: boolean; hash: string; id: string }>);
+    let result:
+      | { value?: unknown; skipped: boolean; hash: string; id: string; timings?: TargetRunTimings; cache?: TargetCacheStats }
+      | undefined;
+
+    try {
+      result = await (pool.exec(
+        { target },
+        target.weight ?? 1,
+        (worker, stdout, stderr) => {
+          const postMessage = worker.postMessage.bind(worker);
+
+          msgHandler = (data) => {
+            if (data.type === "log") {
+              logger.log(data.level, data.msg, { target, threadId: worker.threadId });
+            } else if (data.type === "hash") {
+              this.options.hasher
+                .hash(target)
+                .then(async (hash) => {
+                  // the entry may be on its way into the local cache
+                  await this.options.prefetcher?.claim(hash);
+                  worker.postMessage({ type: "hash", hash });
+                })
+                .catch((error) => {
+                  // the worker waits for the hash, so fail the attempt rather than leave it hanging
+                  worker.postMessage({ type: "hash", error: error instanceof Error ? error.message : String(error) });
+                });
+            } else if (this.options.onMessage) {
+              this.options.onMessage(data, postMessage);
+            }
+          };
+
+          worker.on("message", msgHandler);
+
+          const threadId = worker.threadId;
+
+          this.onStart(threadId);
+
+          if (timeout) {
+            timeoutHandle = setTimeout(() => {
+              this.timedOut = true;
+              logger.error(`Target timed out after ${timeout}ms, aborting`, { target });
+              attemptAbortController.abort();
+            }, timeout);
+          }
+
+          stdout.pipe(bufferStdout.transform);
+          stderr.pipe(bufferStderr.transform);
+
+          const releaseStdoutStream = logger.stream(LogLevel.verbose, stdout, { target, threadId });
+
+          releaseStdout = () => {
+            releaseStdoutStream();
+            stdout.unpipe(bufferStdout.transform);
+          };
+
+          const releaseStderrStream = logger.stream(LogLevel.verbose, stderr, { target, threadId });
+
+          releaseStderr = () => {
+            releaseStderrStream();
+            stderr.unpipe(bufferStderr.transform);
+          };
+        },
+        (worker) => {
+          clearTimeout(timeoutHandle);
+          worker.off("message", msgHandler);
+          this.duration = process.hrtime(this.startTime);
+          releaseStdout();
+          releaseStderr();
+        },
+        abortSignal,
+        target.priority
+      ) as Promise<{ value?: unknown; skipped: boolean; hash: string; id: string; timings?: TargetRunTimings; cache?: TargetCacheStats }>);
+    } finally {
+      clearTimeout(timeoutHandle);
+      abortController.signal.removeEventListener("abort", onAbort);
+    }
 
     return {
       stdoutBuffer: bufferStdout.buffer,
@@ -273,6 +379,8 @@ export class WrappedTarget implements TargetRun<WorkerResult> {
       hash: result?.hash,
       value: result?.value,
       id: result?.id,
+      timings: result?.timings,
+      cache: result?.cache,
     };
   }
 
@@ -287,6 +395,7 @@ export class WrappedTarget implements TargetRun<WorkerResult> {
     return {
       target: this.target.id,
       status: this.status,
+      ...(this.attempts > 1 && { attempts: this.attempts }),
     };
   }
 
@@ -296,5 +405,7 @@ export class WrappedTarget implements TargetRun<WorkerResult> {
   reset() {
     this.#result = undefined;
     this.#status = "pending";
+    this.attempts = 0;
+    this.timedOut = false;
   }
 }
@@ -11,12 +11,13 @@ interface CreateCacheOptions {
   cliArgs: string[];
 }
 
+export function hasRemoteCacheConfig(cacheOptions: CacheOptions | undefined) {
+  return !!cacheOptions?.cacheStorageConfig || !!process.env.BACKFILL_CACHE_PROVIDER || !!process.env.BACKFILL_CACHE_PROVIDER_OPTIONS;
+}
+
 export async function createCache(options: CreateCacheOptions) {
   const { cacheOptions, logger, root, skipLocalCache } = options;
 
-  const hasRemoteCacheConfig =
-    !!cacheOptions?.cacheStorageConfig || !!process.env.BACKFILL_CACHE_PROVIDER || !!process.env.BACKFILL_CACHE_PROVIDER_OPTIONS;
-
   // Create Cache Provider
   const cacheProvider = new RemoteFallbackCacheProvider({
     root,
@@ -33,7 +34,16 @@ export async function createCache(options: CreateCacheOptions) {
               ...(cacheOptions?.incrementalCaching && { incrementalCaching: cacheOptions.incrementalCaching }),
             },
           }),
-    remoteCacheProvider: hasRemoteCacheConfig ? new BackfillCacheProvider({ logger, root, cacheOptions: cacheOptions ?? {} }) : undefined,
+    remoteCacheProvider: hasRemoteCacheConfig(cacheOptions)
+      ? new BackfillCacheProvider({
+          logger,
+          root,
+          cacheOptions: {
+            ...cacheOptions,
+            ...(process.env.LAGE_CACHE_INTEGRITY_KEY && { integrityKey: process.env.LAGE_CACHE_INTEGRITY_KEY }),
+          },
+        })
+      : undefined,
     writeRemoteCache:
       (cacheOptions?.writeRemoteCache === true || String(process.env.LAGE_WRITE_CACHE).toLowerCase() === "true" || isRunningFromCI) &&
       String(process.env.LAGE_WRITE_CACHE).toLowerCase() !== "false",
@@ -4,6 +4,7 @@ export function categorizeTargetRuns<T extends TargetRun>(targetRuns: IterableIt
   const summary: TargetRunSummary = {
     aborted: [],
     failed: [],
+    timedOut: [],
     skipped: [],
     success: [],
     running: [],
@@ -0,0 +1,81 @@
+import { getStartTargetId } from "@lage-run/target-graph";
+import type { CacheRunStats, TargetPhaseTiming, TargetRun } from "@lage-run/scheduler-types";
+import type { WorkerResult } from "./WrappedTarget.js";
+
+function hrtimeToMs(hrtime: [number, number]) {
+  return hrtime[0] * 1e3 + hrtime[1] / 1e6;
+}
+
+function phaseToMs(timing: TargetPhaseTiming | undefined) {
+  return timing ? hrtimeToMs(timing.duration) : 0;
+}
+
+/**
+ * Sums up what the cache did for the targets of a run.
+ *
+ * @param targetDurations how long (in milliseconds) the targets took when they last ran, to estimate the time saved by the hits
+ */
+export function getCacheRunStats(
+  targetRuns: Iterable<TargetRun<WorkerResult>>,
+  targetDurations = new Map<string, number>()
+): CacheRunStats {
+  const stats: CacheRunStats = {
+    lookups: 0,
+    hits: 0,
+    localHits: 0,
+    remoteHits: 0,
+    hashTime: 0,
+    fetchTime: 0,
+    putTime: 0,
+    timeSaved: 0,
+    timeSavedHits: 0,
+    remoteBytesFetched: 0,
+    remoteBytesPut: 0,
+  };
+
+  for (const targetRun of targetRuns) {
+    const { target, result } = targetRun;
+
+    if (target.hidden || target.id === getStartTargetId() || !result) {
+      continue;
+    }
+
+    const { timings, cache } = result;
+
+    stats.hashTime += phaseToMs(timings?.hash);
+    stats.fetchTime += phaseToMs(timings?.cacheFetch);
+    stats.putTime += phaseToMs(timings?.cachePut);
+
+    if (timings?.cacheFetch) {
+      stats.lookups++;
+    }
+
+    if (result.skipped) {
+      stats.hits++;
+
+      if (cache?.fetch?.tier === "remote") {
+        stats.remoteHits++;
+        stats.remoteBytesFetched += cache.fetch.bytes ?? 0;
+      } else if (cache?.fetch?.tier === "local") {
+        stats.localHits++;
+      }
+
+      const previousDuration = targetDurations.get(target.id);
+      if (previousDuration !== undefined) {
+        stats.timeSaved += Math.max(0, previousDuration - hrtimeToMs(targetRun.duration));
+        stats.timeSavedHits++;
+      }
+    }
+
+    if (cache?.put?.tier === "remote") {
+      stats.remoteBytesPut += cache.put.bytes ?? 0;
+    }
+  }
+
+  stats.hashTime = Math.round(stats.hashTime);
+  stats.fetchTime = Math.round(stats.fetchTime);
+  stats.putTime = Math.round(stats.putTime);
+  stats.timeSaved = Math.round(stats.timeSaved);
+
+  return stats;
+}
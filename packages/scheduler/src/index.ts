@@ -1 +1,5 @@
 export { SimpleScheduler } from "./SimpleScheduler.js";
+export { createCache as createCacheProvider } from "./cache/createCacheProvider.js";
+export { RunHistory } from "./RunHistory.js";
+export { getCacheRunStats } from "./getCacheRunStats.js";
+export type { RunHistoryEntry, RunHistoryTargetEntry, RunHistoryOptions } from "./RunHistory.js";
@@ -0,0 +1,36 @@
+import type { TargetRetryOptions } from "@lage-run/target-graph";
+
+function getExitCode(error: unknown): number | undefined {
+  if (typeof error === "object" && error !== null && "exitCode" in error) {
+    const { exitCode } = error as { exitCode: unknown };
+    return typeof exitCode === "number" ? exitCode : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Determines whether a failed attempt should be retried according to the target's retry policy.
+ * @param retries the retry policy of the target
+ * @param attempts the number of attempts made so far
+ * @param error the error the last attempt failed with
+ */
+export function shouldRetry(retries: TargetRetryOptions | undefined, attempts: number, error: unknown) {
+  if (!retries || attempts > retries.count) {
+    return false;
+  }
+
+  if (retries.exitCodes && retries.exitCodes.length > 0) {
+    const exitCode = getExitCode(error);
+    return exitCode !== undefined && retries.exitCodes.includes(exitCode);
+  }
+
+  return true;
+}
+
+/**
+ * Exponential backoff: the delay before retry N is `backoff * 2^(N-1)` milliseconds.
+ */
+export function getRetryDelay(retries: TargetRetryOptions, attempts: number) {
+  return (retries.backoff ?? 0) * Math.pow(2, attempts - 1);
+}
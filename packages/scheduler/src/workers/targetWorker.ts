@@ -7,6 +7,7 @@ import createLogger from "@lage-run/logger";
 import type { CacheOptions } from "@lage-run/config";
 import type { Target } from "@lage-run/target-graph";
 import type { TargetRunnerPickerOptions } from "@lage-run/runners";
+import type { TargetCacheStats, TargetCacheTransfer, TargetRunTimings } from "@lage-run/scheduler-types";
 
 interface TargetWorkerDataOptions {
   runners: TargetRunnerPickerOptions;
@@ -51,15 +52,30 @@ async function setup(options: TargetWorkerDataOptions) {
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   let hashPromiseResolve = (_hash: string) => {};
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  let hashPromiseReject = (_error: Error) => {};
 
   // main thread sends hash to worker because it keeps a global memory cache of the hashes
   parentPort!.on("message", (data: any) => {
     if (data.type === "hash") {
-      hashPromiseResolve(data.hash);
+      if (data.error) {
+        hashPromiseReject(new Error(`Unable to hash the target: ${data.error}`));
+      } else {
+        hashPromiseResolve(data.hash);
+      }
     }
   });
 
-  async function getCache(target: Target) {
+  async function timed<T>(timings: TargetRunTimings, phase: keyof TargetRunTimings, fn: () => Promise<T>): Promise<T> {
+    const startTime = process.hrtime();
+    try {
+      return await fn();
+    } finally {
+      timings[phase] = { startTime, duration: process.hrtime(startTime) };
+    }
+  }
+
+  async function getCache(target: Target, timings: TargetRunTimings, cache: TargetCacheStats) {
     const { shouldCache, shouldResetCache } = options;
     let hash: string | undefined = undefined;
     let cacheHit = false;
@@ -69,27 +85,47 @@ async function setup(options: TargetWorkerDataOptions) {
     }
 
     // using a special pattern in communicating with the main thread to get the hash for the target
-    hash = await new Promise((resolve) => {
-      hashPromiseResolve = resolve;
-      parentPort!.postMessage({ type: "hash" });
-    });
+    hash = await timed(
+      timings,
+      "hash",
+      () =>
+        new Promise<string>((resolve, reject) => {
+          hashPromiseResolve = resolve;
+          hashPromiseReject = reject;
+          parentPort!.postMessage({ type: "hash" });
+        })
+    );
 
     if (hash && !shouldResetCache) {
-      cacheHit = await cacheProvider.fetch(hash, target);
+      const targetHash = hash;
+      const fetchStats: TargetCacheTransfer = {};
+      cacheHit = await timed(timings, "cacheFetch", () => cacheProvider.fetch(targetHash, target, fetchStats));
+
+      if (cacheHit) {
+        cache.fetch = fetchStats;
+      }
     }
 
     return { hash, cacheHit };
   }
 
-  async function saveCache(target: Target, hash: string | undefined) {
+  async function saveCache(target: Target, hash: string | undefined, timings: TargetRunTimings, cache: TargetCacheStats) {
     if (!hash || !cacheProvider) {
       return;
     }
-    await cacheProvider.put(hash, target);
+
+    const putStats: TargetCacheTransfer = {};
+    await timed(timings, "cachePut", () => cacheProvider.put(hash, target, putStats));
+
+    if (putStats.tier) {
+      cache.put = putStats;
+    }
   }
 
   async function run(data: any, abortSignal?: AbortSignal) {
-    const { hash, cacheHit } = await getCache(data.target);
+    const timings: TargetRunTimings = {};
+    const cache: TargetCacheStats = {};
+    const { hash, cacheHit } = await getCache(data.target, timings, cache);
 
     const cacheEnabled = data.target.cache && options.shouldCache && hash;
 
@@ -101,7 +137,7 @@ async function setup(options: TargetWorkerDataOptions) {
         abortSignal,
       });
 
-      await saveCache(data.target, hash);
+      await saveCache(data.target, hash, timings, cache);
     }
 
     return {
@@ -109,6 +145,8 @@ async function setup(options: TargetWorkerDataOptions) {
       id: data.target.id,
       hash,
       value,
+      timings,
+      cache,
     };
   }
 
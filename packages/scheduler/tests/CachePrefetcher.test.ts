@@ -0,0 +1,103 @@
+import { Logger } from "@lage-run/logger";
+import { getStartTargetId, Target } from "@lage-run/target-graph";
+import { CachePrefetcher } from "../src/CachePrefetcher";
+
+function createTarget(id: string, dependencies: string[] = [getStartTargetId()]): Target {
+  return { id, label: id, task: "build", cwd: `packages/${id}`, dependencies, dependents: [], depSpecs: [], cache: true };
+}
+
+function createHasher() {
+  const hashed: string[] = [];
+  return {
+    hashed,
+    hasher: {
+      async computeHash(target: Target) {
+        hashed.push(target.id);
+        return { hash: `hash-${target.id}` };
+      },
+    } as any,
+  };
+}
+
+/** a cache provider whose downloads only finish when the test says so */
+function createCacheProvider(misses: string[] = []) {
+  const downloads = new Map<string, () => void>();
+  let active = 0;
+  let maxActive = 0;
+
+  const cacheProvider = {
+    prefetch: jest.fn(
+      (hash: string) =>
+        new Promise<boolean>((resolve) => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          downloads.set(hash, () => {
+            active--;
+            resolve(!misses.includes(hash));
+          });
+        })
+    ),
+  } as any;
+
+  return { cacheProvider, downloads, getMaxActive: () => maxActive };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("CachePrefetcher", () => {
+  it("hashes the targets after their dependencies and downloads a bounded number of entries at once", async () => {
+    const { hasher, hashed } = createHasher();
+    const { cacheProvider, downloads, getMaxActive } = createCacheProvider(["hash-d"]);
+
+    const prefetcher = new CachePrefetcher({ cacheProvider, hasher, logger: new Logger(), concurrency: 2 });
+
+    prefetcher.start([
+      createTarget("c", ["a", "b"]),
+      createTarget("a"),
+      createTarget("b", ["a"]),
+      createTarget("d", ["c"]),
+      { ...createTarget("e"), cache: false },
+    ]);
+
+    await flush();
+    expect(hashed).toEqual(["a", "b", "c", "d"]);
+    expect([...downloads.keys()]).toEqual(["hash-a", "hash-b"]);
+
+    for (const hash of ["hash-a", "hash-b", "hash-c", "hash-d"]) {
+      downloads.get(hash)!();
+      await flush();
+    }
+
+    await prefetcher.stop();
+
+    expect(getMaxActive()).toBe(2);
+    expect(cacheProvider.prefetch).toHaveBeenCalledTimes(4);
+    expect(prefetcher.isPrefetched("hash-a")).toBeTruthy();
+    expect(prefetcher.isPrefetched("hash-d")).toBeFalsy();
+  });
+
+  it("makes targets wait for the download of their entry, and drops the downloads that have not started", async () => {
+    const { hasher } = createHasher();
+    const { cacheProvider, downloads } = createCacheProvider();
+
+    const prefetcher = new CachePrefetcher({ cacheProvider, hasher, logger: new Logger(), concurrency: 1 });
+    prefetcher.start([createTarget("a"), createTarget("b")]);
+    await flush();
+
+    let claimed = false;
+    const claim = prefetcher.claim("hash-a").then(() => (claimed = true));
+
+    // b is queued behind a, so it is left to its target
+    await prefetcher.claim("hash-b");
+
+    await flush();
+    expect(claimed).toBeFalsy();
+
+    downloads.get("hash-a")!();
+    await claim;
+    expect(prefetcher.isPrefetched("hash-a")).toBeTruthy();
+
+    await prefetcher.stop();
+    expect(cacheProvider.prefetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,124 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Target } from "@lage-run/target-graph";
+import { CommandRunner } from "@lage-run/runners";
+
+function createTarget(cwd: string, options: Record<string, any>): Target {
+  return {
+    cwd,
+    dependencies: [],
+    dependents: [],
+    depSpecs: [],
+    label: "",
+    id: "a#format",
+    task: "format",
+    packageName: "a",
+    type: "command",
+    options,
+  };
+}
+
+describe("CommandRunner", () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), "command-runner"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  function writeEnvScript() {
+    return `require("fs").writeFileSync("out.json", JSON.stringify({ args: process.argv.slice(1), env: process.env }))`;
+  }
+
+  function readOutput() {
+    return JSON.parse(fs.readFileSync(path.join(cwd, "out.json"), "utf-8"));
+  }
+
+  it("only runs targets with a command", async () => {
+    const runner = new CommandRunner({ taskArgs: [] });
+
+    expect(await runner.shouldRun(createTarget(cwd, { command: ["node", "--version"] }))).toBe(true);
+    expect(await runner.shouldRun(createTarget(cwd, {}))).toBe(false);
+  });
+
+  it("runs an argv command in the target cwd, with the task args, env and LAGE_* variables", async () => {
+    const runner = new CommandRunner({ taskArgs: ["--fix"] });
+    const target = createTarget(cwd, {
+      command: [process.execPath, "-e", writeEnvScript(), "--"],
+      taskArgs: ["--cache"],
+      env: { MY_VAR: "my value" },
+    });
+
+    await runner.run({ target, weight: 2 });
+
+    const { args, env } = readOutput();
+    expect(args).toEqual(["--fix", "--cache"]);
+    expect(env).toEqual(expect.objectContaining({ MY_VAR: "my value", LAGE_PACKAGE_NAME: "a", LAGE_TASK: "format", LAGE_WEIGHT: "2" }));
+  });
+
+  it("only passes the declared environment variables in strict env mode", async () => {
+    process.env.LAGE_TEST_DECLARED = "declared";
+    process.env.LAGE_TEST_PUBLIC_URL = "url";
+    process.env.LAGE_TEST_TOKEN = "token";
+    process.env.LAGE_TEST_UNDECLARED = "undeclared";
+
+    const runner = new CommandRunner({ taskArgs: [], strictEnv: true, env: ["LAGE_TEST_DECLARED"], passThroughEnv: ["LAGE_TEST_TOKEN"] });
+    const target = createTarget(cwd, { command: [process.execPath, "-e", writeEnvScript()], env: { MY_VAR: "my value" } });
+    target.env = ["LAGE_TEST_PUBLIC_*"];
+
+    try {
+      await runner.run({ target, weight: 1 });
+    } finally {
+      delete process.env.LAGE_TEST_DECLARED;
+      delete process.env.LAGE_TEST_PUBLIC_URL;
+      delete process.env.LAGE_TEST_TOKEN;
+      delete process.env.LAGE_TEST_UNDECLARED;
+    }
+
+    const { env } = readOutput();
+    expect(env).toEqual(
+      expect.objectContaining({
+        PATH: process.env.PATH,
+        LAGE_TEST_DECLARED: "declared",
+        LAGE_TEST_PUBLIC_URL: "url",
+        LAGE_TEST_TOKEN: "token",
+        MY_VAR: "my value",
+        LAGE_PACKAGE_NAME: "a",
+      })
+    );
+    expect(env.LAGE_TEST_UNDECLARED).toBeUndefined();
+  });
+
+  it("runs a string command in a shell", async () => {
+    const runner = new CommandRunner({ taskArgs: [] });
+    const target = createTarget(cwd, { command: `echo shell > first.txt && echo again > second.txt` });
+
+    await runner.run({ target, weight: 1 });
+
+    expect(fs.readFileSync(path.join(cwd, "first.txt"), "utf-8").trim()).toBe("shell");
+    expect(fs.readFileSync(path.join(cwd, "second.txt"), "utf-8").trim()).toBe("again");
+  });
+
+  it("rejects with the exit code of a failing command", async () => {
+    const runner = new CommandRunner({ taskArgs: [] });
+    const target = createTarget(cwd, { command: [process.execPath, "-e", "process.exit(3)"] });
+
+    await expect(runner.run({ target, weight: 1 })).rejects.toEqual(expect.objectContaining({ exitCode: 3 }));
+  });
+
+  it("kills the command on abort", async () => {
+    const abortController = new AbortController();
+    const runner = new CommandRunner({ taskArgs: [] });
+    const target = createTarget(cwd, { command: [process.execPath, "-e", "setTimeout(() => {}, 50000)"] });
+
+    const runPromise = runner.run({ target, weight: 1, abortSignal: abortController.signal });
+
+    setTimeout(() => abortController.abort(), 200);
+
+    await expect(runPromise).rejects.toEqual(expect.objectContaining({ error: expect.any(Error) }));
+  });
+});
@@ -0,0 +1,114 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { SchedulerRunSummary, TargetRun, TargetStatus } from "@lage-run/scheduler-types";
+import { getStartTargetId, type Target } from "@lage-run/target-graph";
+import { RunHistory } from "../src/RunHistory";
+
+function createTargetRun(id: string, status: TargetStatus, seconds: number, overrides: Partial<Target> = {}): TargetRun {
+  const [packageName, task] = id.split("#");
+  return {
+    target: {
+      id,
+      cwd: "",
+      label: id,
+      packageName,
+      task,
+      dependencies: [],
+      dependents: [],
+      depSpecs: [],
+      ...overrides,
+    },
+    status,
+    duration: [seconds, 500_000_000],
+    queueTime: [0, 0],
+    startTime: [0, 0],
+    threadId: 0,
+  } as TargetRun;
+}
+
+function createSummary(targetRuns: TargetRun[]): SchedulerRunSummary {
+  return {
+    targetRunByStatus: {} as SchedulerRunSummary["targetRunByStatus"],
+    targetRuns: new Map(targetRuns.map((targetRun) => [targetRun.target.id, targetRun])),
+    startTime: [0, 0],
+    duration: [10, 0],
+    results: "success",
+    workerRestarts: 2,
+    maxWorkerMemoryUsage: 1024,
+  };
+}
+
+describe("RunHistory", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "run-history"));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("records the durations and statuses of the visible targets of a run", () => {
+    const history = new RunHistory({ root });
+
+    const entry = history.record(
+      createSummary([
+        createTargetRun(getStartTargetId(), "success", 0),
+        createTargetRun("a#build", "success", 3),
+        createTargetRun("b#build", "skipped", 0),
+        createTargetRun("b#hidden", "success", 1, { hidden: true }),
+      ]),
+      ["build"]
+    );
+
+    expect(fs.existsSync(path.join(root, "node_modules/.cache/lage/history", `${entry.id}.json`))).toBe(true);
+    expect(history.list()).toEqual([entry.id]);
+    expect(history.read(entry.id)).toEqual(
+      expect.objectContaining({
+        command: ["build"],
+        results: "success",
+        duration: 10_000,
+        workerRestarts: 2,
+        targets: {
+          "a#build": { status: "success", duration: 3500, attempts: 1 },
+          "b#build": { status: "skipped", duration: 500, attempts: 1 },
+        },
+      })
+    );
+  });
+
+  it("lists the most recent runs first and only keeps the last maxEntries runs", () => {
+    const history = new RunHistory({ root, maxEntries: 2 });
+    const now = jest.spyOn(Date, "now");
+
+    const ids = [1, 2, 3].map((day) => {
+      now.mockReturnValue(Date.UTC(2024, 0, day));
+      return history.record(createSummary([createTargetRun("a#build", "success", day)]), ["build"]).id;
+    });
+
+    expect(history.list()).toEqual([ids[2], ids[1]]);
+    expect(history.read(ids[0])).toBeUndefined();
+  });
+
+  it("averages the durations of the targets that ran successfully in the recent runs", () => {
+    const history = new RunHistory({ root });
+    const now = jest.spyOn(Date, "now");
+
+    const runs = [
+      [createTargetRun("a#build", "success", 1), createTargetRun("b#build", "skipped", 0)],
+      [createTargetRun("a#build", "success", 3), createTargetRun("b#build", "failed", 10)],
+      [createTargetRun("a#build", "success", 100)],
+    ];
+
+    for (const [day, targetRuns] of runs.entries()) {
+      now.mockReturnValue(Date.UTC(2024, 0, day + 1));
+      history.record(createSummary(targetRuns), ["build"]);
+    }
+
+    expect(history.getTargetDurations(2)).toEqual(new Map([["a#build", 52_000]]));
+    expect(history.getTargetDurations().get("a#build")).toBeCloseTo(35_166.67);
+  });
+});
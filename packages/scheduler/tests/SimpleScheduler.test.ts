@@ -251,6 +251,19 @@ describe("SimpleScheduler", () => {
 
     expect(dropTiming(summary)).toMatchInlineSnapshot(`
       {
+        "cacheStats": {
+          "fetchTime": 0,
+          "hashTime": 0,
+          "hits": 0,
+          "localHits": 0,
+          "lookups": 0,
+          "putTime": 0,
+          "remoteBytesFetched": 0,
+          "remoteBytesPut": 0,
+          "remoteHits": 0,
+          "timeSaved": 0,
+          "timeSavedHits": 0,
+        },
         "error": undefined,
         "maxWorkerMemoryUsage": 0,
         "results": "failed",
@@ -273,6 +286,7 @@ describe("SimpleScheduler", () => {
           "success": [
             "__start",
           ],
+          "timedOut": [],
         },
         "targetRuns": Map {
           "__start" => {
@@ -1,7 +1,10 @@
 import { Target } from "@lage-run/target-graph";
 import { WrappedTarget } from "../src/WrappedTarget";
+import { CachePrefetcher } from "../src/CachePrefetcher";
 
 import path from "path";
+import { EventEmitter } from "events";
+import { PassThrough } from "stream";
 import { CacheProvider, TargetHasher } from "@lage-run/cache";
 import { Logger } from "@lage-run/logger";
 import { TargetRunner } from "@lage-run/scheduler-types";
@@ -36,6 +39,63 @@ class InProcPool implements Pool {
   }
 }
 
+/**
+ * Like InProcPool, but also calls the setup and cleanup callbacks with a fake worker, like a real pool does
+ */
+class WorkerLikeInProcPool implements Pool {
+  constructor(private runner: TargetRunner) {}
+  async exec({ target }: { target: Target; weight: number }, weight, setup, cleanup, abortSignal?: AbortSignal) {
+    const worker = Object.assign(new EventEmitter(), { threadId: 1, postMessage() {} });
+    setup?.(worker, new PassThrough(), new PassThrough());
+    try {
+      return await this.runner.run({ target, weight, abortSignal });
+    } finally {
+      cleanup?.(worker);
+    }
+  }
+  stats() {
+    return {
+      workerRestarts: 0,
+      maxWorkerMemoryUsage: 0,
+    };
+  }
+  close() {
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Like WorkerLikeInProcPool, but the fake worker asks for the hash of the target before running it, like the target worker does
+ */
+class HashingInProcPool implements Pool {
+  constructor(private runner: TargetRunner) {}
+  async exec({ target }: { target: Target; weight: number }, weight, setup, cleanup, abortSignal?: AbortSignal) {
+    let onHash: (data: { hash?: string; error?: string }) => void = () => {};
+    const hashReceived = new Promise<{ hash?: string; error?: string }>((resolve) => (onHash = resolve));
+    const worker = Object.assign(new EventEmitter(), { threadId: 1, postMessage: (data) => onHash(data) });
+    setup?.(worker, new PassThrough(), new PassThrough());
+    try {
+      worker.emit("message", { type: "hash" });
+      const { error } = await hashReceived;
+      if (error) {
+        throw new Error(error);
+      }
+      return await this.runner.run({ target, weight, abortSignal });
+    } finally {
+      cleanup?.(worker);
+    }
+  }
+  stats() {
+    return {
+      workerRestarts: 0,
+      maxWorkerMemoryUsage: 0,
+    };
+  }
+  close() {
+    return Promise.resolve();
+  }
+}
+
 class SkippyInProcPool implements Pool {
   constructor(private runner: TargetRunner) {}
   exec({ target }: { target: Target; weight: number }, weight, _setup, _teardown, abortSignal?: AbortSignal): Promise<any> {
@@ -244,4 +304,192 @@ describe("WrappedTarget", () => {
 
     expect(wrappedTarget.status).toBe("skipped");
   });
+  it("should retry a failed target according to its retry policy", async () => {
+    const logger = new Logger();
+
+    let runs = 0;
+    const runner = {
+      async shouldRun() {
+        return true;
+      },
+      async run() {
+        runs++;
+        if (runs < 3) {
+          throw { exitCode: 1, error: new Error("flaky") };
+        }
+      },
+    } as TargetRunner;
+
+    const wrappedTarget = new WrappedTarget({
+      abortController: new AbortController(),
+      continueOnError: false,
+      logger,
+      root: process.cwd(),
+      shouldCache: true,
+      target: { ...createTarget("a"), retries: { count: 2 } },
+      pool: new InProcPool(runner),
+    });
+
+    await wrappedTarget.run();
+
+    expect(runs).toBe(3);
+    expect(wrappedTarget.attempts).toBe(3);
+    expect(wrappedTarget.status).toBe("success");
+  });
+
+  it("should mark the target as failed once retries are exhausted", async () => {
+    const logger = new Logger();
+
+    let runs = 0;
+    const runner = {
+      async shouldRun() {
+        return true;
+      },
+      async run() {
+        runs++;
+        throw { exitCode: 1, error: new Error("always fails") };
+      },
+    } as TargetRunner;
+
+    const wrappedTarget = new WrappedTarget({
+      abortController: new AbortController(),
+      continueOnError: true,
+      logger,
+      root: process.cwd(),
+      shouldCache: true,
+      target: { ...createTarget("a"), retries: { count: 1 } },
+      pool: new InProcPool(runner),
+    });
+
+    await expect(wrappedTarget.run()).rejects.toMatchObject({ exitCode: 1 });
+
+    expect(runs).toBe(2);
+    expect(wrappedTarget.attempts).toBe(2);
+    expect(wrappedTarget.status).toBe("failed");
+  });
+
+  it("should only retry on the exit codes listed in the retry policy", async () => {
+    const logger = new Logger();
+
+    let runs = 0;
+    const runner = {
+      async shouldRun() {
+        return true;
+      },
+      async run() {
+        runs++;
+        throw { exitCode: 2, error: new Error("not flaky") };
+      },
+    } as TargetRunner;
+
+    const wrappedTarget = new WrappedTarget({
+      abortController: new AbortController(),
+      continueOnError: true,
+      logger,
+      root: process.cwd(),
+      shouldCache: true,
+      target: { ...createTarget("a"), retries: { count: 3, exitCodes: [1] } },
+      pool: new InProcPool(runner),
+    });
+
+    await expect(wrappedTarget.run()).rejects.toMatchObject({ exitCode: 2 });
+
+    expect(runs).toBe(1);
+    expect(wrappedTarget.status).toBe("failed");
+  });
+
+  it("should abort and mark a target as timed out when it runs longer than its timeout", async () => {
+    const logger = new Logger();
+    const abortController = new AbortController();
+
+    const runner = {
+      async shouldRun() {
+        return true;
+      },
+      run({ abortSignal }) {
+        return new Promise((_resolve, reject) => {
+          abortSignal!.addEventListener("abort", () => reject({ exitCode: null, error: new Error("killed") }));
+        });
+      },
+    } as TargetRunner;
+
+    const wrappedTarget = new WrappedTarget({
+      abortController,
+      continueOnError: true,
+      logger,
+      root: process.cwd(),
+      shouldCache: true,
+      target: { ...createTarget("a"), timeout: 50 },
+      pool: new WorkerLikeInProcPool(runner),
+    });
+
+    await expect(wrappedTarget.run()).rejects.toMatchObject({ exitCode: null });
+
+    expect(wrappedTarget.timedOut).toBeTruthy();
+    expect(wrappedTarget.status).toBe("timedOut");
+    expect(abortController.signal.aborted).toBeFalsy();
+  });
+
+  it("should apply the default target timeout and abort the run when not continuing on error", async () => {
+    const logger = new Logger();
+    const abortController = new AbortController();
+
+    const runner = {
+      async shouldRun() {
+        return true;
+      },
+      run({ abortSignal }) {
+        return new Promise((_resolve, reject) => {
+          abortSignal!.addEventListener("abort", () => reject({ exitCode: null, error: new Error("killed") }));
+        });
+      },
+    } as TargetRunner;
+
+    const wrappedTarget = new WrappedTarget({
+      abortController,
+      continueOnError: false,
+      logger,
+      root: process.cwd(),
+      shouldCache: true,
+      target: createTarget("a"),
+      pool: new WorkerLikeInProcPool(runner),
+      targetTimeout: 50,
+    });
+
+    await expect(wrappedTarget.run()).rejects.toMatchObject({ exitCode: null });
+
+    expect(wrappedTarget.status).toBe("timedOut");
+    expect(abortController.signal.aborted).toBeTruthy();
+  });
+
+  it("should fail the target when the entry of its hash cannot be claimed from the prefetcher", async () => {
+    const logger = new Logger();
+    let runs = 0;
+
+    const runner = {
+      async shouldRun() {
+        return true;
+      },
+      async run() {
+        runs++;
+      },
+    } as TargetRunner;
+
+    const wrappedTarget = new WrappedTarget({
+      abortController: new AbortController(),
+      continueOnError: true,
+      logger,
+      root: process.cwd(),
+      shouldCache: true,
+      target: createTarget("a"),
+      pool: new HashingInProcPool(runner),
+      hasher: { hash: async () => "some-hash" } as unknown as TargetHasher,
+      prefetcher: { claim: () => Promise.reject(new Error("claim failed")) } as unknown as CachePrefetcher,
+    });
+
+    await expect(wrappedTarget.run()).rejects.toThrow("claim failed");
+
+    expect(runs).toBe(0);
+    expect(wrappedTarget.status).toBe("failed");
+  });
 });
@@ -0,0 +1,60 @@
+import type { TargetRun, TargetStatus } from "@lage-run/scheduler-types";
+import { getStartTargetId } from "@lage-run/target-graph";
+import { getCacheRunStats } from "../src/getCacheRunStats";
+import type { WorkerResult } from "../src/WrappedTarget";
+
+function createTargetRun(id: string, status: TargetStatus, seconds: number, result?: Partial<WorkerResult>): TargetRun<WorkerResult> {
+  const [packageName, task] = id.split("#");
+  return {
+    target: { id, cwd: "", label: id, packageName, task, dependencies: [], dependents: [], depSpecs: [] },
+    status,
+    duration: [seconds, 0],
+    queueTime: [0, 0],
+    startTime: [0, 0],
+    threadId: 0,
+    result: result && ({ skipped: status === "skipped", ...result } as WorkerResult),
+  };
+}
+
+const timings = {
+  hash: { startTime: [0, 0] as [number, number], duration: [0, 100_000_000] as [number, number] },
+  cacheFetch: { startTime: [0, 0] as [number, number], duration: [0, 200_000_000] as [number, number] },
+};
+
+describe("getCacheRunStats", () => {
+  it("sums up the hits, the time spent on the cache and the remote cache bandwidth", () => {
+    const stats = getCacheRunStats(
+      [
+        createTargetRun(getStartTargetId(), "success", 0, { timings }),
+        createTargetRun("a#build", "skipped", 1, { timings, cache: { fetch: { tier: "local", bytes: 1000 } } }),
+        createTargetRun("b#build", "skipped", 2, { timings, cache: { fetch: { tier: "remote", bytes: 2000 } } }),
+        createTargetRun("c#build", "success", 5, {
+          timings: { ...timings, cachePut: { startTime: [0, 0], duration: [0, 300_000_000] } },
+          cache: { put: { tier: "remote", bytes: 500 } },
+        }),
+        // not cached, so never looked up
+        createTargetRun("c#test", "success", 5, {}),
+        createTargetRun("d#build", "failed", 1),
+      ],
+      new Map([
+        ["a#build", 10_000],
+        ["c#build", 5_000],
+      ])
+    );
+
+    expect(stats).toEqual({
+      lookups: 3,
+      hits: 2,
+      localHits: 1,
+      remoteHits: 1,
+      hashTime: 300,
+      fetchTime: 600,
+      putTime: 300,
+      // only a#build ran before: 10s then, 1s for the hit now
+      timeSaved: 9_000,
+      timeSavedHits: 1,
+      remoteBytesFetched: 2000,
+      remoteBytesPut: 500,
+    });
+  });
+});
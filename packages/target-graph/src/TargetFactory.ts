@@ -44,7 +44,21 @@ export class TargetFactory {
    */
   createPackageTarget(packageName: string, task: string, config: TargetConfig): Target {
     const { resolve } = this.options;
-    const { options, deps, dependsOn, cache, inputs, priority, maxWorkers, environmentGlob, weight } = config;
+    const {
+      options,
+      deps,
+      dependsOn,
+      cache,
+      inputs,
+      priority,
+      maxWorkers,
+      environmentGlob,
+      env,
+      passThroughEnv,
+      weight,
+      retries,
+      timeout,
+    } = config;
     const cwd = resolve(packageName);
 
     const targetType = this.getTargetType(task, config);
@@ -65,9 +79,13 @@ export class TargetFactory {
       priority,
       maxWorkers,
       environmentGlob,
+      env,
+      passThroughEnv,
       weight: 1,
       options,
       shouldRun: true,
+      retries,
+      timeout,
     };
 
     target.weight = getWeight(target, weight, maxWorkers);
@@ -77,7 +95,22 @@ export class TargetFactory {
 
   createGlobalTarget(id: string, config: TargetConfig): Target {
     const { root } = this.options;
-    const { options, deps, dependsOn, cache, inputs, outputs, priority, maxWorkers, environmentGlob, weight } = config;
+    const {
+      options,
+      deps,
+      dependsOn,
+      cache,
+      inputs,
+      outputs,
+      priority,
+      maxWorkers,
+      environmentGlob,
+      env,
+      passThroughEnv,
+      weight,
+      retries,
+      timeout,
+    } = config;
     const { task } = getPackageAndTask(id);
     const target = {
       id,
@@ -94,9 +127,13 @@ export class TargetFactory {
       priority,
       maxWorkers,
       environmentGlob,
+      env,
+      passThroughEnv,
       weight: 1,
       options,
       shouldRun: true,
+      retries,
+      timeout,
     };
 
     target.weight = getWeight(target, weight, maxWorkers);
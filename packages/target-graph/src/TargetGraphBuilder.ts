@@ -88,8 +88,10 @@ export class TargetGraphBuilder {
 
   /**
    * Builds a target graph for given tasks and packages
+   *
+   * @param weights optional weights for targets, accumulated along the critical path to order targets of equal priority (see `prioritize()`)
    */
-  build() {
+  build(weights?: Map<string, number>) {
     // Ensure we do not have cycles in the subgraph
     const cycleInfo = detectCycles(this.targets);
     if (cycleInfo.hasCycle) {
@@ -97,14 +99,14 @@ export class TargetGraphBuilder {
     }
 
     // The full graph might produce a different aggregated priority value for a target
-    prioritize(this.targets);
+    prioritize(this.targets, weights);
 
     return {
       targets: this.targets,
     };
   }
 
-  subgraph(entriesTargetIds: string[]) {
+  subgraph(entriesTargetIds: string[], weights?: Map<string, number>) {
     const subgraphBuilder = new TargetGraphBuilder();
     const visited: Set<string> = new Set();
     const queue: string[] = [];
@@ -146,6 +148,6 @@ export class TargetGraphBuilder {
       }
     }
 
-    return subgraphBuilder.build();
+    return subgraphBuilder.build(weights);
   }
 }
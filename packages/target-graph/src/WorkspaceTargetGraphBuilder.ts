@@ -16,6 +16,31 @@ import pLimit from "p-limit";
 const { mergician } = require("mergician");
 
 const DEFAULT_STAGED_TARGET_THRESHOLD = 50;
+
+/**
+ * A pipeline entry that contributed to the final config of a target
+ */
+export interface TargetConfigSource {
+  /** id of the pipeline entry (e.g. "build", "pkg-a#build" or "#build") */
+  id: string;
+
+  /** where the entry was defined (e.g. the path of a package.json), if not in the lage config */
+  source?: string;
+
+  /** the options set by the entry */
+  keys: (keyof TargetConfig)[];
+}
+
+/**
+ * The priority of a target before it is accumulated along the critical path
+ */
+export interface TargetPriority {
+  priority: number;
+
+  /** whether the priority comes from the target config ("pipeline") or from the `priorities` config */
+  from: "pipeline" | "priorities";
+}
+
 /**
  * TargetGraphBuilder class provides a builder API for registering target configs. It exposes a method called `generateTargetGraph` to
  * generate a topological graph of targets (package + task) and their dependencies.
@@ -43,6 +68,10 @@ export class WorkspaceTargetGraphBuilder {
 
   private targetConfigMap = new Map<string, TargetConfig>();
 
+  private targetConfigSources = new Map<string, TargetConfigSource[]>();
+
+  private targetPriorities = new Map<string, TargetPriority>();
+
   /**
    * Initializes the builder with package infos
    * @param root the root directory of the workspace
@@ -73,11 +102,13 @@ export class WorkspaceTargetGraphBuilder {
    *
    * @param id
    * @param targetDefinition
+   * @param changedFiles
+   * @param source where the target config was defined (e.g. the path of a package.json), if not in the lage config
    */
-  async addTargetConfig(id: string, config: TargetConfig = {}, changedFiles?: string[]) {
+  async addTargetConfig(id: string, config: TargetConfig = {}, changedFiles?: string[], source?: string) {
     // Generates a target definition from the target config
     if (id.startsWith("//") || id.startsWith("#")) {
-      const targetConfig = this.determineFinalTargetConfig(id, config);
+      const targetConfig = this.determineFinalTargetConfig(id, config, { id, source });
       const target = this.targetFactory.createGlobalTarget(id, targetConfig);
       this.graphBuilder.addTarget(target);
       this.hasRootTarget = true;
@@ -85,7 +116,7 @@ export class WorkspaceTargetGraphBuilder {
       this.processStagedConfig(target, config, changedFiles);
     } else if (id.includes("#")) {
       const { packageName, task } = getPackageAndTask(id);
-      const targetConfig = this.determineFinalTargetConfig(id, config);
+      const targetConfig = this.determineFinalTargetConfig(id, config, { id, source });
       const target = this.targetFactory.createPackageTarget(packageName!, task, targetConfig);
       this.graphBuilder.addTarget(target);
 
@@ -94,7 +125,7 @@ export class WorkspaceTargetGraphBuilder {
       const packages = Object.keys(this.packageInfos);
       for (const packageName of packages) {
         const task = id;
-        const targetConfig = this.determineFinalTargetConfig(getTargetId(packageName, task), config);
+        const targetConfig = this.determineFinalTargetConfig(getTargetId(packageName, task), config, { id, source });
         const target = this.targetFactory.createPackageTarget(packageName!, task, targetConfig);
         this.graphBuilder.addTarget(target);
 
@@ -114,19 +145,51 @@ export class WorkspaceTargetGraphBuilder {
    * Merges
    * @param id The Id of the target to merge
    * @param config The TargetConfig settings that will be merged if this target has already been seen before
+   * @param entry The pipeline entry the config comes from, recorded as a source of the final config
    * @returns The merged TargetConfig object.
    */
-  determineFinalTargetConfig(targetId: string, config: TargetConfig): TargetConfig {
+  determineFinalTargetConfig(targetId: string, config: TargetConfig, entry?: Omit<TargetConfigSource, "keys">): TargetConfig {
     let finalConfig = config;
+    let sources: TargetConfigSource[] = [];
+
     if (this.enableTargetConfigMerging && this.targetConfigMap.has(targetId)) {
       const existingConfig = this.targetConfigMap.get(targetId)!;
       finalConfig = this.deepCloneTargetConfig(existingConfig, config);
+      sources = this.targetConfigSources.get(targetId) ?? [];
     }
 
     this.targetConfigMap.set(targetId, finalConfig);
+
+    if (entry) {
+      const keys = Object.keys(config).filter((key) => config[key as keyof TargetConfig] !== undefined) as (keyof TargetConfig)[];
+      this.targetConfigSources.set(targetId, [...sources, { ...entry, keys }]);
+    }
+
     return finalConfig;
   }
 
+  /**
+   * Gets the final config of a target, after merging all the pipeline entries that apply to it
+   */
+  getTargetConfig(targetId: string): TargetConfig | undefined {
+    return this.targetConfigMap.get(targetId);
+  }
+
+  /**
+   * Gets the pipeline entries that contributed to the final config of a target, in the order they were applied
+   */
+  getTargetConfigSources(targetId: string): TargetConfigSource[] {
+    return this.targetConfigSources.get(targetId) ?? [];
+  }
+
+  /**
+   * Gets the priority of a target as set by its config and the `priorities` config, before it is accumulated along the critical path.
+   * Only known once the graph is built.
+   */
+  getTargetPriority(targetId: string): TargetPriority | undefined {
+    return this.targetPriorities.get(targetId);
+  }
+
   /**
    * Side effects function on the passed in target
    * @param parentTarget
@@ -196,8 +259,14 @@ export class WorkspaceTargetGraphBuilder {
    * @param tasks
    * @param scope
    * @param priorities the set of global priorities for the workspace.
+   * @param weights optional extra priority for targets, accumulated along the critical path (e.g. their historical durations)
    */
-  async build(tasks: string[], scope?: string[], priorities?: { package?: string; task: string; priority: number }[]) {
+  async build(
+    tasks: string[],
+    scope?: string[],
+    priorities?: { package?: string; task: string; priority: number }[],
+    weights?: Map<string, number>
+  ) {
     // Expands the dependency specs from the target definitions
     const fullDependencies = expandDepSpecs(this.graphBuilder.targets, this.dependencyMap);
 
@@ -234,6 +303,8 @@ export class WorkspaceTargetGraphBuilder {
     }
 
     // Add all the global priorities for individual targets
+    const globalPriorityTargets = new Set<string>();
+
     if (priorities) {
       for (const priorityConfig of priorities) {
         // Right now we are only handling global priorities where the package name is set
@@ -242,12 +313,26 @@ export class WorkspaceTargetGraphBuilder {
           const target = this.graphBuilder.targets.get(targetId);
           if (target) {
             target.priority = target.priority ? Math.max(target.priority, priorityConfig.priority) : priorityConfig.priority;
+
+            if (target.priority === priorityConfig.priority) {
+              globalPriorityTargets.add(targetId);
+            }
           }
         }
       }
     }
 
-    const subGraph = this.graphBuilder.subgraph(subGraphEntries);
+    // Record the priorities before they are accumulated along the critical path
+    for (const target of this.graphBuilder.targets.values()) {
+      if (target.priority !== undefined) {
+        this.targetPriorities.set(target.id, {
+          priority: target.priority,
+          from: globalPriorityTargets.has(target.id) ? "priorities" : "pipeline",
+        });
+      }
+    }
+
+    const subGraph = this.graphBuilder.subgraph(subGraphEntries, weights);
 
     const limit = pLimit(8);
     const setShouldRunPromises: Promise<void>[] = [];
@@ -0,0 +1,46 @@
+import { sortTargetsByPriority } from "./sortTargetsByPriority.js";
+import { getStartTargetId } from "./targetId.js";
+import type { Target } from "./types/Target.js";
+
+export interface ExecutionOrderOptions {
+  /** what to do when the remaining targets depend on each other: throw, or stop and return the levels ordered so far */
+  onCycle?: "throw" | "stop";
+}
+
+/**
+ * Orders the targets the same way the scheduler would pick them with unlimited workers: a target becomes ready once all of its
+ * dependencies are done, and ready targets are picked by priority. Dependencies that are not among the targets are ignored.
+ *
+ * @returns the targets by level - targets of the same level only depend on targets of the previous levels
+ */
+export function getExecutionOrder(targets: Target[], options: ExecutionOrderOptions = {}): Target[][] {
+  const { onCycle = "throw" } = options;
+
+  const ids = new Set(targets.map((target) => target.id));
+  const done = new Set<string>([getStartTargetId()]);
+  let remaining = targets.filter((target) => target.id !== getStartTargetId());
+
+  const levels: Target[][] = [];
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter((target) => target.dependencies.every((dependency) => done.has(dependency) || !ids.has(dependency)));
+
+    if (ready.length === 0) {
+      if (onCycle === "stop") {
+        break;
+      }
+
+      throw new Error(`Unable to order targets, there is a cycle among: ${remaining.map((target) => target.id).join(", ")}`);
+    }
+
+    levels.push(sortTargetsByPriority(ready));
+
+    for (const target of ready) {
+      done.add(target.id);
+    }
+
+    remaining = remaining.filter((target) => !done.has(target.id));
+  }
+
+  return levels;
+}
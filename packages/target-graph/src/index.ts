@@ -1,11 +1,15 @@
 export type { Target } from "./types/Target.js";
 export type { TargetGraph } from "./types/TargetGraph.js";
-export type { TargetConfig } from "./types/TargetConfig.js";
+export type { TargetConfig, TargetRetryOptions } from "./types/TargetConfig.js";
 
 export { sortTargetsByPriority } from "./sortTargetsByPriority.js";
+export { getExecutionOrder } from "./getExecutionOrder.js";
+export type { ExecutionOrderOptions } from "./getExecutionOrder.js";
 export { getTargetId, getStartTargetId, getPackageAndTask } from "./targetId.js";
 export { detectCycles } from "./detectCycles.js";
+export { matchEnvVariables } from "./matchEnvVariables.js";
 export { WorkspaceTargetGraphBuilder } from "./WorkspaceTargetGraphBuilder.js";
+export type { TargetConfigSource, TargetPriority } from "./WorkspaceTargetGraphBuilder.js";
 export { TargetGraphBuilder } from "./TargetGraphBuilder.js";
 export { TargetFactory } from "./TargetFactory.js";
 
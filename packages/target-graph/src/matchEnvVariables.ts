@@ -0,0 +1,33 @@
+function toRegExp(pattern: string) {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+
+  // environment variable names are case-insensitive on Windows
+  return new RegExp(`^${source}$`, process.platform === "win32" ? "i" : "");
+}
+
+/**
+ * Picks the environment variables whose names match any of the given patterns. A pattern is either an exact name (e.g. `NODE_ENV`)
+ * or contains `*` wildcards (e.g. `NEXT_PUBLIC_*`).
+ *
+ * @returns the matching variables, sorted by name
+ */
+export function matchEnvVariables(patterns: string[], env: NodeJS.ProcessEnv = process.env): Record<string, string> {
+  if (patterns.length === 0) {
+    return {};
+  }
+
+  const regExps = patterns.map(toRegExp);
+  const matched: Record<string, string> = {};
+
+  for (const name of Object.keys(env).sort()) {
+    const value = env[name];
+    if (value !== undefined && regExps.some((regExp) => regExp.test(name))) {
+      matched[name] = value;
+    }
+  }
+
+  return matched;
+}
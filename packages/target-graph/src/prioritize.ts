@@ -49,11 +49,22 @@ function reverseTopoSort(targets: Map<string, Target>, nodesWithNoDependencies:
   return sortedList;
 }
 
+/**
+ * The accumulated weights are scaled into [0, WEIGHT_SCALE], which keeps them below the difference between two integer priorities
+ */
+const WEIGHT_SCALE = 0.5;
+
 /**
  * Priorities for a target is actually the MAX of all the priorities of the targets that depend on it plus the current priority.
+ *
+ * @param weights optional weights for targets (e.g. how long they are expected to take), which are accumulated along the critical path
+ * just like the priority, and then scaled to the largest of them. They only break the ties between targets of equal priority - so that
+ * among those, the targets at the start of the longest chains are scheduled first.
  */
-export function prioritize(targets: Map<string, Target>) {
+export function prioritize(targets: Map<string, Target>, weights?: Map<string, number>) {
   const nodeCumulativePriorities = new Map<string, number>();
+  const nodeCumulativeWeights = new Map<string, number>();
+  let maxCumulativeWeight = 0;
 
   const nodesWithNoDependencies = getNodesWithNoDependencies(targets);
   const reverseTopoSortedNodeIds = reverseTopoSort(targets, nodesWithNoDependencies);
@@ -85,6 +96,15 @@ export function prioritize(targets: Map<string, Target>) {
     const result = currentNodePriority + maxChildCumulativePriority;
 
     nodeCumulativePriorities.set(currentNodeId, result);
+
+    // The weights are accumulated along their own critical path, which may differ from the one of the priorities
+    if (weights) {
+      const maxChildCumulativeWeight = Math.max(...node.dependents.map((childId) => nodeCumulativeWeights.get(childId) ?? 0), 0);
+      const cumulativeWeight = (weights.get(currentNodeId) ?? 0) + maxChildCumulativeWeight;
+
+      nodeCumulativeWeights.set(currentNodeId, cumulativeWeight);
+      maxCumulativeWeight = Math.max(maxCumulativeWeight, cumulativeWeight);
+    }
   }
 
   // Set the priority of each node to the cumulative priority
@@ -94,6 +114,8 @@ export function prioritize(targets: Map<string, Target>) {
       throw new Error(`Expected to have already computed the cumulative priority for node ${target.id}`);
     }
 
-    target.priority = cumulativePriority;
+    const cumulativeWeight = nodeCumulativeWeights.get(target.id) ?? 0;
+    target.priority =
+      maxCumulativeWeight > 0 ? cumulativePriority + (cumulativeWeight / maxCumulativeWeight) * WEIGHT_SCALE : cumulativePriority;
   }
 }
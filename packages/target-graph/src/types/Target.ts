@@ -1,3 +1,5 @@
+import type { TargetRetryOptions } from "./TargetConfig.js";
+
 export interface Target {
   /**
    * Unique ID of the target (e.g. "pkg-a#build")
@@ -69,6 +71,16 @@ export interface Target {
    */
   environmentGlob?: string[];
 
+  /**
+   * Environment variables (or `*` wildcard patterns) whose values are part of the hash of the target
+   */
+  env?: string[];
+
+  /**
+   * Environment variables (or `*` wildcard patterns) passed through to the target in strict env mode, without being part of its hash
+   */
+  passThroughEnv?: string[];
+
   /**
    * How many workers to dedicate to this task type
    */
@@ -97,4 +109,14 @@ export interface Target {
    * Whether the target should be run
    */
   shouldRun?: boolean;
+
+  /**
+   * Retry policy for the target
+   */
+  retries?: TargetRetryOptions;
+
+  /**
+   * Maximum time (in milliseconds) the target is allowed to run
+   */
+  timeout?: number;
 }
@@ -55,6 +55,18 @@ export interface TargetConfig {
    */
   environmentGlob?: string[];
 
+  /**
+   * Environment variables whose values are part of the hash of the target (e.g. `["NODE_ENV", "NEXT_PUBLIC_*"]`).
+   * Wildcards (`*`) are supported.
+   */
+  env?: string[];
+
+  /**
+   * Environment variables that are passed through to the target when `cacheOptions.strictEnv` is on, without being part of its hash
+   * (e.g. `["GITHUB_TOKEN", "AWS_*"]`). Wildcards (`*`) are supported.
+   */
+  passThroughEnv?: string[];
+
   /**
    * How many workers to dedicate to this task type
    */
@@ -86,6 +98,33 @@ export interface TargetConfig {
    * package tasks.
    */
   stagedTarget?: StagedTargetConfig;
+
+  /**
+   * Retry policy for flaky targets. A failed target is re-queued up to `retries.count` times before it is marked as failed.
+   */
+  retries?: TargetRetryOptions;
+
+  /**
+   * Maximum time (in milliseconds) a target is allowed to run before it is aborted and marked as timed out
+   */
+  timeout?: number;
+}
+
+export interface TargetRetryOptions {
+  /**
+   * Maximum number of retries after the first failed attempt
+   */
+  count: number;
+
+  /**
+   * Delay (in milliseconds) before the first retry; the delay doubles with every subsequent retry. Defaults to 0.
+   */
+  backoff?: number;
+
+  /**
+   * Only retry when the target exits with one of these exit codes. By default, any failure is retried.
+   */
+  exitCodes?: number[];
 }
 
 export interface StagedTargetConfig {
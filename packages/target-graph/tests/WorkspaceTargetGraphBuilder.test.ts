@@ -402,4 +402,68 @@ describe("workspace target graph builder", () => {
       ]
     `);
   });
+
+  it("should record the pipeline entries that contributed to the config of a target", async () => {
+    const root = "/repos/a";
+
+    const packageInfos = createPackageInfo({
+      a: ["b"],
+      b: [],
+    });
+
+    const builder = new WorkspaceTargetGraphBuilder(root, packageInfos, true);
+    builder.addTargetConfig("build", {
+      dependsOn: ["^build"],
+      outputs: ["lib/**"],
+    });
+
+    builder.addTargetConfig("a#build", { dependsOn: ["b#types"], priority: 10 }, undefined, "packages/a/package.json");
+
+    expect(builder.getTargetConfig("a#build")).toEqual({ dependsOn: ["^build", "b#types"], outputs: ["lib/**"], priority: 10 });
+    expect(builder.getTargetConfigSources("a#build")).toEqual([
+      { id: "build", source: undefined, keys: ["dependsOn", "outputs"] },
+      { id: "a#build", source: "packages/a/package.json", keys: ["dependsOn", "priority"] },
+    ]);
+    expect(builder.getTargetConfigSources("b#build")).toEqual([{ id: "build", source: undefined, keys: ["dependsOn", "outputs"] }]);
+  });
+
+  it("should only record the last pipeline entry of a target when the target configs are not merged", async () => {
+    const root = "/repos/a";
+
+    const packageInfos = createPackageInfo({
+      a: [],
+    });
+
+    const builder = new WorkspaceTargetGraphBuilder(root, packageInfos, false);
+    builder.addTargetConfig("build", { dependsOn: ["^build"] });
+    builder.addTargetConfig("a#build", { priority: 10 });
+
+    expect(builder.getTargetConfig("a#build")).toEqual({ priority: 10 });
+    expect(builder.getTargetConfigSources("a#build")).toEqual([{ id: "a#build", source: undefined, keys: ["priority"] }]);
+  });
+
+  it("should record the priorities of the targets before they are accumulated along the critical path", async () => {
+    const root = "/repos/a";
+
+    const packageInfos = createPackageInfo({
+      a: ["b"],
+      b: ["c"],
+      c: [],
+    });
+
+    const builder = new WorkspaceTargetGraphBuilder(root, packageInfos, false);
+    builder.addTargetConfig("build", { dependsOn: ["^build"] });
+    builder.addTargetConfig("a#build", { dependsOn: ["^build"], priority: 20 });
+    builder.addTargetConfig("b#build", { dependsOn: ["^build"], priority: 5 });
+
+    const targetGraph = await builder.build(["build"], undefined, [
+      { package: "a", task: "build", priority: 10 },
+      { package: "b", task: "build", priority: 10 },
+    ]);
+
+    expect(builder.getTargetPriority("a#build")).toEqual({ priority: 20, from: "pipeline" });
+    expect(builder.getTargetPriority("b#build")).toEqual({ priority: 10, from: "priorities" });
+    expect(builder.getTargetPriority("c#build")).toBeUndefined();
+    expect(targetGraph.targets.get("c#build")!.priority).toBe(30);
+  });
 });
@@ -0,0 +1,50 @@
+import { getStartTargetId } from "../src/targetId";
+import { getExecutionOrder } from "../src/getExecutionOrder";
+import type { Target } from "../src/types/Target";
+
+function createTarget(id: string, overrides: Partial<Target> = {}): Target {
+  const [packageName, task] = id.split("#");
+  return {
+    id,
+    label: `${packageName} - ${task}`,
+    cwd: `/repo/packages/${packageName}`,
+    packageName,
+    task,
+    depSpecs: [],
+    dependencies: [],
+    dependents: [],
+    ...overrides,
+  };
+}
+
+const ids = (levels: Target[][]) => levels.map((level) => level.map((target) => target.id));
+
+describe("getExecutionOrder", () => {
+  it("orders targets after their dependencies, picking ready targets by priority", () => {
+    const targets = [
+      createTarget(getStartTargetId(), { packageName: undefined, task: getStartTargetId() }),
+      createTarget("c#build", { dependencies: ["a#build", "b#build"] }),
+      createTarget("a#build", { dependencies: [getStartTargetId()] }),
+      createTarget("b#build", { dependencies: [getStartTargetId()], priority: 10 }),
+    ];
+
+    expect(ids(getExecutionOrder(targets))).toEqual([["b#build", "a#build"], ["c#build"]]);
+  });
+
+  it("ignores dependencies that are not among the targets", () => {
+    const targets = [createTarget("b#build", { dependencies: ["a#build"] }), createTarget("c#build", { dependencies: ["b#build"] })];
+
+    expect(ids(getExecutionOrder(targets))).toEqual([["b#build"], ["c#build"]]);
+  });
+
+  it("throws on a cycle, or stops at it", () => {
+    const targets = [
+      createTarget("a#build"),
+      createTarget("b#build", { dependencies: ["a#build", "c#build"] }),
+      createTarget("c#build", { dependencies: ["b#build"] }),
+    ];
+
+    expect(() => getExecutionOrder(targets)).toThrow("Unable to order targets, there is a cycle among: b#build, c#build");
+    expect(ids(getExecutionOrder(targets, { onCycle: "stop" }))).toEqual([["a#build"]]);
+  });
+});
@@ -0,0 +1,29 @@
+import { matchEnvVariables } from "../src/matchEnvVariables";
+
+describe("matchEnvVariables", () => {
+  const env = {
+    NODE_ENV: "production",
+    NEXT_PUBLIC_URL: "https://example.com",
+    NEXT_PUBLIC_KEY: "key",
+    NEXT_SECRET: "secret",
+    "A.B": "dot",
+    AXB: "x",
+  };
+
+  it("matches exact names and wildcards, sorted by name", () => {
+    expect(matchEnvVariables(["NODE_ENV", "NEXT_PUBLIC_*"], env)).toEqual({
+      NEXT_PUBLIC_KEY: "key",
+      NEXT_PUBLIC_URL: "https://example.com",
+      NODE_ENV: "production",
+    });
+    expect(Object.keys(matchEnvVariables(["NEXT_PUBLIC_*", "NODE_ENV"], env))).toEqual(["NEXT_PUBLIC_KEY", "NEXT_PUBLIC_URL", "NODE_ENV"]);
+  });
+
+  it("treats characters other than * literally", () => {
+    expect(matchEnvVariables(["A.B"], env)).toEqual({ "A.B": "dot" });
+  });
+
+  it("matches nothing without patterns", () => {
+    expect(matchEnvVariables([], env)).toEqual({});
+  });
+});
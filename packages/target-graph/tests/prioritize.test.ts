@@ -119,4 +119,74 @@ describe("prioritize", () => {
       ]
     `);
   });
+
+  it("should accumulate the weights of targets along the critical path, scaled to the largest of them", () => {
+    // a#build --> b#build --> c#build (short targets)
+    // d#build --> e#build (a long target)
+    const targets = new Map<string, Target>(
+      [
+        createTarget({ packageName: "a", task: "build", dependencies: [], dependents: ["b#build"], priority: 0 }),
+        createTarget({ packageName: "b", task: "build", dependencies: ["a#build"], dependents: ["c#build"], priority: 0 }),
+        createTarget({ packageName: "c", task: "build", dependencies: ["b#build"], dependents: [], priority: 0 }),
+        createTarget({ packageName: "d", task: "build", dependencies: [], dependents: ["e#build"], priority: 0 }),
+        createTarget({ packageName: "e", task: "build", dependencies: ["d#build"], dependents: [], priority: 1 }),
+      ].map((target) => [target.id, target])
+    );
+
+    const weights = new Map([
+      ["a#build", 1],
+      ["b#build", 2],
+      ["c#build", 3],
+      ["d#build", 5],
+      ["e#build", 20],
+    ]);
+
+    prioritize(targets, weights);
+
+    // the longest chain is d#build --> e#build, with 25 - the weights of the others are relative to it, and add at most 0.5
+    expect(Object.fromEntries([...targets.values()].map((t) => [t.id, t.priority]))).toEqual({
+      "a#build": 0.12,
+      "b#build": 0.1,
+      "c#build": 0.06,
+      "d#build": 1.5,
+      "e#build": 1.4,
+    });
+  });
+
+  it("should only use the weights to order targets of equal priority", () => {
+    // a#build --> b#build (quick targets, with a priority)
+    // c#build --> d#build (slow targets)
+    // e#build (a quick target)
+    const targets = new Map<string, Target>(
+      [
+        createTarget({ packageName: "a", task: "build", dependencies: [], dependents: ["b#build"], priority: 0 }),
+        createTarget({ packageName: "b", task: "build", dependencies: ["a#build"], dependents: [], priority: 1 }),
+        createTarget({ packageName: "c", task: "build", dependencies: [], dependents: ["d#build"], priority: 0 }),
+        createTarget({ packageName: "d", task: "build", dependencies: ["c#build"], dependents: [], priority: 0 }),
+        createTarget({ packageName: "e", task: "build", dependencies: [], dependents: [], priority: 0 }),
+      ].map((target) => [target.id, target])
+    );
+
+    const weights = new Map([
+      ["a#build", 2],
+      ["b#build", 3],
+      ["c#build", 300],
+      ["d#build", 900],
+      ["e#build", 60],
+    ]);
+
+    prioritize(targets, weights);
+
+    const priorities = Object.fromEntries([...targets.values()].map((t) => [t.id, t.priority!]));
+
+    // the durations (in seconds) do not outweigh the priority given by the user...
+    expect(priorities["a#build"]).toBeGreaterThan(priorities["c#build"]);
+    expect(priorities["b#build"]).toBeGreaterThan(priorities["d#build"]);
+
+    // ...but they order the targets of equal priority
+    expect(priorities["c#build"]).toBeGreaterThan(priorities["e#build"]);
+    expect(priorities["d#build"]).toBeGreaterThan(priorities["e#build"]);
+    expect(Math.floor(priorities["a#build"])).toBe(1);
+    expect(Math.floor(priorities["c#build"])).toBe(0);
+  });
 });
@@ -208,11 +208,11 @@ export class ThreadWorker extends EventEmitter implements IWorker {
     stderrInterface.on("line", stderrLineHandler);
   }
 
-  #handleAbort() {
+  #handleAbort = () => {
     if (this.#worker) {
       this.#worker.postMessage({ type: "abort" });
     }
-  }
+  };
 
   start(work: QueueItem, abortSignal?: AbortSignal) {
     this.status = "busy";
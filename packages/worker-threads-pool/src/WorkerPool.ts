@@ -107,12 +107,12 @@ export class WorkerPool extends EventEmitter implements Pool {
     weight = Math.min(Math.max(1, weight), this.maxWorkers);
 
     return new Promise((resolve, reject) => {
-      this.queue.push({ task: { ...task, weight }, weight, resolve, reject, cleanup, setup, priority });
-      this._exec(abortSignal);
+      this.queue.push({ task: { ...task, weight }, weight, resolve, reject, cleanup, setup, priority, abortSignal });
+      this._exec();
     });
   }
 
-  _exec(abortSignal?: AbortSignal) {
+  _exec() {
     // find work that will fit the availability of workers
     const workIndex = pickTaskFromQueue(this.queue, this.availability);
 
@@ -133,7 +133,7 @@ export class WorkerPool extends EventEmitter implements Pool {
       const work = this.queue[workIndex];
       this.queue.splice(workIndex, 1);
       this.availability -= work.weight;
-      worker.start(work, abortSignal);
+      worker.start(work, work.abortSignal);
     }
   }
 
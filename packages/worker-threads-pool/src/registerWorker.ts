@@ -4,9 +4,10 @@ import { endMarker, startMarker } from "./stdioStreamMarkers.js";
 import type { MessagePort } from "worker_threads";
 
 export function registerWorker(fn: (data: any, abortSignal?: AbortSignal) => Promise<any> | any) {
-  parentPort?.on("message", async (message) => {
-    let abortController: AbortController | undefined;
+  // kept outside of the message handler so that an "abort" message reaches the task started by a previous "start" message
+  let abortController: AbortController | undefined;
 
+  parentPort?.on("message", async (message) => {
     switch (message.type) {
       case "start":
         abortController = new AbortController();
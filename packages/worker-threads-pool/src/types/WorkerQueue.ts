@@ -8,6 +8,7 @@ export interface QueueItem {
   task: Record<string, unknown>;
   weight: number;
   priority?: number;
+  abortSignal?: AbortSignal;
   resolve: (value?: unknown) => void;
   reject: (reason: unknown) => void;
 }